@@ -1,40 +1,42 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { runRAG } from '../src/rag';
+import { formatSSE, handleAskRequest } from '../src/askHandler';
 
+/**
+ * Adapt a Vercel Node.js request to the shared ask pipeline
+ */
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
 ) {
-  // Only allow POST requests
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed. Use POST.' });
-  }
-
-  try {
-    const { query } = req.body;
+  // Closing before the response ends means the client disconnected
+  const disconnect = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) disconnect.abort();
+  });
 
-    if (!query || typeof query !== 'string' || query.trim().length === 0) {
-      return res.status(400).json({ 
-        error: 'Invalid request. Provide a "query" field in the request body.' 
-      });
-    }
+  const response = await handleAskRequest({
+    method: req.method || 'GET',
+    url: req.url || '/api/ask',
+    getHeader: (name) => {
+      const value = req.headers[name];
+      return Array.isArray(value) ? value[0] : value;
+    },
+    // Vercel parses the body itself; reading it throws on malformed JSON
+    readBody: async () => req.body,
+    clientIp: req.socket?.remoteAddress,
+    signal: disconnect.signal,
+  });
 
-    // Run RAG
-    const result = await runRAG(query.trim());
+  for (const [name, value] of Object.entries(response.headers)) {
+    res.setHeader(name, value);
+  }
+  res.status(response.status);
 
-    // Return answer (sources are optional, can be included for debugging)
-    return res.status(200).json({
-      answer: result.answer,
-      // Uncomment to include sources in response:
-      // sources: result.sources,
-    });
-  } catch (error) {
-    console.error('API error:', error);
-    
-    return res.status(500).json({
-      error: 'Internal server error',
-      message: error instanceof Error ? error.message : 'Unknown error',
+  if (response.stream) {
+    await response.stream((event, data) => {
+      if (!disconnect.signal.aborted) res.write(formatSSE(event, data));
     });
+    return res.end();
   }
+  return response.body ? res.json(response.body) : res.end();
 }
-
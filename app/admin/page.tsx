@@ -0,0 +1,11 @@
+'use client';
+
+import AdminDashboard from '../../components/AdminDashboard';
+
+export default function AdminPage() {
+  return (
+    <main>
+      <AdminDashboard />
+    </main>
+  );
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalyticsStore, getWindowStart, summarizeAnalytics } from '../../../../src/analytics';
+import { authenticateAdminRequest, getCorsHeaders, getPreflightOrigins } from '../../../../src/apiKeys';
+import { API_VERSION, AdminAnalyticsResponse, createApiError } from '../../../../src/apiSchema';
+import { getFeedbackStore } from '../../../../src/feedback';
+import { logger } from '../../../../src/logger';
+import { loadIndexVersion, loadIngestHistory } from '../../../../src/manifest';
+
+export const runtime = 'nodejs';
+
+const METHODS = 'GET, OPTIONS';
+const DEFAULT_DAYS = 14;
+const MAX_DAYS = 90;
+
+/**
+ * Dashboard data for the last `days` days (default 14, at most 90): top
+ * queries, no-answer rate, latency, cost, feedback and ingestion history.
+ * Needs an API key issued with --admin.
+ */
+export async function GET(request: NextRequest) {
+  const { rejection, corsHeaders } = await authenticateAdminRequest(name => request.headers.get(name), METHODS);
+  const headers = { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' };
+  if (rejection) {
+    return NextResponse.json(rejection.body, { status: rejection.status, headers: { ...headers, ...rejection.headers } });
+  }
+
+  const daysParam = request.nextUrl.searchParams.get('days');
+  const days = daysParam === null ? DEFAULT_DAYS : Number(daysParam);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+    const { status, body } = createApiError('invalid_request', `days must be a whole number from 1 to ${MAX_DAYS}.`);
+    return NextResponse.json(body, { status, headers });
+  }
+
+  try {
+    const now = new Date();
+    const events = await getAnalyticsStore()?.list(getWindowStart(days, now)) || [];
+    const summary = summarizeAnalytics(
+      events,
+      await getFeedbackStore().list(),
+      loadIngestHistory(),
+      loadIndexVersion(),
+      days,
+      now
+    );
+
+    const response: AdminAnalyticsResponse = { version: API_VERSION, ...summary };
+    return NextResponse.json(response, { status: 200, headers });
+  } catch (error) {
+    logger.error('Admin analytics failed', { error });
+    const { status, body } = createApiError('internal_error', 'Something went wrong. Please try again.');
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(request.headers.get('origin'), await getPreflightOrigins(), METHODS),
+  });
+}
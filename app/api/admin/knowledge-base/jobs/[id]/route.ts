@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdminRequest, getCorsHeaders, getPreflightOrigins } from '../../../../../../src/apiKeys';
+import { API_VERSION, IngestJobResponse, createApiError } from '../../../../../../src/apiSchema';
+import { getIngestJob } from '../../../../../../src/knowledgeBase';
+
+export const runtime = 'nodejs';
+
+const METHODS = 'GET, OPTIONS';
+
+/**
+ * Progress, log and outcome of a background re-index
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const { rejection, corsHeaders } = await authenticateAdminRequest(name => request.headers.get(name), METHODS);
+  const headers = { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' };
+  if (rejection) {
+    return NextResponse.json(rejection.body, { status: rejection.status, headers: { ...headers, ...rejection.headers } });
+  }
+
+  // Jobs live in the server process, so they are gone after a restart
+  const job = getIngestJob(params.id);
+  if (!job) {
+    const { status, body } = createApiError('not_found', 'Job not found.');
+    return NextResponse.json(body, { status, headers });
+  }
+
+  const response: IngestJobResponse = { version: API_VERSION, job };
+  return NextResponse.json(response, { status: 200, headers });
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(request.headers.get('origin'), await getPreflightOrigins(), METHODS),
+  });
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdminRequest, getCorsHeaders, getPreflightOrigins } from '../../../../../src/apiKeys';
+import { API_VERSION, IngestJobResponse, createApiError, parseIngestJobRequest } from '../../../../../src/apiSchema';
+import { PayloadTooLargeError } from '../../../../../src/errors';
+import { startRollbackJob, startUploadJob } from '../../../../../src/knowledgeBase';
+import { logger } from '../../../../../src/logger';
+import { readLimitedBody } from '../../../../../src/rateLimit';
+
+export const runtime = 'nodejs';
+
+const METHODS = 'POST, OPTIONS';
+
+/**
+ * Start a background re-index: `{ "uploadId": "..." }` applies a previewed
+ * upload, `{ "rollbackTo": "<index version>" }` restores an archived version.
+ * Returns 202 with the job; poll /api/admin/knowledge-base/jobs/:id for progress.
+ */
+export async function POST(request: NextRequest) {
+  const { apiKey, rejection, corsHeaders } = await authenticateAdminRequest(name => request.headers.get(name), METHODS);
+  const headers = { ...corsHeaders, 'Content-Type': 'application/json' };
+  if (rejection) {
+    return NextResponse.json(rejection.body, { status: rejection.status, headers: { ...headers, ...rejection.headers } });
+  }
+
+  try {
+    let raw: string;
+    try {
+      raw = (await readLimitedBody(request.body)).toString('utf-8');
+    } catch (error) {
+      if (!(error instanceof PayloadTooLargeError)) throw error;
+      const { status, body: errorBody } = createApiError(error.code, error.message);
+      return NextResponse.json(errorBody, { status, headers });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(raw);
+    } catch (error) {
+      const { status, body: errorBody } = createApiError('invalid_json', 'Invalid JSON in request body.');
+      return NextResponse.json(errorBody, { status, headers });
+    }
+
+    const parsed = parseIngestJobRequest(body);
+    if (parsed.error) {
+      const { status, body: errorBody } = createApiError(parsed.error.code, parsed.error.message, parsed.error.details);
+      return NextResponse.json(errorBody, { status, headers });
+    }
+
+    const result = 'uploadId' in parsed.request
+      ? startUploadJob(parsed.request.uploadId, parsed.request.acceptSchemaChanges)
+      : startRollbackJob(parsed.request.rollbackTo);
+    if (result.error) {
+      const { status, body: errorBody } = createApiError(result.error.code, result.error.message);
+      return NextResponse.json(errorBody, { status, headers });
+    }
+
+    const job = result.value;
+    logger.info('Knowledge base job started', { jobId: job.id, kind: job.kind, apiKeyId: apiKey?.id });
+    const response: IngestJobResponse = { version: API_VERSION, job };
+    return NextResponse.json(response, { status: 202, headers });
+  } catch (error) {
+    logger.error('Starting knowledge base job failed', { error });
+    const { status, body } = createApiError('internal_error', 'Something went wrong. Please try again.');
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(request.headers.get('origin'), await getPreflightOrigins(), METHODS),
+  });
+}
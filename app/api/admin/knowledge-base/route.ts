@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdminRequest, getCorsHeaders, getPreflightOrigins } from '../../../../src/apiKeys';
+import { API_VERSION, KnowledgeBaseStatusResponse, createApiError } from '../../../../src/apiSchema';
+import { getKnowledgeBaseStatus } from '../../../../src/knowledgeBase';
+import { logger } from '../../../../src/logger';
+
+export const runtime = 'nodejs';
+
+const METHODS = 'GET, OPTIONS';
+
+/**
+ * Current index version, the files an upload can replace, recent ingestions
+ * (with whether each can be rolled back to) and background jobs
+ */
+export async function GET(request: NextRequest) {
+  const { rejection, corsHeaders } = await authenticateAdminRequest(name => request.headers.get(name), METHODS);
+  const headers = { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' };
+  if (rejection) {
+    return NextResponse.json(rejection.body, { status: rejection.status, headers: { ...headers, ...rejection.headers } });
+  }
+
+  try {
+    const response: KnowledgeBaseStatusResponse = { version: API_VERSION, ...getKnowledgeBaseStatus() };
+    return NextResponse.json(response, { status: 200, headers });
+  } catch (error) {
+    logger.error('Knowledge base status failed', { error });
+    const { status, body } = createApiError('internal_error', 'Something went wrong. Please try again.');
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(request.headers.get('origin'), await getPreflightOrigins(), METHODS),
+  });
+}
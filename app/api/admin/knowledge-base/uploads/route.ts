@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdminRequest, getCorsHeaders, getPreflightOrigins } from '../../../../../src/apiKeys';
+import { API_VERSION, UploadPreviewResponse, createApiError } from '../../../../../src/apiSchema';
+import { getRequestLimits } from '../../../../../src/config';
+import { PayloadTooLargeError } from '../../../../../src/errors';
+import { createUpload } from '../../../../../src/knowledgeBase';
+import { logger } from '../../../../../src/logger';
+import { readLimitedBody } from '../../../../../src/rateLimit';
+
+export const runtime = 'nodejs';
+
+const METHODS = 'POST, OPTIONS';
+// Room for the multipart boundaries and the "target" field around the file
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+
+/**
+ * Upload a spreadsheet as multipart/form-data (`file`, and optionally `target`,
+ * the knowledge base file it replaces) and get a preview of what re-indexing
+ * it would change. Nothing is re-indexed until a job applies the upload.
+ */
+export async function POST(request: NextRequest) {
+  const { rejection, corsHeaders } = await authenticateAdminRequest(name => request.headers.get(name), METHODS);
+  const headers = { ...corsHeaders, 'Content-Type': 'application/json' };
+  if (rejection) {
+    return NextResponse.json(rejection.body, { status: rejection.status, headers: { ...headers, ...rejection.headers } });
+  }
+
+  const { maxUploadBytes } = getRequestLimits();
+  const tooLarge = () => {
+    const { status, body } = createApiError('payload_too_large', `Uploads must be at most ${maxUploadBytes} bytes.`);
+    return NextResponse.json(body, { status, headers });
+  };
+  // The form is parsed in memory, so refuse oversized bodies before reading them
+  if (Number(request.headers.get('content-length') || 0) > maxUploadBytes + FORM_OVERHEAD_BYTES) return tooLarge();
+
+  try {
+    let form: FormData;
+    try {
+      // Chunked bodies declare no length, so the read itself stops at the limit
+      const data = await readLimitedBody(request.body, maxUploadBytes + FORM_OVERHEAD_BYTES);
+      form = await new Response(new Uint8Array(data), {
+        headers: { 'Content-Type': request.headers.get('content-type') || '' },
+      }).formData();
+    } catch (error) {
+      if (error instanceof PayloadTooLargeError) return tooLarge();
+      const { status, body } = createApiError('invalid_request', 'Send the spreadsheet as multipart/form-data in a "file" field.');
+      return NextResponse.json(body, { status, headers });
+    }
+
+    const file = form.get('file');
+    const target = form.get('target');
+    if (!file || typeof file === 'string') {
+      const { status, body } = createApiError('invalid_request', 'Send the spreadsheet as multipart/form-data in a "file" field.');
+      return NextResponse.json(body, { status, headers });
+    }
+    if (file.size > maxUploadBytes) return tooLarge();
+
+    const result = await createUpload(
+      file.name,
+      Buffer.from(await file.arrayBuffer()),
+      typeof target === 'string' && target ? target : undefined
+    );
+    if (result.error) {
+      const { status, body } = createApiError(result.error.code, result.error.message);
+      return NextResponse.json(body, { status, headers });
+    }
+
+    const preview = result.value;
+    logger.info('Knowledge base upload previewed', {
+      uploadId: preview.id,
+      target: preview.target,
+      schemaErrors: preview.schema.filter(issue => issue.level === 'error').length,
+    });
+    const response: UploadPreviewResponse = { version: API_VERSION, ...preview };
+    return NextResponse.json(response, { status: 201, headers });
+  } catch (error) {
+    logger.error('Knowledge base upload failed', { error });
+    const { status, body } = createApiError('internal_error', 'Something went wrong. Please try again.');
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(request.headers.get('origin'), await getPreflightOrigins(), METHODS),
+  });
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, getCorsHeaders, getPreflightOrigins } from '../../../../src/apiKeys';
+import { createApiError } from '../../../../src/apiSchema';
+import { logger } from '../../../../src/logger';
+import {
+  getSessionStore,
+  isConversationOwner,
+  isValidConversationId,
+  resolveConversationOwner,
+  toPublicConversation,
+} from '../../../../src/sessions';
+
+export const runtime = 'nodejs';
+
+const METHODS = 'GET, DELETE, OPTIONS';
+
+type ResponseHeaders = Record<string, string>;
+
+function notFound(headers: ResponseHeaders) {
+  const { status, body } = createApiError('not_found', 'Conversation not found.');
+  return NextResponse.json(body, { status, headers });
+}
+
+function serverError(headers: ResponseHeaders) {
+  const { status, body } = createApiError('internal_error', 'Something went wrong. Please try again.');
+  return NextResponse.json(body, { status, headers });
+}
+
+/**
+ * Authenticate the caller and load the conversation, treating conversations
+ * started with a different API key or owner cookie as missing
+ */
+async function loadConversation(request: NextRequest, id: string) {
+  const { apiKey, rejection, corsHeaders } = await authenticateRequest(name => request.headers.get(name), METHODS);
+  const headers = { ...corsHeaders, 'Content-Type': 'application/json' };
+  if (rejection) {
+    return {
+      headers,
+      response: NextResponse.json(rejection.body, { status: rejection.status, headers: { ...headers, ...rejection.headers } }),
+    };
+  }
+  if (!isValidConversationId(id)) return { headers, response: notFound(headers) };
+
+  const conversation = await getSessionStore().get(id);
+  const { owner } = resolveConversationOwner(name => request.headers.get(name), apiKey?.id);
+  if (!conversation || !isConversationOwner(conversation, owner)) return { headers, response: notFound(headers) };
+  return { headers, conversation };
+}
+
+/**
+ * Fetch a conversation with all of its messages
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  let headers: ResponseHeaders = { 'Content-Type': 'application/json' };
+  try {
+    const loaded = await loadConversation(request, params.id);
+    headers = loaded.headers;
+    if ('response' in loaded) return loaded.response;
+    return NextResponse.json({ conversation: toPublicConversation(loaded.conversation) }, { status: 200, headers });
+  } catch (error) {
+    logger.error('Conversation fetch failed', { conversationId: params.id, error });
+    return serverError(headers);
+  }
+}
+
+/**
+ * Delete a conversation
+ */
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  let headers: ResponseHeaders = { 'Content-Type': 'application/json' };
+  try {
+    const loaded = await loadConversation(request, params.id);
+    headers = loaded.headers;
+    if ('response' in loaded) return loaded.response;
+
+    const deleted = await getSessionStore().delete(params.id);
+    if (!deleted) return notFound(headers);
+    return NextResponse.json({ deleted: true }, { status: 200, headers });
+  } catch (error) {
+    logger.error('Conversation delete failed', { conversationId: params.id, error });
+    return serverError(headers);
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(request.headers.get('origin'), await getPreflightOrigins(), METHODS),
+  });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, getCorsHeaders, getPreflightOrigins } from '../../../src/apiKeys';
+import { createApiError } from '../../../src/apiSchema';
+import { logger } from '../../../src/logger';
+import { getSessionStore, resolveConversationOwner } from '../../../src/sessions';
+
+export const runtime = 'nodejs';
+
+const METHODS = 'GET, OPTIONS';
+
+/**
+ * List the caller's conversations, most recent first. Requests with an API key
+ * only see conversations started with that key, anonymous requests only those
+ * started with their owner cookie.
+ */
+export async function GET(request: NextRequest) {
+  const { apiKey, rejection, corsHeaders } = await authenticateRequest(name => request.headers.get(name), METHODS);
+  const headers = { ...corsHeaders, 'Content-Type': 'application/json' };
+  if (rejection) {
+    return NextResponse.json(rejection.body, { status: rejection.status, headers: { ...headers, ...rejection.headers } });
+  }
+
+  try {
+    const { owner } = resolveConversationOwner(name => request.headers.get(name), apiKey?.id);
+    const conversations = await getSessionStore().list(owner);
+    return NextResponse.json({ conversations }, { status: 200, headers });
+  } catch (error) {
+    logger.error('Conversation list failed', { error });
+    const { status, body } = createApiError('internal_error', 'Something went wrong. Please try again.');
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(request.headers.get('origin'), await getPreflightOrigins(), METHODS),
+  });
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, getCorsHeaders, getPreflightOrigins } from '../../../src/apiKeys';
+import { API_VERSION, FeedbackResponse, createApiError, parseFeedbackRequest } from '../../../src/apiSchema';
+import { PayloadTooLargeError } from '../../../src/errors';
+import { createFeedback, getFeedbackStore } from '../../../src/feedback';
+import { logger } from '../../../src/logger';
+import { guardAskRequest, readLimitedBody } from '../../../src/rateLimit';
+import { getSessionStore, isConversationOwner, resolveConversationOwner } from '../../../src/sessions';
+
+export const runtime = 'nodejs';
+
+const METHODS = 'POST, OPTIONS';
+
+/**
+ * Rate an answer up or down, optionally with a correction. The answer is
+ * identified by its conversation and the X-Trace-Id of the response that
+ * carried it; the question, answer and sources are taken from the stored
+ * conversation, not from the client.
+ */
+export async function POST(request: NextRequest) {
+  const getHeader = (name: string) => request.headers.get(name);
+  const { apiKey, rejection: authRejection, corsHeaders } = await authenticateRequest(getHeader, METHODS);
+  const headers = { ...corsHeaders, 'Content-Type': 'application/json' };
+  // The same rate limits and size caps as /api/ask, also for failed authentication
+  const rejection = await guardAskRequest(getHeader, request.ip, apiKey?.id) || authRejection;
+  if (rejection) {
+    return NextResponse.json(rejection.body, { status: rejection.status, headers: { ...headers, ...rejection.headers } });
+  }
+
+  try {
+    let raw: string;
+    try {
+      raw = (await readLimitedBody(request.body)).toString('utf-8');
+    } catch (error) {
+      if (!(error instanceof PayloadTooLargeError)) throw error;
+      const { status, body: errorBody } = createApiError(error.code, error.message);
+      return NextResponse.json(errorBody, { status, headers });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(raw);
+    } catch (error) {
+      const { status, body: errorBody } = createApiError('invalid_json', 'Invalid JSON in request body.');
+      return NextResponse.json(errorBody, { status, headers });
+    }
+
+    const parsed = parseFeedbackRequest(body);
+    if (parsed.error) {
+      const { status, body: errorBody } = createApiError(parsed.error.code, parsed.error.message, parsed.error.details);
+      return NextResponse.json(errorBody, { status, headers });
+    }
+    const { conversationId, traceId, rating, correction } = parsed.request;
+
+    // Conversations started with a different API key or owner cookie are treated as missing
+    const { owner } = resolveConversationOwner(name => request.headers.get(name), apiKey?.id);
+    const conversation = await getSessionStore().get(conversationId);
+    const feedback = conversation && isConversationOwner(conversation, owner)
+      ? createFeedback(conversation, traceId, rating, correction)
+      : null;
+    if (!feedback) {
+      const { status, body: errorBody } = createApiError('not_found', 'No answer with that trace ID in this conversation.');
+      return NextResponse.json(errorBody, { status, headers });
+    }
+
+    const saved = await getFeedbackStore().save(feedback);
+    logger.info('Feedback recorded', { feedbackId: saved.id, conversationId, answerTraceId: traceId, rating });
+
+    const response: FeedbackResponse = { version: API_VERSION, id: saved.id, rating: saved.rating };
+    return NextResponse.json(response, { status: 200, headers });
+  } catch (error) {
+    logger.error('Feedback failed', { error });
+    const { status, body } = createApiError('internal_error', 'Something went wrong. Please try again.');
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(request.headers.get('origin'), await getPreflightOrigins(), METHODS),
+  });
+}
@@ -0,0 +1,246 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import type { AdminAnalyticsResponse } from '../src/apiSchema';
+import KnowledgeBasePanel from './KnowledgeBasePanel';
+import './AdminDashboard.css';
+
+const ADMIN_KEY_STORAGE_KEY = 'nick-admin-api-key';
+const RANGE_OPTIONS = [7, 14, 30, 90];
+
+type LoadState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'error'; message: string }
+  | { status: 'loaded'; data: AdminAnalyticsResponse };
+
+function formatPercent(rate: number | null): string {
+  return rate === null ? '–' : `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatUsd(value: number): string {
+  return value < 0.01 && value > 0 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+function formatMs(value: number): string {
+  return value >= 1000 ? `${(value / 1000).toFixed(1)} s` : `${value} ms`;
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function SummaryCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="admin-card">
+      <div className="admin-card-label">{label}</div>
+      <div className="admin-card-value">{value}</div>
+      {detail && <div className="admin-card-detail">{detail}</div>}
+    </div>
+  );
+}
+
+/** Horizontal bar scaled against the largest value in its column */
+function Bar({ value, max, tone }: { value: number; max: number; tone?: 'warning' }) {
+  const width = max > 0 ? Math.max(2, Math.round((value / max) * 100)) : 0;
+  return (
+    <span className="admin-bar-track">
+      <span className={`admin-bar${tone ? ` admin-bar-${tone}` : ''}`} style={{ width: `${value > 0 ? width : 0}%` }} />
+    </span>
+  );
+}
+
+function Dashboard({ data }: { data: AdminAnalyticsResponse }) {
+  const { totals, daily, topQueries } = data;
+  const maxRequests = Math.max(...daily.map(day => day.requests));
+  const maxCost = Math.max(...daily.map(day => day.costUsd));
+  const rated = totals.feedbackUp + totals.feedbackDown;
+
+  return (
+    <>
+      <section className="admin-cards">
+        <SummaryCard label="Questions" value={totals.requests.toLocaleString()} detail={`last ${data.days} days`} />
+        <SummaryCard label="No answer found" value={formatPercent(totals.noAnswerRate)} detail="fallback answers" />
+        <SummaryCard label="Average latency" value={formatMs(totals.avgLatencyMs)} />
+        <SummaryCard label="Model cost" value={formatUsd(totals.costUsd)} />
+        <SummaryCard
+          label="Feedback"
+          value={formatPercent(totals.positiveRate)}
+          detail={rated > 0 ? `👍 ${totals.feedbackUp} · 👎 ${totals.feedbackDown}` : 'no ratings yet'}
+        />
+      </section>
+
+      <section className="admin-section">
+        <h2>Per day</h2>
+        <div className="admin-table-wrapper">
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Questions</th>
+                <th>No answer</th>
+                <th>Errors</th>
+                <th>Avg latency</th>
+                <th>Cost</th>
+                <th>Avg cost</th>
+                <th>👍 / 👎</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...daily].reverse().map(day => (
+                <tr key={day.date}>
+                  <td>{day.date}</td>
+                  <td>
+                    <span className="admin-number">{day.requests}</span>
+                    <Bar value={day.requests} max={maxRequests} />
+                  </td>
+                  <td>
+                    <span className="admin-number">{day.requests > 0 ? formatPercent(day.noAnswerRate) : '–'}</span>
+                    <Bar value={day.noAnswerRate} max={1} tone="warning" />
+                  </td>
+                  <td>{day.errors}</td>
+                  <td>{day.requests > 0 ? formatMs(day.avgLatencyMs) : '–'}</td>
+                  <td>
+                    <span className="admin-number">{formatUsd(day.costUsd)}</span>
+                    <Bar value={day.costUsd} max={maxCost} />
+                  </td>
+                  <td>{day.requests > 0 ? formatUsd(day.avgCostUsd) : '–'}</td>
+                  <td>{day.feedbackUp} / {day.feedbackDown}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="admin-section">
+        <h2>Top queries</h2>
+        {topQueries.length === 0 ? (
+          <p className="admin-empty">No questions asked in this period.</p>
+        ) : (
+          <div className="admin-table-wrapper">
+            <table className="admin-table">
+              <thead>
+                <tr>
+                  <th>Query</th>
+                  <th>Asked</th>
+                  <th>No answer</th>
+                  <th>Last asked</th>
+                </tr>
+              </thead>
+              <tbody>
+                {topQueries.map(query => (
+                  <tr key={query.query}>
+                    <td className="admin-query">{query.query}</td>
+                    <td>{query.count}</td>
+                    <td className={query.noAnswer > 0 ? 'admin-warning' : undefined}>{query.noAnswer}</td>
+                    <td>{formatDateTime(query.lastAskedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </>
+  );
+}
+
+/**
+ * Analytics and knowledge base management for operators. Needs an API key
+ * issued with --admin; it is kept in sessionStorage so it is forgotten when
+ * the tab closes.
+ */
+export default function AdminDashboard({ endpoint = '/api/admin/analytics' }: { endpoint?: string }) {
+  const [apiKey, setApiKey] = useState('');
+  const [keyInput, setKeyInput] = useState('');
+  const [days, setDays] = useState(14);
+  const [state, setState] = useState<LoadState>({ status: 'idle' });
+
+  useEffect(() => {
+    const stored = window.sessionStorage.getItem(ADMIN_KEY_STORAGE_KEY) || '';
+    setApiKey(stored);
+    setKeyInput(stored);
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!apiKey) return;
+    setState({ status: 'loading' });
+    try {
+      const response = await fetch(`${endpoint}?days=${days}`, {
+        headers: { Authorization: `Bearer ${apiKey}` },
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setState({ status: 'error', message: body.message || `Request failed (${response.status})` });
+        return;
+      }
+      setState({ status: 'loaded', data: body });
+    } catch (error) {
+      setState({ status: 'error', message: 'Could not reach the server.' });
+    }
+  }, [apiKey, days, endpoint]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const saveKey = (e: FormEvent) => {
+    e.preventDefault();
+    const key = keyInput.trim();
+    setApiKey(key);
+    if (key) {
+      window.sessionStorage.setItem(ADMIN_KEY_STORAGE_KEY, key);
+    } else {
+      window.sessionStorage.removeItem(ADMIN_KEY_STORAGE_KEY);
+      setState({ status: 'idle' });
+    }
+  };
+
+  return (
+    <div className="admin-dashboard">
+      <header className="admin-header">
+        <div>
+          <h1>Nick admin</h1>
+          {state.status === 'loaded' && (
+            <p className="admin-note">Updated {formatDateTime(state.data.to)}</p>
+          )}
+        </div>
+        <div className="admin-controls">
+          <form onSubmit={saveKey} className="admin-key-form">
+            <input
+              type="password"
+              value={keyInput}
+              onChange={(e) => setKeyInput(e.target.value)}
+              placeholder="Admin API key"
+              className="admin-input"
+              autoComplete="off"
+            />
+            <button type="submit" className="admin-button">Use key</button>
+          </form>
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="admin-input"
+            aria-label="Period"
+          >
+            {RANGE_OPTIONS.map(option => (
+              <option key={option} value={option}>Last {option} days</option>
+            ))}
+          </select>
+          <button onClick={load} className="admin-button" disabled={!apiKey || state.status === 'loading'}>
+            Refresh
+          </button>
+        </div>
+      </header>
+
+      {!apiKey && (
+        <p className="admin-empty">Enter an API key issued with <code>npm run keys -- create &lt;name&gt; --admin</code>.</p>
+      )}
+      {state.status === 'loading' && <p className="admin-empty">Loading…</p>}
+      {state.status === 'error' && <p className="admin-error">{state.message}</p>}
+      {state.status === 'loaded' && <Dashboard data={state.data} />}
+      {apiKey && <KnowledgeBasePanel key={apiKey} apiKey={apiKey} onIndexChange={load} />}
+    </div>
+  );
+}
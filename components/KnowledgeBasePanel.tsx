@@ -0,0 +1,332 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import type {
+  ApiErrorResponse,
+  IngestJobResponse,
+  KnowledgeBaseStatusResponse,
+  UploadPreviewResponse,
+} from '../src/apiSchema';
+import type { IngestJob, SheetRowDiff } from '../src/knowledgeBase';
+
+const JOB_POLL_INTERVAL_MS = 1000;
+const VISIBLE_LOG_LINES = 12;
+
+const STAGE_LABELS: Record<IngestJob['progress']['stage'], string> = {
+  reading: 'Reading sources',
+  chunking: 'Chunking',
+  comparing: 'Comparing with the last ingestion',
+  indexing: 'Writing catalog and keyword index',
+  embedding: 'Embedding',
+  updating: 'Updating vectors',
+  publishing: 'Publishing',
+};
+
+interface KnowledgeBasePanelProps {
+  apiKey: string;
+  endpoint?: string;
+  /** Called after a job publishes a new index version */
+  onIndexChange?: () => void;
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+function RowDiff({ diff }: { diff: SheetRowDiff }) {
+  const { samples } = diff;
+  return (
+    <div className="kb-row-diff">
+      <div className="kb-row-diff-header">
+        <strong>{diff.sheet}</strong>
+        <span className="admin-note">
+          matched by {diff.keyColumn || 'row number'}: +{diff.added} added, −{diff.removed} removed,
+          ~{diff.changed} changed, {diff.unchanged} unchanged
+        </span>
+      </div>
+      {samples.changed.length > 0 && (
+        <ul className="kb-changes">
+          {samples.changed.map(change => (
+            <li key={`changed-${change.key}`}>
+              <code>{change.key}</code>{' '}
+              {change.fields?.map(field => (
+                <span key={field.column} className="kb-field">
+                  {field.column}: <del>{String(field.before ?? '∅')}</del> → <ins>{String(field.after ?? '∅')}</ins>
+                </span>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+      {samples.added.length > 0 && (
+        <p className="kb-keys">Added: {samples.added.map(change => change.key).join(', ')}</p>
+      )}
+      {samples.removed.length > 0 && (
+        <p className="kb-keys kb-removed">Removed: {samples.removed.map(change => change.key).join(', ')}</p>
+      )}
+    </div>
+  );
+}
+
+function JobStatus({ job }: { job: IngestJob }) {
+  const title = job.kind === 'rollback' ? `Rollback to ${job.rollbackTo}` : `Re-index from ${job.fileName}`;
+  return (
+    <div className={`kb-job kb-job-${job.status}`}>
+      <div className="kb-job-header">
+        <strong>{title}</strong>
+        <span className="admin-note">
+          {job.status === 'running' && `${STAGE_LABELS[job.progress.stage]}…`}
+          {job.status === 'succeeded' && `Published ${job.publishedVersion}`}
+          {job.status === 'failed' && 'Failed; the previous files were put back'}
+        </span>
+      </div>
+      <span className="admin-bar-track kb-progress">
+        <span className="admin-bar" style={{ width: `${job.progress.percent}%` }} />
+      </span>
+      {job.error && <p className="admin-error">{job.error}</p>}
+      <pre className="kb-log">{job.log.slice(-VISIBLE_LOG_LINES).join('\n')}</pre>
+    </div>
+  );
+}
+
+/**
+ * Upload a new knowledge base spreadsheet, review its schema and row diff,
+ * re-index it in the background and roll back to earlier index versions
+ */
+export default function KnowledgeBasePanel({
+  apiKey,
+  endpoint = '/api/admin/knowledge-base',
+  onIndexChange,
+}: KnowledgeBasePanelProps) {
+  const [status, setStatus] = useState<KnowledgeBaseStatusResponse | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [target, setTarget] = useState('');
+  const [preview, setPreview] = useState<UploadPreviewResponse | null>(null);
+  const [acceptSchemaChanges, setAcceptSchemaChanges] = useState(false);
+  const [job, setJob] = useState<IngestJob | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const request = useCallback(async <T,>(path: string, init: RequestInit = {}): Promise<T> => {
+    const response = await fetch(`${endpoint}${path}`, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${apiKey}` },
+    });
+    const body = await response.json();
+    if (!response.ok) throw new Error((body as ApiErrorResponse).message || `Request failed (${response.status})`);
+    return body as T;
+  }, [apiKey, endpoint]);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const loaded = await request<KnowledgeBaseStatusResponse>('');
+      setStatus(loaded);
+      setJob(current => current || loaded.jobs[0] || null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Could not load the knowledge base status.');
+    }
+  }, [request]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  // Follow a running job until it finishes
+  useEffect(() => {
+    if (!job || job.status !== 'running') return;
+    const timer = setTimeout(async () => {
+      try {
+        const { job: updated } = await request<IngestJobResponse>(`/jobs/${job.id}`);
+        setJob(updated);
+        if (updated.status !== 'running') {
+          loadStatus();
+          if (updated.status === 'succeeded') onIndexChange?.();
+        }
+      } catch (pollError) {
+        setError(pollError instanceof Error ? pollError.message : 'Lost track of the job.');
+      }
+    }, JOB_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [job, request, loadStatus, onIndexChange]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const uploadFile = (e: FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    run(async () => {
+      const form = new FormData();
+      form.append('file', file);
+      if (target) form.append('target', target);
+      setPreview(await request<UploadPreviewResponse>('/uploads', { method: 'POST', body: form }));
+      setAcceptSchemaChanges(false);
+    });
+  };
+
+  const startJob = (body: Record<string, unknown>) => run(async () => {
+    const { job: started } = await request<IngestJobResponse>('/jobs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    setJob(started);
+    setPreview(null);
+    setFile(null);
+  });
+
+  const rollback = (version: string) => {
+    if (window.confirm(`Re-index the knowledge base as it was in version ${version}?`)) {
+      startJob({ rollbackTo: version });
+    }
+  };
+
+  const targets = status?.targets || [];
+  const accept = targets.length > 0 ? targets.map(t => t.slice(t.lastIndexOf('.'))).join(',') : '.xlsx,.xls,.csv';
+  const schemaErrors = preview?.schema.filter(issue => issue.level === 'error') || [];
+  const jobRunning = job?.status === 'running';
+  const canChange = !!status && !status.uploadsUnavailable;
+
+  return (
+    <section className="admin-section">
+      <h2>Knowledge base</h2>
+      <p className="admin-note">
+        Current index version: <code>{status?.indexVersion || '…'}</code>
+      </p>
+
+      {status?.uploadsUnavailable && <p className="admin-note admin-warning">{status.uploadsUnavailable}</p>}
+
+      {canChange && (
+        <form onSubmit={uploadFile} className="kb-upload">
+          <input
+            type="file"
+            accept={accept}
+            onChange={(e) => { setFile(e.target.files?.[0] || null); setPreview(null); }}
+            className="admin-input"
+            key={file ? 'selected' : 'empty'}
+          />
+          {targets.length > 1 && (
+            <select value={target || targets[0]} onChange={(e) => setTarget(e.target.value)} className="admin-input" aria-label="File to replace">
+              {targets.map(option => <option key={option} value={option}>Replace {option}</option>)}
+            </select>
+          )}
+          <button type="submit" className="admin-button" disabled={!file || busy || jobRunning}>
+            Preview changes
+          </button>
+          <span className="admin-note">Up to {formatBytes(status.maxUploadBytes)}</span>
+        </form>
+      )}
+
+      {error && <p className="admin-error">{error}</p>}
+
+      {preview && (
+        <div className="kb-preview">
+          <p>
+            <strong>{preview.fileName}</strong> will replace <code>{preview.target}</code>.
+            Vectors: +{preview.chunks.add} new, {preview.chunks.update} re-embedded,
+            {' '}{preview.chunks.updateMetadata} metadata only, −{preview.chunks.delete} deleted,
+            {' '}{preview.chunks.unchanged} unchanged.
+          </p>
+          {preview.schema.length > 0 && (
+            <ul className="kb-issues">
+              {preview.schema.map((issue, i) => (
+                <li key={i} className={issue.level === 'error' ? 'admin-error-text' : 'admin-warning'}>
+                  {issue.level === 'error' ? '✖' : '⚠'} {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          {preview.missingFiles.length > 0 && (
+            <p className="admin-warning">No longer found, will be removed from the index: {preview.missingFiles.join(', ')}</p>
+          )}
+          {preview.rows.map(diff => <RowDiff key={diff.sheet} diff={diff} />)}
+          <div className="kb-actions">
+            {schemaErrors.length > 0 && (
+              <label className="kb-accept">
+                <input
+                  type="checkbox"
+                  checked={acceptSchemaChanges}
+                  onChange={(e) => setAcceptSchemaChanges(e.target.checked)}
+                />
+                Apply despite {schemaErrors.length} schema error{schemaErrors.length === 1 ? '' : 's'}
+              </label>
+            )}
+            <button
+              onClick={() => startJob({ uploadId: preview.id, acceptSchemaChanges })}
+              className="admin-button"
+              disabled={busy || jobRunning || (schemaErrors.length > 0 && !acceptSchemaChanges)}
+            >
+              Re-index
+            </button>
+            <button onClick={() => setPreview(null)} className="admin-button kb-secondary" disabled={busy}>
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+
+      {job && <JobStatus job={job} />}
+
+      <h3 className="kb-subheading">Ingestion history</h3>
+      {!status || status.runs.length === 0 ? (
+        <p className="admin-empty">No ingestions recorded yet. Run npm run ingest or upload a spreadsheet.</p>
+      ) : (
+        <div className="admin-table-wrapper">
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>Finished</th>
+                <th>Version</th>
+                <th>Files</th>
+                <th>Chunks</th>
+                <th>Added</th>
+                <th>Updated</th>
+                <th>Deleted</th>
+                <th>Catalog rows</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {status.runs.map(ingestion => (
+                <tr key={`${ingestion.version}-${ingestion.finishedAt}`}>
+                  <td>{formatDateTime(ingestion.finishedAt)}</td>
+                  <td><code>{ingestion.version}</code></td>
+                  <td className="admin-query">{ingestion.files.join(', ')}</td>
+                  <td>{ingestion.chunks}</td>
+                  <td>{ingestion.added}</td>
+                  <td>{ingestion.updated + ingestion.metadataUpdated}</td>
+                  <td>{ingestion.deleted}</td>
+                  <td>{ingestion.catalogRows}</td>
+                  <td>
+                    {canChange && ingestion.canRollback && (
+                      <button
+                        onClick={() => rollback(ingestion.version)}
+                        className="admin-button kb-secondary"
+                        disabled={busy || jobRunning}
+                      >
+                        Roll back
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,249 @@
+import { Fragment, ReactNode } from 'react';
+
+/** Renders a run of plain text, e.g. to turn [n] markers into citation buttons */
+export type TextRenderer = (text: string, key: string) => ReactNode;
+
+interface MarkdownProps {
+  text: string;
+  renderText?: TextRenderer;
+}
+
+const FENCE_PATTERN = /^\s*```/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DIVIDER_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+// Code, bold, strikethrough, links, then italics; earlier alternatives win
+const INLINE_PATTERN = /(`[^`]+`)|(\*\*[^*]+?\*\*|__[^_]+?__)|(~~[^~]+?~~)|(\[[^\]]+\]\([^)\s]+\))|(\*[^*\s][^*]*?\*)/;
+const SAFE_URL_PATTERN = /^(https?:|mailto:)/i;
+
+const plainText: TextRenderer = (text) => text;
+
+function isTableStart(lines: string[], index: number): boolean {
+  return lines[index].includes('|') && index + 1 < lines.length && TABLE_DIVIDER_PATTERN.test(lines[index + 1]);
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return FENCE_PATTERN.test(line) || HEADING_PATTERN.test(line) || RULE_PATTERN.test(line) ||
+    QUOTE_PATTERN.test(line) || LIST_ITEM_PATTERN.test(line) || isTableStart(lines, index);
+}
+
+/**
+ * Inline Markdown: `code`, **bold**, *italic*, ~~strike~~ and [links](https://...).
+ * Links with other schemes (javascript:, data:) stay plain text.
+ */
+function renderInline(text: string, renderText: TextRenderer, keyPrefix: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let rest = text;
+  let index = 0;
+
+  while (rest) {
+    const match = rest.match(INLINE_PATTERN);
+    if (!match || match.index === undefined) {
+      nodes.push(renderText(rest, `${keyPrefix}-${index}`));
+      break;
+    }
+
+    if (match.index > 0) {
+      nodes.push(renderText(rest.slice(0, match.index), `${keyPrefix}-${index++}`));
+    }
+    const key = `${keyPrefix}-${index++}`;
+    const [token, code, bold, strike, link] = match;
+
+    if (code) {
+      nodes.push(<code key={key}>{code.slice(1, -1)}</code>);
+    } else if (bold) {
+      nodes.push(<strong key={key}>{renderInline(bold.slice(2, -2), renderText, key)}</strong>);
+    } else if (strike) {
+      nodes.push(<del key={key}>{renderInline(strike.slice(2, -2), renderText, key)}</del>);
+    } else if (link) {
+      const [, label, url] = link.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/) || [];
+      nodes.push(SAFE_URL_PATTERN.test(url) ? (
+        <a key={key} href={url} target="_blank" rel="noopener noreferrer">
+          {renderInline(label, renderText, key)}
+        </a>
+      ) : (
+        renderText(token, key)
+      ));
+    } else {
+      nodes.push(<em key={key}>{renderInline(token.slice(1, -1), renderText, key)}</em>);
+    }
+    rest = rest.slice(match.index + token.length);
+  }
+
+  return nodes;
+}
+
+/**
+ * Lines belonging to the list starting at `start`, as items of dedented lines
+ */
+function collectListItems(lines: string[], start: number): { items: string[][]; ordered: boolean; end: number } {
+  const first = lines[start].match(LIST_ITEM_PATTERN)!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let index = start;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const item = line.match(LIST_ITEM_PATTERN);
+
+    if (item && item[1].length === indent && /\d/.test(item[2]) === ordered) {
+      items.push([item[3]]);
+    } else if (item && item[1].length < indent) {
+      break;
+    } else if (line.trim() === '') {
+      // A blank line only continues the list if more of it follows
+      const next = lines.slice(index + 1).find(candidate => candidate.trim() !== '');
+      const nextItem = next?.match(LIST_ITEM_PATTERN);
+      if (!next || !(nextItem ? nextItem[1].length >= indent : next.search(/\S/) > indent)) break;
+      items[items.length - 1].push('');
+    } else if (line.search(/\S/) > indent || (!startsBlock(lines, index) && items.length > 0)) {
+      // Nested content and lazy continuation lines belong to the current item
+      items[items.length - 1].push(line.slice(Math.min(line.search(/\S/), indent + 2)));
+    } else {
+      break;
+    }
+    index++;
+  }
+
+  return { items, ordered, end: index };
+}
+
+function renderBlocks(lines: string[], renderText: TextRenderer, keyPrefix: string): ReactNode[] {
+  const blocks: ReactNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const key = `${keyPrefix}-${blocks.length}`;
+
+    if (line.trim() === '') {
+      index++;
+      continue;
+    }
+
+    if (FENCE_PATTERN.test(line)) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !FENCE_PATTERN.test(lines[index])) code.push(lines[index++]);
+      index++;
+      blocks.push(<pre key={key}><code>{code.join('\n')}</code></pre>);
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      // Keep headings small inside a chat bubble
+      const Tag = `h${Math.min(heading[1].length + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6';
+      blocks.push(<Tag key={key}>{renderInline(heading[2], renderText, key)}</Tag>);
+      index++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push(<hr key={key} />);
+      index++;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE_PATTERN.test(lines[index])) {
+        quoted.push(lines[index++].match(QUOTE_PATTERN)![1]);
+      }
+      blocks.push(<blockquote key={key}>{renderBlocks(quoted, renderText, key)}</blockquote>);
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      index += 2;
+      while (index < lines.length && lines[index].includes('|') && lines[index].trim() !== '') {
+        rows.push(splitTableRow(lines[index++]));
+      }
+      blocks.push(
+        <div key={key} className="markdown-table">
+          <table>
+            <thead>
+              <tr>
+                {header.map((cell, cellIndex) => (
+                  <th key={cellIndex}>{renderInline(cell, renderText, `${key}-h${cellIndex}`)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {header.map((_, cellIndex) => (
+                    <td key={cellIndex}>
+                      {renderInline(row[cellIndex] || '', renderText, `${key}-${rowIndex}-${cellIndex}`)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const { items, ordered, end } = collectListItems(lines, index);
+      const ListTag = ordered ? 'ol' : 'ul';
+      const start = ordered ? parseInt(line.match(LIST_ITEM_PATTERN)![2], 10) : undefined;
+      blocks.push(
+        <ListTag key={key} start={start !== 1 ? start : undefined}>
+          {items.map((itemLines, itemIndex) => {
+            const itemKey = `${key}-${itemIndex}`;
+            // Single-line items render inline, without a paragraph margin
+            return (
+              <li key={itemIndex}>
+                {itemLines.length === 1
+                  ? renderInline(itemLines[0], renderText, itemKey)
+                  : renderBlocks(itemLines, renderText, itemKey)}
+              </li>
+            );
+          })}
+        </ListTag>
+      );
+      index = end;
+      continue;
+    }
+
+    // Paragraph: single newlines are kept as line breaks, as answers use them for lists of facts
+    const paragraph: string[] = [];
+    while (index < lines.length && lines[index].trim() !== '' && (paragraph.length === 0 || !startsBlock(lines, index))) {
+      paragraph.push(lines[index++]);
+    }
+    blocks.push(
+      <p key={key}>
+        {paragraph.map((paragraphLine, lineIndex) => (
+          <Fragment key={lineIndex}>
+            {lineIndex > 0 && <br />}
+            {renderInline(paragraphLine.trim(), renderText, `${key}-${lineIndex}`)}
+          </Fragment>
+        ))}
+      </p>
+    );
+  }
+
+  return blocks;
+}
+
+/**
+ * Safe Markdown for model answers: paragraphs, headings, lists, tables, quotes,
+ * code, emphasis and http(s) links. Builds React elements directly and never
+ * injects HTML, so markup in an answer is shown as text.
+ */
+export default function Markdown({ text, renderText = plainText }: MarkdownProps) {
+  return <div className="markdown">{renderBlocks(text.replace(/\r\n?/g, '\n').split('\n'), renderText, 'md')}</div>;
+}
@@ -1,30 +1,561 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { Fragment, useState, useRef, useEffect } from 'react';
+import Markdown from './Markdown';
 import './NickChatbot.css';
 
+interface Product {
+  name: string;
+  category?: string;
+  price?: string;
+}
+
+interface Source {
+  sheet: string;
+  row?: number;
+  label: string;
+  text: string;
+  /** Set when the source is a product row of the catalog */
+  product?: Product;
+}
+
+interface Match {
+  id: string;
+  label: string;
+  score: number;
+}
+
+interface ChunkScores {
+  dense?: number;
+  lexical?: number;
+  fused: number;
+}
+
+/** The `debug` field of an /api/ask response */
+interface DebugInfo {
+  rewrittenQuery?: string;
+  rewriteMethod?: string;
+  skippedStages?: string[];
+  cache?: string;
+  usage?: { inputTokens: number; outputTokens: number; costUsd: number; calls: unknown[] };
+  explain?: {
+    expandedQueries?: string[];
+    vectorQueries?: Array<{ query: string; matches: Match[]; error?: string }>;
+    lexicalMatches?: Match[];
+    scoreThreshold?: number;
+    candidates?: Array<{ id: string; label: string; scores: ChunkScores; passedThreshold: boolean }>;
+    thresholdRelaxed?: boolean;
+    rerankedOrder?: string[];
+    prompt?: string;
+  };
+}
+
 interface Message {
   id: string;
   text: string;
   sender: 'user' | 'nick';
   timestamp: Date;
   isLoading?: boolean;
+  isStreaming?: boolean;
+  progress?: string;
+  /** Source n backs the [n] markers in the text */
+  sources?: Source[];
+  /** Retrieval trace, when the developer panel is on */
+  debug?: DebugInfo;
+  /** X-Trace-Id of the response that carried the answer; feedback refers to it */
+  traceId?: string;
+  feedback?: MessageFeedback;
 }
 
-export default function NickChatbot() {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      text: "Hi! I'm Nick, your AI assistant. How can I help you today?",
-      sender: 'nick',
-      timestamp: new Date(),
-    },
-  ]);
+type FeedbackRating = 'up' | 'down';
+
+interface MessageFeedback {
+  rating: FeedbackRating;
+  status: 'sending' | 'sent' | 'failed';
+}
+
+export interface NickChatbotProps {
+  /** URL of the ask API; conversations are loaded from the sibling /conversations route */
+  endpoint?: string;
+  /** Sent as a Bearer token with every request */
+  apiKey?: string;
+  /** First message of every conversation */
+  greeting?: string;
+  /** Shows a close button in the header, e.g. to collapse the embedded widget */
+  onClose?: () => void;
+}
+
+const DEFAULT_ENDPOINT = '/api/ask';
+const DEFAULT_GREETING = "Hi! I'm Nick, your AI assistant. How can I help you today?";
+const CITATION_PATTERN = /\[(\d+)\]/g;
+const MAX_PRODUCT_CARDS = 3;
+const CONVERSATION_STORAGE_KEY = 'nick-conversation-id';
+const DEBUG_KEY_STORAGE_KEY = 'nick-debug-api-key';
+// Within the server's default MAX_HISTORY_MESSAGES and MAX_HISTORY_MESSAGE_LENGTH
+const MAX_HISTORY_MESSAGES = 10;
+const MAX_HISTORY_MESSAGE_LENGTH = 4000;
+
+// Outside `next dev`, the panel is opt-in and the API still requires a key with debug access
+const DEBUG_PANEL_AVAILABLE =
+  process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_DEBUG_PANEL === 'true';
+
+const PROGRESS_LABELS: Record<string, string> = {
+  rewriting: 'Following the conversation...',
+  expanding: 'Understanding your question...',
+  retrieving: 'Searching the knowledge base...',
+  reranking: 'Picking the most relevant information...',
+  generating: 'Writing an answer...',
+};
+
+/**
+ * Read a Server-Sent Events response and invoke onEvent for each event
+ */
+async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: any) => void
+): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let eventName = 'message';
+      let data = '';
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) eventName = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (data) onEvent(eventName, JSON.parse(data));
+    }
+  }
+}
+
+/**
+ * Replace [n] markers with buttons that open the matching footnote
+ */
+function renderWithCitations(
+  text: string,
+  sources: Source[] | undefined,
+  onCite: (index: number) => void
+): React.ReactNode[] {
+  if (!sources || sources.length === 0) return [text];
+
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  for (const match of Array.from(text.matchAll(CITATION_PATTERN))) {
+    const index = parseInt(match[1], 10);
+    // Leave numbers that do not point at a source as plain text
+    if (index < 1 || index > sources.length) continue;
+
+    parts.push(text.slice(lastIndex, match.index));
+    parts.push(
+      <button
+        key={`cite-${match.index}`}
+        className="citation-marker"
+        onClick={() => onCite(index)}
+        title={sources[index - 1].label}
+      >
+        {index}
+      </button>
+    );
+    lastIndex = (match.index || 0) + match[0].length;
+  }
+  parts.push(text.slice(lastIndex));
+  return parts;
+}
+
+/**
+ * Product rows the answer cites, one card per product, in citation order
+ */
+function getCitedProducts(text: string, sources: Source[] | undefined): Array<{ index: number; source: Source }> {
+  if (!sources) return [];
+
+  const cited: Array<{ index: number; source: Source }> = [];
+  for (const match of Array.from(text.matchAll(CITATION_PATTERN))) {
+    const index = parseInt(match[1], 10);
+    const source = sources[index - 1];
+    if (!source?.product || cited.some(entry => entry.source.product!.name === source.product!.name)) continue;
+    cited.push({ index, source });
+  }
+  return cited.slice(0, MAX_PRODUCT_CARDS);
+}
+
+function ProductCard({ product, source, index, onOpen }: {
+  product: Product;
+  source: Source;
+  index: number;
+  onOpen: () => void;
+}) {
+  return (
+    <button className="product-card" onClick={onOpen} title={`Show source [${index}]`}>
+      <span className="product-card-name">{product.name}</span>
+      {product.category && <span className="product-card-category">{product.category}</span>}
+      {product.price && <span className="product-card-price">{product.price}</span>}
+      <span className="product-card-source">[{index}] {source.label}</span>
+    </button>
+  );
+}
+
+/**
+ * Cards for the products an answer is grounded in; nothing for other answers
+ */
+function ProductCards({ message, onOpen }: { message: Message; onOpen: (index: number) => void }) {
+  const cited = getCitedProducts(message.text, message.sources);
+  if (cited.length === 0) return null;
+
+  return (
+    <div className="product-cards">
+      {cited.map(({ index, source }) => (
+        <ProductCard key={index} product={source.product!} source={source} index={index} onOpen={() => onOpen(index)} />
+      ))}
+    </div>
+  );
+}
+
+function formatScore(score: number | undefined): string {
+  return score === undefined ? '–' : score.toFixed(3);
+}
+
+function MatchTable({ matches }: { matches: Match[] }) {
+  if (matches.length === 0) return <div className="debug-empty">No matches</div>;
+  return (
+    <table className="debug-table">
+      <tbody>
+        {matches.map((match) => (
+          <tr key={match.id}>
+            <td>{match.label}</td>
+            <td className="debug-score">{formatScore(match.score)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Developer view of how an answer was produced: rewrite, expansion, raw
+ * retrieval scores, threshold decisions, re-ranking and the final prompt
+ */
+function DebugPanel({ debug }: { debug: DebugInfo }) {
+  const explain = debug.explain || {};
+  const labels = new Map((explain.candidates || []).map((candidate) => [candidate.id, candidate.label]));
+
+  return (
+    <details className="debug-panel">
+      <summary>
+        Retrieval trace{debug.usage ? ` · $${debug.usage.costUsd.toFixed(4)}` : ''}
+      </summary>
+      <dl className="debug-facts">
+        {debug.rewrittenQuery && (
+          <>
+            <dt>Standalone question</dt>
+            <dd>{debug.rewrittenQuery} ({debug.rewriteMethod})</dd>
+          </>
+        )}
+        {debug.cache && (
+          <>
+            <dt>Answer cache</dt>
+            <dd>{debug.cache}</dd>
+          </>
+        )}
+        {debug.skippedStages && debug.skippedStages.length > 0 && (
+          <>
+            <dt>Skipped stages</dt>
+            <dd>{debug.skippedStages.join(', ')}</dd>
+          </>
+        )}
+        {debug.usage && (
+          <>
+            <dt>Usage</dt>
+            <dd>
+              {debug.usage.inputTokens} in / {debug.usage.outputTokens} out tokens,{' '}
+              {debug.usage.calls.length} model calls
+            </dd>
+          </>
+        )}
+      </dl>
+
+      {explain.expandedQueries && (
+        <div className="debug-section">
+          <div className="debug-title">Expanded queries</div>
+          <ol>
+            {explain.expandedQueries.map((query, idx) => <li key={idx}>{query}</li>)}
+          </ol>
+        </div>
+      )}
+
+      {explain.vectorQueries && (
+        <div className="debug-section">
+          <div className="debug-title">Vector matches</div>
+          {explain.vectorQueries.map((vectorQuery, idx) => (
+            <div key={idx}>
+              <div className="debug-subtitle">
+                {vectorQuery.query}
+                {vectorQuery.error && <span className="debug-error"> — {vectorQuery.error}</span>}
+              </div>
+              <MatchTable matches={vectorQuery.matches} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {explain.lexicalMatches && (
+        <div className="debug-section">
+          <div className="debug-title">Lexical matches</div>
+          <MatchTable matches={explain.lexicalMatches} />
+        </div>
+      )}
+
+      {explain.candidates && (
+        <div className="debug-section">
+          <div className="debug-title">
+            Candidates (kept when dense &gt; {explain.scoreThreshold} or matched lexically)
+          </div>
+          {explain.thresholdRelaxed && (
+            <div className="debug-note">Too few passed, so the top candidates were kept anyway.</div>
+          )}
+          <table className="debug-table">
+            <thead>
+              <tr>
+                <th>Chunk</th>
+                <th>Dense</th>
+                <th>Lexical</th>
+                <th>Fused</th>
+                <th>Kept</th>
+              </tr>
+            </thead>
+            <tbody>
+              {explain.candidates.map((candidate) => (
+                <tr key={candidate.id} className={candidate.passedThreshold ? '' : 'debug-rejected'}>
+                  <td>{candidate.label}</td>
+                  <td className="debug-score">{formatScore(candidate.scores.dense)}</td>
+                  <td className="debug-score">{formatScore(candidate.scores.lexical)}</td>
+                  <td className="debug-score">{formatScore(candidate.scores.fused)}</td>
+                  <td>{candidate.passedThreshold ? '✓' : '✗'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {explain.rerankedOrder && (
+        <div className="debug-section">
+          <div className="debug-title">Re-ranked order</div>
+          <ol>
+            {explain.rerankedOrder.map((id) => <li key={id}>{labels.get(id) || id}</li>)}
+          </ol>
+        </div>
+      )}
+
+      {explain.prompt && (
+        <div className="debug-section">
+          <div className="debug-title">Prompt</div>
+          <pre className="debug-prompt">{explain.prompt}</pre>
+        </div>
+      )}
+    </details>
+  );
+}
+
+const createWelcomeMessage = (greeting: string): Message => ({
+  id: '1',
+  text: greeting,
+  sender: 'nick',
+  timestamp: new Date(),
+});
+
+/**
+ * Conversations route next to the ask endpoint, e.g. https://nick.example.com/api/conversations
+ */
+function getConversationsUrl(endpoint: string): string {
+  return endpoint.replace(/\/ask\/?$/, '/conversations');
+}
+
+/**
+ * Recent turns sent along with the conversation ID. The server ignores them
+ * while it has the conversation, and seeds a new one from them when it does
+ * not, e.g. when another instance with its own memory store answers.
+ */
+function toConversationHistory(messages: Message[]): Array<{ role: 'user' | 'assistant'; content: string }> {
+  return messages
+    .filter(msg => msg.id !== '1' && !msg.isLoading && msg.text.trim())
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(msg => ({
+      role: msg.sender === 'user' ? 'user' : 'assistant',
+      content: msg.text.slice(0, MAX_HISTORY_MESSAGE_LENGTH),
+    }));
+}
+
+function getFeedbackUrl(endpoint: string): string {
+  return endpoint.replace(/\/ask\/?$/, '/feedback');
+}
+
+/**
+ * Thumbs up/down for an answer; thumbs down offers an optional correction
+ */
+function FeedbackControls({ feedback, onRate }: {
+  feedback: MessageFeedback | undefined;
+  onRate: (rating: FeedbackRating, correction?: string) => void;
+}) {
+  const [isCorrecting, setIsCorrecting] = useState(false);
+  const [correction, setCorrection] = useState('');
+  const isSending = feedback?.status === 'sending';
+
+  const rate = (rating: FeedbackRating) => {
+    setIsCorrecting(rating === 'down');
+    onRate(rating);
+  };
+
+  const submitCorrection = () => {
+    if (!correction.trim()) return;
+    onRate('down', correction.trim());
+    setIsCorrecting(false);
+  };
+
+  return (
+    <div className="feedback">
+      <div className="feedback-buttons">
+        <button
+          className={`feedback-button${feedback?.rating === 'up' ? ' active' : ''}`}
+          onClick={() => rate('up')}
+          disabled={isSending}
+          aria-pressed={feedback?.rating === 'up'}
+          aria-label="Helpful answer"
+        >
+          👍
+        </button>
+        <button
+          className={`feedback-button${feedback?.rating === 'down' ? ' active' : ''}`}
+          onClick={() => rate('down')}
+          disabled={isSending}
+          aria-pressed={feedback?.rating === 'down'}
+          aria-label="Wrong or unhelpful answer"
+        >
+          👎
+        </button>
+        {feedback?.status === 'sent' && !isCorrecting && <span className="feedback-status">Thanks for the feedback</span>}
+        {feedback?.status === 'failed' && <span className="feedback-status error">Could not send feedback</span>}
+      </div>
+      {isCorrecting && (
+        <div className="feedback-correction">
+          <textarea
+            value={correction}
+            onChange={(e) => setCorrection(e.target.value)}
+            placeholder="What should the answer have said? (optional)"
+            maxLength={2000}
+            rows={2}
+          />
+          <div className="feedback-correction-actions">
+            <button className="feedback-skip" onClick={() => setIsCorrecting(false)}>
+              Skip
+            </button>
+            <button className="feedback-submit" onClick={submitCorrection} disabled={!correction.trim() || isSending}>
+              Send correction
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function NickChatbot({
+  endpoint = DEFAULT_ENDPOINT,
+  apiKey,
+  greeting = DEFAULT_GREETING,
+  onClose,
+}: NickChatbotProps = {}) {
+  const [messages, setMessages] = useState<Message[]>(() => [createWelcomeMessage(greeting)]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [openSources, setOpenSources] = useState<Record<string, boolean>>({});
+  const [debugMode, setDebugMode] = useState(false);
+  const [debugApiKey, setDebugApiKey] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
+  // The debug key replaces the configured key while the developer panel is on
+  const bearerKey = debugMode && debugApiKey ? debugApiKey : apiKey;
+  const authHeaders: Record<string, string> = bearerKey ? { 'Authorization': `Bearer ${bearerKey}` } : {};
+
+  // Resume the conversation stored by a previous visit
+  useEffect(() => {
+    const storedId = window.localStorage.getItem(CONVERSATION_STORAGE_KEY);
+    if (!storedId) return;
+
+    fetch(`${getConversationsUrl(endpoint)}/${encodeURIComponent(storedId)}`, {
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+      cache: 'no-store',
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!data?.conversation) {
+          window.localStorage.removeItem(CONVERSATION_STORAGE_KEY);
+          return;
+        }
+        setConversationId(data.conversation.id);
+        setMessages([
+          createWelcomeMessage(greeting),
+          ...data.conversation.messages.map((msg: any, idx: number) => ({
+            id: `${data.conversation.id}-${idx}`,
+            text: msg.content,
+            sender: msg.role === 'user' ? 'user' : 'nick',
+            timestamp: new Date(msg.createdAt),
+            sources: msg.sources,
+            traceId: msg.traceId,
+          })),
+        ]);
+      })
+      .catch((error) => console.error('Failed to resume conversation:', error));
+    // Resumed once on mount; later prop changes must not replace the conversation on screen
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // The debug key lives for the browser session only
+  useEffect(() => {
+    if (DEBUG_PANEL_AVAILABLE) {
+      setDebugApiKey(window.sessionStorage.getItem(DEBUG_KEY_STORAGE_KEY) || '');
+    }
+  }, []);
+
+  const updateDebugApiKey = (key: string) => {
+    setDebugApiKey(key);
+    if (key) {
+      window.sessionStorage.setItem(DEBUG_KEY_STORAGE_KEY, key);
+    } else {
+      window.sessionStorage.removeItem(DEBUG_KEY_STORAGE_KEY);
+    }
+  };
+
+  const rememberConversation = (id: string | undefined) => {
+    if (!id) return;
+    setConversationId(id);
+    window.localStorage.setItem(CONVERSATION_STORAGE_KEY, id);
+  };
+
+  const startNewConversation = () => {
+    window.localStorage.removeItem(CONVERSATION_STORAGE_KEY);
+    setConversationId(null);
+    setOpenSources({});
+    setMessages([createWelcomeMessage(greeting)]);
+  };
+
   const scrollToBottom = () => {
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth', block: 'end' });
@@ -48,6 +579,41 @@ export default function NickChatbot() {
     }
   }, [messages]);
 
+  const toggleSource = (messageId: string, index: number) => {
+    const key = `${messageId}-${index}`;
+    setOpenSources((prev) => ({ ...prev, [key]: !prev[key] }));
+  };
+
+  const openSource = (messageId: string, index: number) => {
+    setOpenSources((prev) => ({ ...prev, [`${messageId}-${index}`]: true }));
+    // Looked up within the component, which may be rendered inside a shadow root
+    requestAnimationFrame(() => {
+      containerRef.current
+        ?.querySelector(`[id="source-${messageId}-${index}"]`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    });
+  };
+
+  const sendFeedback = async (message: Message, rating: FeedbackRating, correction?: string) => {
+    const setFeedback = (feedback: MessageFeedback) => {
+      setMessages((prev) => prev.map((msg) => (msg.id === message.id ? { ...msg, feedback } : msg)));
+    };
+
+    setFeedback({ rating, status: 'sending' });
+    try {
+      const response = await fetch(getFeedbackUrl(endpoint), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders },
+        body: JSON.stringify({ conversationId, traceId: message.traceId, rating, correction }),
+        cache: 'no-store',
+      });
+      setFeedback({ rating, status: response.ok ? 'sent' : 'failed' });
+    } catch (error) {
+      console.error('Failed to send feedback:', error);
+      setFeedback({ rating, status: 'failed' });
+    }
+  };
+
   const handleSend = async () => {
     if (!input.trim() || isLoading) return;
 
@@ -76,27 +642,27 @@ export default function NickChatbot() {
     ]);
 
     try {
-      // Prepare conversation history (last 10 messages for context)
-      const conversationHistory = messages
-        .filter(msg => msg.id !== '1' && !msg.isLoading) // Exclude welcome message and loading states
-        .slice(-10) // Last 10 messages
-        .map(msg => ({
-          role: msg.sender === 'user' ? 'user' : 'assistant',
-          content: msg.text,
-        }));
-
-      const response = await fetch('/api/ask', {
+      // History is kept server-side under the conversation ID; the local copy is a fallback
+      const conversationHistory = toConversationHistory(messages);
+      const response = await fetch(endpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          ...authHeaders,
         },
         body: JSON.stringify({ 
           query: userMessage.text,
-          conversationHistory: conversationHistory,
+          conversationId,
+          ...(conversationHistory.length > 0 ? { conversationHistory } : {}),
+          includeSources: true,
+          ...(debugMode ? { debug: true } : {}),
         }),
         cache: 'no-store',
       });
 
+      const traceId = response.headers.get('X-Trace-Id') || undefined;
+
       if (!response.ok) {
         // Try to get error message from response
         let errorMessage = 'Failed to get response';
@@ -109,6 +675,50 @@ export default function NickChatbot() {
         throw new Error(errorMessage);
       }
 
+      if ((response.headers.get('content-type') || '').includes('text/event-stream')) {
+        const updateMessage = (update: (msg: Message) => Message) => {
+          setMessages((prev) =>
+            prev.map((msg) => (msg.id === loadingMessageId ? update(msg) : msg))
+          );
+        };
+
+        let streamError: string | null = null;
+        await readEventStream(response, (event, payload) => {
+          if (event === 'progress') {
+            updateMessage((msg) => ({ ...msg, progress: PROGRESS_LABELS[payload.stage] }));
+          } else if (event === 'token') {
+            // First token replaces the loading dots with the streamed text
+            updateMessage((msg) => ({
+              ...msg,
+              text: msg.text + payload.text,
+              isLoading: false,
+              isStreaming: true,
+            }));
+          } else if (event === 'sources') {
+            updateMessage((msg) => ({ ...msg, sources: payload.sources }));
+          } else if (event === 'done') {
+            rememberConversation(payload.conversationId);
+            updateMessage((msg) => ({
+              ...msg,
+              text: payload.answer || 'Sorry, I could not generate a response.',
+              isLoading: false,
+              isStreaming: false,
+              progress: undefined,
+              timestamp: new Date(),
+              debug: payload.debug,
+              traceId,
+            }));
+          } else if (event === 'error') {
+            streamError = payload.message || payload.error;
+          }
+        });
+
+        if (streamError) {
+          throw new Error(streamError);
+        }
+        return;
+      }
+
       const data = await response.json();
       
       // Check if there's an error message from the API
@@ -117,6 +727,7 @@ export default function NickChatbot() {
       }
       
       const answer = data.answer || 'Sorry, I could not generate a response.';
+      rememberConversation(data.conversationId);
 
       // Remove loading message and add actual response
       setMessages((prev) =>
@@ -127,6 +738,9 @@ export default function NickChatbot() {
             text: answer,
             sender: 'nick',
             timestamp: new Date(),
+            sources: data.sources,
+            debug: data.debug,
+            traceId,
           })
       );
     } catch (error) {
@@ -181,7 +795,7 @@ export default function NickChatbot() {
   };
 
   return (
-    <div className="chatbot-container">
+    <div className="chatbot-container" ref={containerRef}>
       {/* Header */}
       <div className="chatbot-header">
         <div className="header-content">
@@ -204,7 +818,40 @@ export default function NickChatbot() {
             <h1>Nick</h1>
             <p className="status-text">Online • Ready to help</p>
           </div>
+          {DEBUG_PANEL_AVAILABLE && (
+            <button
+              className={`debug-toggle${debugMode ? ' active' : ''}`}
+              onClick={() => setDebugMode((on) => !on)}
+              aria-pressed={debugMode}
+            >
+              Debug
+            </button>
+          )}
+          <button
+            className="new-chat-button"
+            onClick={startNewConversation}
+            disabled={isLoading || !conversationId}
+          >
+            New chat
+          </button>
+          {onClose && (
+            <button className="close-chat-button" onClick={onClose} aria-label="Close chat">
+              ×
+            </button>
+          )}
         </div>
+        {debugMode && (
+          <div className="debug-bar">
+            <input
+              type="password"
+              value={debugApiKey}
+              onChange={(e) => updateDebugApiKey(e.target.value.trim())}
+              placeholder="API key with debug access (not needed under next dev)"
+              className="debug-key-input"
+              autoComplete="off"
+            />
+          </div>
+        )}
       </div>
 
       {/* Messages */}
@@ -233,14 +880,68 @@ export default function NickChatbot() {
               )}
               <div className="message-content">
                 {message.isLoading ? (
-                  <div className="loading-dots">
-                    <span></span>
-                    <span></span>
-                    <span></span>
-                  </div>
+                  <>
+                    <div className="loading-dots">
+                      <span></span>
+                      <span></span>
+                      <span></span>
+                    </div>
+                    {message.progress && (
+                      <div className="loading-progress">{message.progress}</div>
+                    )}
+                  </>
                 ) : (
-                  <div className="message-text">{message.text}</div>
+                  <div className={`message-text${message.isStreaming ? ' streaming' : ''}`}>
+                    {message.sender === 'nick' ? (
+                      <Markdown
+                        text={message.text}
+                        renderText={(text, key) => (
+                          <Fragment key={key}>
+                            {renderWithCitations(text, message.sources, (index) => openSource(message.id, index))}
+                          </Fragment>
+                        )}
+                      />
+                    ) : (
+                      message.text
+                    )}
+                  </div>
+                )}
+                {!message.isLoading && !message.isStreaming && (
+                  <ProductCards message={message} onOpen={(index) => openSource(message.id, index)} />
+                )}
+                {!message.isLoading && message.sources && message.sources.length > 0 && (
+                  <div className="message-sources">
+                    {message.sources.map((source, idx) => {
+                      const index = idx + 1;
+                      const isOpen = openSources[`${message.id}-${index}`];
+                      return (
+                        <div
+                          key={index}
+                          id={`source-${message.id}-${index}`}
+                          className="source-footnote"
+                        >
+                          <button
+                            className="source-footnote-toggle"
+                            onClick={() => toggleSource(message.id, index)}
+                            aria-expanded={!!isOpen}
+                          >
+                            {isOpen ? '▾' : '▸'} [{index}] {source.label}
+                          </button>
+                          {isOpen && (
+                            <div className="source-footnote-text">{source.text}</div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+                {message.sender === 'nick' && message.traceId && conversationId && !message.isStreaming && (
+                  <FeedbackControls
+                    feedback={message.feedback}
+                    onRate={(rating, correction) => sendFeedback(message, rating, correction)}
+                  />
                 )}
+                {debugMode && message.debug && <DebugPanel debug={message.debug} />}
                 <div className="message-time">
                   {message.timestamp.toLocaleTimeString([], {
                     hour: '2-digit',
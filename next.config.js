@@ -1,6 +1,15 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  eslint: {
+    // `next lint` and `next build` only cover app/, components/ and src/ by default
+    dirs: ['app', 'components', 'src', 'scripts', 'widget', 'api', 'test'],
+  },
+  experimental: {
+    // Admin uploads run the ingestion pipeline inside the server; load the
+    // document parsers from node_modules instead of bundling them
+    serverComponentsExternalPackages: ['pdf-parse', 'xlsx'],
+  },
   // Keep API routes in /api directory
   async rewrites() {
     return [];
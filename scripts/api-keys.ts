@@ -0,0 +1,72 @@
+import * as dotenv from 'dotenv';
+import { getApiKeyStore, issueApiKey, revokeApiKey } from '../src/apiKeys';
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage:
+  npm run keys -- create <name> [--origin https://partner.example]... [--debug] [--admin]
+  npm run keys -- list
+  npm run keys -- revoke <key id>`;
+
+function getOrigins(args: string[]): string[] {
+  return args.flatMap((arg, index) => arg === '--origin' && args[index + 1] ? [args[index + 1]] : []);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === 'create') {
+    const name = args[0];
+    if (!name || name.startsWith('--')) {
+      throw new Error(`Missing key name.\n${USAGE}`);
+    }
+
+    const { key, record } = await issueApiKey(name, getOrigins(args), {
+      debug: args.includes('--debug'),
+      admin: args.includes('--admin'),
+    });
+    console.log(`🔑 Issued ${record.id} for "${record.name}"`);
+    console.log(`   Allowed origins: ${record.allowedOrigins.join(', ') || '(none, server-side use only)'}`);
+    if (record.debug) console.log('   Debug output: allowed');
+    if (record.admin) console.log('   Admin routes: allowed');
+    console.log(`\n   ${key}\n`);
+    console.log('⚠️  Store this key now. Only its hash is kept, so it cannot be shown again.');
+    return;
+  }
+
+  if (command === 'list') {
+    const records = await getApiKeyStore().list();
+    if (records.length === 0) {
+      console.log('No API keys issued yet.');
+      return;
+    }
+    for (const record of records) {
+      const status = record.revokedAt ? `revoked ${record.revokedAt}` : 'active';
+      const flags = [status, record.debug && 'debug', record.admin && 'admin'].filter(Boolean).join(', ');
+      console.log(`${record.id}  ${record.prefix}…  ${record.name} (${flags})`);
+      console.log(`   Origins: ${record.allowedOrigins.join(', ') || '(none)'}`);
+      console.log(`   Requests: ${record.usage.requests}, last used: ${record.usage.lastUsedAt || 'never'}`);
+    }
+    return;
+  }
+
+  if (command === 'revoke') {
+    if (!args[0]) {
+      throw new Error(`Missing key id.\n${USAGE}`);
+    }
+    if (!await revokeApiKey(args[0])) {
+      throw new Error(`No active API key with id ${args[0]}`);
+    }
+    console.log(`🗑️  Revoked ${args[0]}`);
+    return;
+  }
+
+  console.log(USAGE);
+  process.exit(command ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
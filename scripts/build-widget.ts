@@ -0,0 +1,54 @@
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import { build } from 'esbuild';
+
+// Load environment variables
+dotenv.config();
+
+const ROOT = path.resolve(__dirname, '..');
+const OUTFILE = path.join(ROOT, 'public', 'nick-widget.js');
+
+// Palette, chat and launcher styles, inlined into the widget's shadow root
+const STYLESHEETS = ['app/globals.css', 'components/NickChatbot.css', 'widget/widget.css'];
+
+function readStyles(): string {
+  return STYLESHEETS
+    .map(file => fs.readFileSync(path.join(ROOT, file), 'utf-8'))
+    .join('\n')
+    // Theme variables are declared on :root for the app; in a shadow root the host plays that part
+    .replace(/:root\b/g, ':host');
+}
+
+async function main() {
+  console.log('📦 Building embeddable widget...');
+
+  const result = await build({
+    entryPoints: [path.join(ROOT, 'widget', 'index.tsx')],
+    outfile: OUTFILE,
+    bundle: true,
+    minify: true,
+    format: 'iife',
+    target: 'es2019',
+    jsx: 'automatic',
+    // Stylesheets imported by components are inlined above rather than injected into the page
+    loader: { '.css': 'empty' },
+    define: {
+      __NICK_WIDGET_CSS__: JSON.stringify(readStyles()),
+      'process.env.NODE_ENV': JSON.stringify('production'),
+      'process.env.NEXT_PUBLIC_DEBUG_PANEL': JSON.stringify(process.env.NEXT_PUBLIC_DEBUG_PANEL || ''),
+    },
+    logLevel: 'warning',
+  });
+
+  const size = fs.statSync(OUTFILE).size;
+  console.log(`✅ Wrote ${path.relative(ROOT, OUTFILE)} (${(size / 1024).toFixed(1)} KB)`);
+  if (result.warnings.length > 0) {
+    console.log(`⚠️  ${result.warnings.length} warning(s)`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
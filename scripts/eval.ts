@@ -0,0 +1,249 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as dotenv from 'dotenv';
+import { runRAG } from '../src/rag';
+
+// Load environment variables
+dotenv.config();
+
+// Cached answers are keyed by index version and query only, so they would hide prompt and model changes
+process.env.CACHE_STORE = 'none';
+
+interface GoldenCase {
+  id?: string;
+  question: string;
+  conversationHistory?: Array<{ role: string; content: string }>;
+  /** Rows that should be retrieved, e.g. [{ "sheet": "Sheet1", "row": 2 }] */
+  expectedRows?: Array<{ sheet: string; row: number }>;
+  /** Short strings the answer must contain, e.g. ["1.6kg"] */
+  expectedFacts?: string[];
+}
+
+interface CaseResult {
+  id: string;
+  question: string;
+  answer: string;
+  retrieved: string[];
+  recallAtK: number | null;
+  reciprocalRank: number | null;
+  factCoverage: number | null;
+  missingFacts: string[];
+  error?: string;
+}
+
+interface EvalRun {
+  runAt: string;
+  goldenPath: string;
+  k: number;
+  metrics: {
+    recallAtK: number | null;
+    mrr: number | null;
+    factCoverage: number | null;
+    errors: number;
+  };
+  cases: CaseResult[];
+}
+
+function getArg(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const GOLDEN_PATH = path.resolve(process.cwd(), getArg('golden', 'eval/golden.jsonl'));
+const RESULTS_PATH = path.resolve(process.cwd(), getArg('out', 'eval/results.json'));
+const K = parseInt(getArg('k', '5'), 10);
+
+function rowKey(sheet: string, row: number | undefined): string {
+  return `${sheet}:${row ?? '-'}`;
+}
+
+// Compare facts ignoring case and whitespace differences
+function normalizeFact(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function average(values: Array<number | null>): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? present.reduce((sum, v) => sum + v, 0) / present.length : null;
+}
+
+function formatMetric(value: number | null): string {
+  return value === null ? 'n/a' : value.toFixed(3);
+}
+
+function formatDelta(current: number | null, previous: number | null | undefined): string {
+  if (current === null || previous === null || previous === undefined) return '';
+  const delta = current - previous;
+  if (Math.abs(delta) < 0.0005) return ' (=)';
+  return ` (${delta > 0 ? '+' : ''}${delta.toFixed(3)})`;
+}
+
+function loadGoldenSet(filePath: string): GoldenCase[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Golden set not found: ${filePath}`);
+  }
+
+  return fs.readFileSync(filePath, 'utf-8')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !line.startsWith('//'))
+    .map((line, i) => {
+      try {
+        return JSON.parse(line) as GoldenCase;
+      } catch (error) {
+        throw new Error(`Invalid JSON on line ${i + 1} of ${filePath}`);
+      }
+    });
+}
+
+async function evaluateCase(goldenCase: GoldenCase, index: number): Promise<CaseResult> {
+  const id = goldenCase.id || `case-${index + 1}`;
+  const expectedRows = (goldenCase.expectedRows || []).map(r => rowKey(r.sheet, r.row));
+  const expectedFacts = goldenCase.expectedFacts || [];
+
+  try {
+    const result = await runRAG(goldenCase.question, goldenCase.conversationHistory || []);
+    // Sources come back in reranked order
+    const retrieved = (result.sources || []).map(source => rowKey(source.sheet, source.row));
+
+    let recallAtK: number | null = null;
+    let reciprocalRank: number | null = null;
+    if (expectedRows.length > 0) {
+      const topK = new Set(retrieved.slice(0, K));
+      recallAtK = expectedRows.filter(row => topK.has(row)).length / expectedRows.length;
+      const firstHit = retrieved.findIndex(row => expectedRows.includes(row));
+      reciprocalRank = firstHit === -1 ? 0 : 1 / (firstHit + 1);
+    }
+
+    const answer = normalizeFact(result.answer);
+    const missingFacts = expectedFacts.filter(fact => !answer.includes(normalizeFact(fact)));
+    const factCoverage = expectedFacts.length > 0
+      ? (expectedFacts.length - missingFacts.length) / expectedFacts.length
+      : null;
+
+    return {
+      id,
+      question: goldenCase.question,
+      answer: result.answer,
+      retrieved,
+      recallAtK,
+      reciprocalRank,
+      factCoverage,
+      missingFacts,
+    };
+  } catch (error) {
+    return {
+      id,
+      question: goldenCase.question,
+      answer: '',
+      retrieved: [],
+      recallAtK: expectedRows.length > 0 ? 0 : null,
+      reciprocalRank: expectedRows.length > 0 ? 0 : null,
+      factCoverage: expectedFacts.length > 0 ? 0 : null,
+      missingFacts: expectedFacts,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+function printDiff(current: EvalRun, previous: EvalRun) {
+  console.log(`\n🔁 Compared with previous run (${previous.runAt}):`);
+
+  const previousCases = new Map(previous.cases.map(c => [c.id, c]));
+  let changes = 0;
+
+  for (const result of current.cases) {
+    const before = previousCases.get(result.id);
+    if (!before) {
+      console.log(`   🆕 ${result.id}: new case`);
+      changes++;
+      continue;
+    }
+
+    const deltas = [
+      ['recall@k', result.recallAtK, before.recallAtK],
+      ['RR', result.reciprocalRank, before.reciprocalRank],
+      ['facts', result.factCoverage, before.factCoverage],
+    ] as const;
+
+    for (const [name, now, then] of deltas) {
+      if (now === null || then === null || Math.abs(now - then) < 0.0005) continue;
+      console.log(`   ${now > then ? '📈' : '📉'} ${result.id}: ${name} ${formatMetric(then)} → ${formatMetric(now)}`);
+      changes++;
+    }
+  }
+
+  for (const id of previousCases.keys()) {
+    if (!current.cases.some(c => c.id === id)) {
+      console.log(`   ➖ ${id}: removed from golden set`);
+      changes++;
+    }
+  }
+
+  if (changes === 0) {
+    console.log('   No per-case changes.');
+  }
+}
+
+async function evaluate() {
+  console.log('🧪 Starting evaluation...');
+  console.log(`📖 Golden set: ${GOLDEN_PATH}`);
+
+  const goldenSet = loadGoldenSet(GOLDEN_PATH);
+  console.log(`📊 ${goldenSet.length} case(s), k = ${K}`);
+
+  // Run sequentially to stay within provider rate limits
+  const cases: CaseResult[] = [];
+  for (let i = 0; i < goldenSet.length; i++) {
+    const result = await evaluateCase(goldenSet[i], i);
+    cases.push(result);
+
+    const status = result.error ? '❌' : '✅';
+    console.log(`\n${status} ${result.id}: ${result.question}`);
+    if (result.error) {
+      console.log(`   Error: ${result.error}`);
+      continue;
+    }
+    console.log(`   recall@${K}: ${formatMetric(result.recallAtK)} | RR: ${formatMetric(result.reciprocalRank)} | facts: ${formatMetric(result.factCoverage)}`);
+    if (result.missingFacts.length > 0) {
+      console.log(`   Missing facts: ${result.missingFacts.join(', ')}`);
+    }
+  }
+
+  const run: EvalRun = {
+    runAt: new Date().toISOString(),
+    goldenPath: path.relative(process.cwd(), GOLDEN_PATH),
+    k: K,
+    metrics: {
+      recallAtK: average(cases.map(c => c.recallAtK)),
+      mrr: average(cases.map(c => c.reciprocalRank)),
+      factCoverage: average(cases.map(c => c.factCoverage)),
+      errors: cases.filter(c => c.error).length,
+    },
+    cases,
+  };
+
+  const previous: EvalRun | null = fs.existsSync(RESULTS_PATH)
+    ? JSON.parse(fs.readFileSync(RESULTS_PATH, 'utf-8'))
+    : null;
+
+  console.log('\n📈 Summary:');
+  console.log(`   ${`recall@${K}:`.padEnd(16)}${formatMetric(run.metrics.recallAtK)}${formatDelta(run.metrics.recallAtK, previous?.metrics.recallAtK)}`);
+  console.log(`   ${'MRR:'.padEnd(16)}${formatMetric(run.metrics.mrr)}${formatDelta(run.metrics.mrr, previous?.metrics.mrr)}`);
+  console.log(`   ${'Fact coverage:'.padEnd(16)}${formatMetric(run.metrics.factCoverage)}${formatDelta(run.metrics.factCoverage, previous?.metrics.factCoverage)}`);
+  console.log(`   ${'Errors:'.padEnd(16)}${run.metrics.errors}`);
+
+  if (previous) {
+    printDiff(run, previous);
+  }
+
+  fs.mkdirSync(path.dirname(RESULTS_PATH), { recursive: true });
+  fs.writeFileSync(RESULTS_PATH, JSON.stringify(run, null, 2));
+  console.log(`\n💾 Saved results to ${RESULTS_PATH}`);
+}
+
+// Run evaluation
+evaluate().catch((error) => {
+  console.error('❌ Evaluation failed:', error);
+  process.exit(1);
+});
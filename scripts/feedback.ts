@@ -0,0 +1,95 @@
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FeedbackRecord, createFileFeedbackStore, getFeedbackStorePath } from '../src/feedback';
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage:
+  npm run feedback -- list [--since YYYY-MM-DD]
+  npm run feedback -- export [--since YYYY-MM-DD] [--out eval/feedback.jsonl]
+
+Reads the file written with FEEDBACK_STORE=file. "export" writes each
+thumbs-down answer as a golden-set case for npm run eval.`;
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function getSince(args: string[]): string | undefined {
+  const since = getArg(args, 'since');
+  if (since !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(since)) {
+    throw new Error(`Invalid date "${since}".\n${USAGE}`);
+  }
+  return since;
+}
+
+/**
+ * Golden-set case replaying the question. Expected rows and facts are left
+ * for the reviewer to fill in from the correction; `feedback` is ignored by
+ * the evaluator.
+ */
+function toEvalCase(record: FeedbackRecord) {
+  return {
+    id: `feedback-${record.id.slice(0, 8)}`,
+    question: record.query,
+    ...(record.history.length > 0 ? { conversationHistory: record.history } : {}),
+    expectedRows: [],
+    expectedFacts: [],
+    feedback: {
+      answer: record.answer,
+      ...(record.correction ? { correction: record.correction } : {}),
+      sources: record.sources.map(source => ({ sheet: source.sheet, row: source.row, label: source.label })),
+      traceId: record.traceId,
+      conversationId: record.conversationId,
+      createdAt: record.createdAt,
+    },
+  };
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (command !== 'list' && command !== 'export') {
+    console.log(USAGE);
+    process.exit(command && command !== '--help' ? 1 : 0);
+  }
+
+  const since = getSince(args);
+  const records = (await createFileFeedbackStore(getFeedbackStorePath()).list())
+    .filter(record => !since || record.updatedAt.slice(0, 10) >= since);
+
+  if (command === 'list') {
+    if (records.length === 0) {
+      console.log('No feedback recorded yet.');
+      return;
+    }
+    for (const record of records) {
+      console.log(`${record.rating === 'up' ? '👍' : '👎'} ${record.updatedAt}  ${record.query}`);
+      if (record.correction) console.log(`   Correction: ${record.correction}`);
+      console.log(`   Trace: ${record.traceId}, conversation: ${record.conversationId}`);
+    }
+    const negative = records.filter(record => record.rating === 'down').length;
+    console.log(`\n📊 ${records.length - negative} up, ${negative} down`);
+    return;
+  }
+
+  const negative = records.filter(record => record.rating === 'down').reverse();
+  if (negative.length === 0) {
+    console.log('No negative feedback to export.');
+    return;
+  }
+
+  const outPath = path.resolve(process.cwd(), getArg(args, 'out') || 'eval/feedback.jsonl');
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, negative.map(record => JSON.stringify(toEvalCase(record))).join('\n') + '\n');
+
+  console.log(`📝 Exported ${negative.length} case(s) to ${path.relative(process.cwd(), outPath)}`);
+  console.log('   Fill in expectedRows and expectedFacts, then run: npm run eval -- --golden <file>');
+}
+
+main().catch((error) => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
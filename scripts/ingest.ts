@@ -1,229 +1,102 @@
-import * as XLSX from 'xlsx';
-import { Pinecone } from '@pinecone-database/pinecone';
-import OpenAI from 'openai';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as dotenv from 'dotenv';
+import { getModelProvider, getRequiredEnvVars, getVectorStoreProvider } from '../src/config';
+import { SUPPORTED_EXTENSIONS, findDefaultSource, getDefaultSourcePaths, isSupportedFile, runIngest } from '../src/ingest';
 
 // Load environment variables
 dotenv.config();
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const PINECONE_API_KEY = process.env.PINECONE_API_KEY;
-const PINECONE_INDEX = process.env.PINECONE_INDEX;
-const PINECONE_ENVIRONMENT = process.env.PINECONE_ENVIRONMENT || 'us-east-1';
-
-if (!OPENAI_API_KEY || !PINECONE_API_KEY || !PINECONE_INDEX) {
-  throw new Error('Missing required environment variables: OPENAI_API_KEY, PINECONE_API_KEY, PINECONE_INDEX');
-}
-
-const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-
-// Initialize Pinecone
-const pinecone = new Pinecone({
-  apiKey: PINECONE_API_KEY,
-});
-
-// Token estimation (rough: 1 token ≈ 4 characters)
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+const missingVars = getRequiredEnvVars().filter(name => !process.env[name]);
+if (missingVars.length > 0) {
+  throw new Error(`Missing required environment variables: ${missingVars.join(', ')}`);
 }
 
-// Chunk text into 500-900 token chunks
-function chunkText(text: string, maxTokens: number = 800): string[] {
-  const chunks: string[] = [];
-  const sentences = text.split(/(?<=[.!?])\s+/);
-  let currentChunk = '';
+// --dry-run: print the add/update/delete summary without writing anything
+// --full: re-embed every chunk instead of only changed ones
+const DRY_RUN = process.argv.includes('--dry-run');
+const FULL = process.argv.includes('--full');
 
-  for (const sentence of sentences) {
-    const sentenceTokens = estimateTokens(sentence);
-    const currentTokens = estimateTokens(currentChunk);
-
-    if (currentTokens + sentenceTokens > maxTokens && currentChunk) {
-      chunks.push(currentChunk.trim());
-      currentChunk = sentence;
-    } else {
-      currentChunk += (currentChunk ? ' ' : '') + sentence;
+function walkFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return entry.name === 'node_modules' || entry.name.startsWith('.') ? [] : walkFiles(fullPath);
     }
-  }
-
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim());
-  }
-
-  return chunks.filter(chunk => chunk.length > 0);
+    return [fullPath];
+  });
 }
 
-// Clean and normalize text
-function cleanText(text: string): string {
-  return text
-    .replace(/\s+/g, ' ') // Normalize spaces
-    .replace(/\n+/g, ' ') // Replace newlines with spaces
-    .trim();
+// Supports *, ** and ? - enough for "docs/**/*.md" style patterns
+function globToRegExp(pattern: string): RegExp {
+  const regex = pattern
+    .split('/')
+    .map(segment => segment === '**'
+      ? '(?:.*/)?'
+      : segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]') + '/')
+    .join('')
+    .replace(/\/$/, '');
+  return new RegExp(`^${regex}$`);
 }
 
-// Convert Excel sheet to clean text chunks
-function processSheet(workbook: XLSX.WorkBook, sheetName: string): Array<{ text: string; metadata: any }> {
-  const worksheet = workbook.Sheets[sheetName];
-  if (!worksheet) return [];
-
-  // Convert to JSON with header row
-  const jsonData: any[] = XLSX.utils.sheet_to_json(worksheet, { defval: '' });
-  
-  const chunks: Array<{ text: string; metadata: any }> = [];
-  
-  // Process each row
-  for (let i = 0; i < jsonData.length; i++) {
-    const row = jsonData[i];
-    
-    // Filter out empty rows
-    const hasData = Object.values(row).some((val: any) => 
-      val !== null && val !== undefined && String(val).trim() !== ''
-    );
-    
-    if (!hasData) continue;
-
-    // Convert row to structured text
-    const rowText = Object.entries(row)
-      .map(([key, value]) => {
-        const val = String(value || '').trim();
-        return val ? `${key}: ${val}` : '';
-      })
-      .filter(Boolean)
-      .join(' | ');
-
-    if (rowText) {
-      const cleanedText = cleanText(rowText);
-      chunks.push({
-        text: cleanedText,
-        metadata: {
-          sheet: sheetName,
-          row: i + 2, // +2 because Excel is 1-indexed and we have headers
-          rowIndex: i,
-        }
-      });
-    }
-  }
-
-  // Also create larger chunks for better context
-  const allText = chunks.map(c => c.text).join(' | ');
-  const largeChunks = chunkText(allText, 800);
-  
-  // Return both row-level and chunk-level data
-  const result: Array<{ text: string; metadata: any }> = [];
-  
-  // Add row-level chunks
-  for (const chunk of chunks) {
-    if (estimateTokens(chunk.text) >= 50) { // Only include substantial rows
-      result.push(chunk);
-    }
-  }
-  
-  // Add larger context chunks
-  for (let i = 0; i < largeChunks.length; i++) {
-    result.push({
-      text: largeChunks[i],
-      metadata: {
-        sheet: sheetName,
-        chunkIndex: i,
-        type: 'context_chunk',
+/**
+ * Expand CLI inputs (files, directories or globs) into supported source files
+ */
+function resolveInputs(inputs: string[]): string[] {
+  const files: string[] = [];
+
+  for (const input of inputs) {
+    const fullPath = path.resolve(process.cwd(), input);
+
+    if (/[*?]/.test(input)) {
+      // Walk from the part of the pattern before the first wildcard
+      const base = input.split('/').findIndex(segment => /[*?]/.test(segment));
+      const baseDir = path.resolve(process.cwd(), input.split('/').slice(0, base).join('/') || '.');
+      const matcher = globToRegExp(path.resolve(process.cwd(), input).split(path.sep).join('/'));
+      if (fs.existsSync(baseDir)) {
+        files.push(...walkFiles(baseDir).filter(file => matcher.test(file.split(path.sep).join('/'))));
       }
-    });
+    } else if (fs.existsSync(fullPath) && fs.statSync(fullPath).isDirectory()) {
+      files.push(...walkFiles(fullPath));
+    } else if (fs.existsSync(fullPath)) {
+      files.push(fullPath);
+    } else {
+      console.warn(`⚠️  Input not found: ${input}`);
+    }
   }
 
-  return result;
-}
-
-async function generateEmbedding(text: string): Promise<number[]> {
-  const response = await openai.embeddings.create({
-    model: 'text-embedding-3-large',
-    input: text,
-    dimensions: 1024, // Match your Pinecone index dimensions
-  });
-
-  return response.data[0].embedding;
+  return Array.from(new Set(files))
+    .filter(isSupportedFile)
+    .sort();
 }
 
 async function ingest() {
   console.log('🚀 Starting ingestion process...');
 
-  // Read XLSX file - try multiple possible locations
-  const possiblePaths = [
-    path.join(process.cwd(), 'Products Data.xlsx'),
-    path.join(process.cwd(), 'data', 'knowledge.xlsx'),
-    path.join(process.cwd(), 'knowledge.xlsx'),
-  ];
-  
-  let xlsxPath: string | null = null;
-  for (const p of possiblePaths) {
-    if (fs.existsSync(p)) {
-      xlsxPath = p;
-      break;
-    }
-  }
-  
-  if (!xlsxPath) {
-    throw new Error(`XLSX file not found. Tried: ${possiblePaths.join(', ')}`);
-  }
-
-  console.log(`📖 Reading XLSX file: ${xlsxPath}`);
-  const workbook = XLSX.readFile(xlsxPath);
-  const sheetNames = workbook.SheetNames;
+  // Sources from the command line (files, directories or globs);
+  // otherwise the default XLSX file - try multiple possible locations
+  const inputs = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+  let files: string[];
 
-  console.log(`📊 Found ${sheetNames.length} sheet(s): ${sheetNames.join(', ')}`);
-
-  // Process all sheets
-  const allChunks: Array<{ text: string; metadata: any }> = [];
-  
-  for (const sheetName of sheetNames) {
-    console.log(`\n📄 Processing sheet: ${sheetName}`);
-    const chunks = processSheet(workbook, sheetName);
-    allChunks.push(...chunks);
-    console.log(`   Generated ${chunks.length} chunks`);
-  }
-
-  console.log(`\n📦 Total chunks to process: ${allChunks.length}`);
-
-  // Get Pinecone index
-  if (!PINECONE_INDEX) {
-    throw new Error('PINECONE_INDEX environment variable is not set');
-  }
-  const index = pinecone.index(PINECONE_INDEX);
-
-  // Process chunks in batches
-  const batchSize = 100;
-  let processed = 0;
-
-  for (let i = 0; i < allChunks.length; i += batchSize) {
-    const batch = allChunks.slice(i, i + batchSize);
-    console.log(`\n🔄 Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(allChunks.length / batchSize)}`);
-
-    const vectors = await Promise.all(
-      batch.map(async (chunk, idx) => {
-        const embedding = await generateEmbedding(chunk.text);
-        return {
-          id: `${chunk.metadata.sheet}_${chunk.metadata.type || 'row'}_${chunk.metadata.rowIndex || chunk.metadata.chunkIndex || idx}_${i + idx}`,
-          values: embedding,
-          metadata: {
-            text: chunk.text,
-            ...chunk.metadata,
-          },
-        };
-      })
-    );
-
-    await index.upsert(vectors);
-    processed += batch.length;
-    console.log(`   ✅ Upserted ${batch.length} vectors (${processed}/${allChunks.length} total)`);
-    
-    // Rate limiting - small delay between batches
-    if (i + batchSize < allChunks.length) {
-      await new Promise(resolve => setTimeout(resolve, 1000));
+  if (inputs.length > 0) {
+    files = resolveInputs(inputs);
+    if (files.length === 0) {
+      throw new Error(`No supported files found in: ${inputs.join(', ')} (supported: ${SUPPORTED_EXTENSIONS.join(', ')})`);
+    }
+  } else {
+    const xlsxPath = findDefaultSource();
+    if (!xlsxPath) {
+      throw new Error(`XLSX file not found. Tried: ${getDefaultSourcePaths().join(', ')}`);
     }
+    files = [xlsxPath];
   }
 
-  console.log(`\n✨ Ingestion complete! Processed ${processed} chunks.`);
-  console.log(`📊 Index: ${PINECONE_INDEX}`);
+  const { diff } = await runIngest(files, { dryRun: DRY_RUN, full: FULL, log: message => console.log(message) });
+  if (DRY_RUN) return;
+
+  console.log(`\n✨ Ingestion complete! Embedded ${diff.add.length + diff.update.length} chunks.`);
+  console.log(`📊 Vector store: ${getVectorStoreProvider()}${getVectorStoreProvider() === 'pinecone' ? ` (${process.env.PINECONE_INDEX})` : ''}`);
+  console.log(`🧠 Model provider: ${getModelProvider()}`);
 }
 
 // Run ingestion
@@ -231,4 +104,3 @@ ingest().catch((error) => {
   console.error('❌ Ingestion failed:', error);
   process.exit(1);
 });
-
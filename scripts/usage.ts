@@ -0,0 +1,52 @@
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+import { createFileUsageStore } from '../src/usage';
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage:
+  npm run usage -- [YYYY-MM-DD] [--sessions]
+
+Shows each API key's model spend for the day (default today, UTC).
+Reads the file written with USAGE_STORE=file.`;
+
+function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(4)}`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const date = args.find(arg => !arg.startsWith('--'));
+  if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error(`Invalid date "${date}".\n${USAGE}`);
+  }
+
+  const store = createFileUsageStore(path.resolve(process.cwd(), process.env.USAGE_STORE_PATH || 'data/usage.json'));
+  const prefix = args.includes('--sessions') ? 'session:' : 'key:';
+  const entries = (await store.list(date)).filter(entry => entry.subject.startsWith(prefix));
+  const day = date || new Date().toISOString().slice(0, 10);
+
+  if (entries.length === 0) {
+    console.log(`No usage recorded for ${day}.`);
+    return;
+  }
+
+  console.log(`📊 Usage for ${day}\n`);
+  for (const entry of entries) {
+    console.log(`${entry.subject.slice(prefix.length)}  ${formatCost(entry.costUsd)}`);
+    console.log(`   Requests: ${entry.requests}, tokens: ${entry.inputTokens} in / ${entry.outputTokens} out`);
+  }
+  const total = entries.reduce((sum, entry) => sum + entry.costUsd, 0);
+  console.log(`\n💰 Total: ${formatCost(total)}`);
+}
+
+main().catch((error) => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,280 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getAnalyticsStoreProvider } from './config';
+import type { FeedbackRecord } from './feedback';
+import { logger } from './logger';
+import type { IngestRun } from './manifest';
+
+export type AskOutcome = 'answered' | 'no_answer' | 'error';
+
+/** One question answered (or not) by the ask route */
+export interface AskEvent {
+  /** ISO timestamp of when the answer finished */
+  time: string;
+  traceId?: string;
+  conversationId: string;
+  apiKeyId?: string;
+  query: string;
+  /** "no_answer" when runRAG fell back to NO_ANSWER_MESSAGE */
+  outcome: AskOutcome;
+  latencyMs: number;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AnalyticsStore {
+  add(event: AskEvent): Promise<void>;
+  /** Events at or after `since` (ISO timestamp), oldest first */
+  list(since: string): Promise<AskEvent[]>;
+}
+
+/** Totals for one UTC day */
+export interface DailyAnalytics {
+  /** YYYY-MM-DD, UTC */
+  date: string;
+  requests: number;
+  noAnswer: number;
+  errors: number;
+  /** Share of answered-or-not requests that got the fallback answer, 0-1 */
+  noAnswerRate: number;
+  avgLatencyMs: number;
+  costUsd: number;
+  avgCostUsd: number;
+  feedbackUp: number;
+  feedbackDown: number;
+}
+
+export interface TopQuery {
+  /** Normalized question text */
+  query: string;
+  count: number;
+  noAnswer: number;
+  lastAskedAt: string;
+}
+
+export interface AnalyticsSummary {
+  days: number;
+  from: string;
+  to: string;
+  totals: {
+    requests: number;
+    noAnswerRate: number;
+    avgLatencyMs: number;
+    costUsd: number;
+    feedbackUp: number;
+    feedbackDown: number;
+    /** Share of thumbs-up among rated answers, or null when nothing was rated */
+    positiveRate: number | null;
+  };
+  /** Oldest first, one row per day in the range even when it had no traffic */
+  daily: DailyAnalytics[];
+  topQueries: TopQuery[];
+  indexVersion: string;
+  /** Most recent first */
+  ingestions: IngestRun[];
+}
+
+// Memory stores keep the most recent events only
+const MAX_MEMORY_EVENTS = 10000;
+const TOP_QUERY_LIMIT = 10;
+const INGESTION_LIMIT = 20;
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Collapse case, whitespace and trailing punctuation so repeats of a question count together
+ */
+export function normalizeQuery(query: string): string {
+  return query.toLowerCase().replace(/\s+/g, ' ').replace(/[\s?!.]+$/, '').trim();
+}
+
+/**
+ * Events kept in process memory; each serverless instance counts separately
+ */
+export function createMemoryAnalyticsStore(): AnalyticsStore {
+  const events: AskEvent[] = [];
+
+  return {
+    async add(event) {
+      events.push({ ...event });
+      if (events.length > MAX_MEMORY_EVENTS) events.splice(0, events.length - MAX_MEMORY_EVENTS);
+    },
+
+    async list(since) {
+      return events.filter(event => event.time >= since).map(event => ({ ...event }));
+    },
+  };
+}
+
+/**
+ * Events appended to a JSON Lines file, for a single long-running server.
+ * Appending keeps writes cheap; rotate the file externally if it grows too large.
+ */
+export function createFileAnalyticsStore(filePath: string): AnalyticsStore {
+  return {
+    async add(event) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.appendFileSync(filePath, JSON.stringify(event) + '\n');
+    },
+
+    async list(since) {
+      if (!fs.existsSync(filePath)) return [];
+      return fs.readFileSync(filePath, 'utf-8')
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as AskEvent)
+        .filter(event => event.time >= since);
+    },
+  };
+}
+
+export function getAnalyticsStorePath(): string {
+  return path.resolve(process.cwd(), process.env.ANALYTICS_STORE_PATH || 'data/analytics.jsonl');
+}
+
+let sharedAnalyticsStore: AnalyticsStore | null = null;
+
+/**
+ * Analytics store for the provider selected by ANALYTICS_STORE, or null when analytics are off
+ */
+export function getAnalyticsStore(): AnalyticsStore | null {
+  const provider = getAnalyticsStoreProvider();
+  if (provider === 'none') return null;
+
+  sharedAnalyticsStore = sharedAnalyticsStore || (provider === 'file'
+    ? createFileAnalyticsStore(getAnalyticsStorePath())
+    : createMemoryAnalyticsStore());
+  return sharedAnalyticsStore;
+}
+
+/**
+ * Record one ask request. Failures are logged, not thrown: analytics must
+ * never cost the user their answer.
+ */
+export async function recordAskEvent(event: AskEvent): Promise<void> {
+  try {
+    await getAnalyticsStore()?.add(event);
+  } catch (error) {
+    logger.warn('Could not record ask analytics', {
+      conversationId: event.conversationId,
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+}
+
+/**
+ * First moment of the oldest day in a `days`-day window ending today (UTC)
+ */
+export function getWindowStart(days: number, now: Date = new Date()): string {
+  const start = new Date(now);
+  start.setUTCHours(0, 0, 0, 0);
+  start.setUTCDate(start.getUTCDate() - (days - 1));
+  return start.toISOString();
+}
+
+function emptyDay(date: string): DailyAnalytics {
+  return {
+    date,
+    requests: 0,
+    noAnswer: 0,
+    errors: 0,
+    noAnswerRate: 0,
+    avgLatencyMs: 0,
+    costUsd: 0,
+    avgCostUsd: 0,
+    feedbackUp: 0,
+    feedbackDown: 0,
+  };
+}
+
+/**
+ * Aggregate ask events and feedback from the last `days` days into the admin
+ * dashboard's daily rows, totals and top queries
+ */
+export function summarizeAnalytics(
+  events: AskEvent[],
+  feedback: FeedbackRecord[],
+  ingestions: IngestRun[],
+  indexVersion: string,
+  days: number,
+  now: Date = new Date()
+): AnalyticsSummary {
+  const from = getWindowStart(days, now);
+  const daily = new Map<string, DailyAnalytics>();
+  for (let offset = 0; offset < days; offset++) {
+    const date = new Date(Date.parse(from) + offset * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    daily.set(date, emptyDay(date));
+  }
+
+  const latency = new Map<string, number>();
+  const queries = new Map<string, TopQuery>();
+  for (const event of events) {
+    const day = daily.get(event.time.slice(0, 10));
+    if (!day) continue;
+    day.requests += 1;
+    day.costUsd += event.costUsd;
+    if (event.outcome === 'no_answer') day.noAnswer += 1;
+    if (event.outcome === 'error') day.errors += 1;
+    latency.set(day.date, (latency.get(day.date) || 0) + event.latencyMs);
+
+    const query = normalizeQuery(event.query);
+    const top = queries.get(query) || { query, count: 0, noAnswer: 0, lastAskedAt: event.time };
+    top.count += 1;
+    if (event.outcome === 'no_answer') top.noAnswer += 1;
+    if (event.time > top.lastAskedAt) top.lastAskedAt = event.time;
+    queries.set(query, top);
+  }
+
+  for (const record of feedback) {
+    const day = daily.get(record.updatedAt.slice(0, 10));
+    if (!day) continue;
+    if (record.rating === 'up') {
+      day.feedbackUp += 1;
+    } else {
+      day.feedbackDown += 1;
+    }
+  }
+
+  // Errors never reach the fallback, so they are left out of the no-answer rate
+  const rows = Array.from(daily.values()).map(day => {
+    const completed = day.requests - day.errors;
+    return {
+      ...day,
+      noAnswerRate: completed > 0 ? round(day.noAnswer / completed, 4) : 0,
+      avgLatencyMs: day.requests > 0 ? Math.round((latency.get(day.date) || 0) / day.requests) : 0,
+      costUsd: round(day.costUsd, 6),
+      avgCostUsd: day.requests > 0 ? round(day.costUsd / day.requests, 6) : 0,
+    };
+  });
+
+  const sum = (pick: (day: DailyAnalytics) => number) => rows.reduce((total, day) => total + pick(day), 0);
+  const requests = sum(day => day.requests);
+  const completed = requests - sum(day => day.errors);
+  const feedbackUp = sum(day => day.feedbackUp);
+  const feedbackDown = sum(day => day.feedbackDown);
+
+  return {
+    days,
+    from,
+    to: now.toISOString(),
+    totals: {
+      requests,
+      noAnswerRate: completed > 0 ? round(sum(day => day.noAnswer) / completed, 4) : 0,
+      avgLatencyMs: requests > 0 ? Math.round(Array.from(latency.values()).reduce((a, b) => a + b, 0) / requests) : 0,
+      costUsd: round(sum(day => day.costUsd), 6),
+      feedbackUp,
+      feedbackDown,
+      positiveRate: feedbackUp + feedbackDown > 0 ? round(feedbackUp / (feedbackUp + feedbackDown), 4) : null,
+    },
+    daily: rows,
+    topQueries: Array.from(queries.values())
+      .sort((a, b) => b.count - a.count || b.lastAskedAt.localeCompare(a.lastAskedAt))
+      .slice(0, TOP_QUERY_LIMIT),
+    indexVersion,
+    ingestions: ingestions.slice(0, INGESTION_LIMIT),
+  };
+}
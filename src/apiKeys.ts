@@ -0,0 +1,260 @@
+import { createHash, randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getCorsAllowedOrigins, isApiKeyRequired, isDebugWithoutKeyAllowed } from './config';
+import { logger } from './logger';
+import { GuardRejection, HeaderGetter, createRejection } from './rateLimit';
+
+export interface ApiKeyRecord {
+  id: string;
+  /** Who the key was issued to, e.g. a partner site */
+  name: string;
+  /** SHA-256 of the key; the key itself is only shown once, when issued */
+  hash: string;
+  /** First characters of the key, to recognise it in listings */
+  prefix: string;
+  /** Origins allowed to call the API with this key; "*" allows any */
+  allowedOrigins: string[];
+  /** May request `debug` output, which exposes retrieval scores and prompts */
+  debug?: boolean;
+  /** May use the /api/admin routes: analytics and knowledge base management */
+  admin?: boolean;
+  createdAt: string;
+  revokedAt?: string;
+  usage: {
+    requests: number;
+    lastUsedAt?: string;
+  };
+}
+
+export interface ApiKeyStore {
+  list(): Promise<ApiKeyRecord[]>;
+  findByHash(hash: string): Promise<ApiKeyRecord | null>;
+  save(record: ApiKeyRecord): Promise<void>;
+  /** Count one answered request against the key */
+  recordUsage(id: string): Promise<void>;
+}
+
+export interface Authentication {
+  /** Key the request was made with, or null for anonymous requests */
+  apiKey: ApiKeyRecord | null;
+  rejection: GuardRejection | null;
+  /** CORS headers for the key's origins, or CORS_ALLOWED_ORIGINS when anonymous */
+  corsHeaders: Record<string, string>;
+}
+
+const KEY_PREFIX = 'nick_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * API keys kept in a JSON file. The file is re-read when it changes on disk,
+ * so keys issued or revoked from the CLI apply without a restart.
+ */
+export function createFileApiKeyStore(filePath: string): ApiKeyStore {
+  let cached: { mtimeMs: number; records: ApiKeyRecord[] } | null = null;
+
+  const load = (): ApiKeyRecord[] => {
+    if (!fs.existsSync(filePath)) return [];
+    const { mtimeMs } = fs.statSync(filePath);
+    if (!cached || cached.mtimeMs !== mtimeMs) {
+      cached = { mtimeMs, records: JSON.parse(fs.readFileSync(filePath, 'utf-8')) };
+    }
+    return cached.records;
+  };
+
+  const write = (records: ApiKeyRecord[]) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(records, null, 2));
+  };
+
+  return {
+    async list() {
+      return load();
+    },
+
+    async findByHash(hash) {
+      return load().find(record => record.hash === hash) || null;
+    },
+
+    async save(record) {
+      const others = load().filter(existing => existing.id !== record.id);
+      write([...others, record]);
+    },
+
+    async recordUsage(id) {
+      const records = load();
+      const record = records.find(existing => existing.id === id);
+      if (!record) return;
+      record.usage = { requests: record.usage.requests + 1, lastUsedAt: new Date().toISOString() };
+      try {
+        write(records);
+      } catch (error) {
+        // Read-only deployments (e.g. Vercel) can still authenticate, just not count
+        logger.warn('Could not record API key usage', { apiKeyId: id, error: error instanceof Error ? error.message : error });
+      }
+    },
+  };
+}
+
+/**
+ * Key store at API_KEYS_PATH (default data/api-keys.json)
+ */
+export function getApiKeyStore(): ApiKeyStore {
+  return createFileApiKeyStore(path.resolve(process.cwd(), process.env.API_KEYS_PATH || 'data/api-keys.json'));
+}
+
+/**
+ * Issue a new key. Only its hash is stored, so the returned key must be handed
+ * over now; it cannot be shown again.
+ */
+export async function issueApiKey(
+  name: string,
+  allowedOrigins: string[],
+  options: { debug?: boolean; admin?: boolean } = {},
+  store: ApiKeyStore = getApiKeyStore()
+): Promise<{ key: string; record: ApiKeyRecord }> {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const record: ApiKeyRecord = {
+    id: `key_${randomBytes(6).toString('hex')}`,
+    name,
+    hash: hashApiKey(key),
+    prefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+    allowedOrigins,
+    ...(options.debug ? { debug: true } : {}),
+    ...(options.admin ? { admin: true } : {}),
+    createdAt: new Date().toISOString(),
+    usage: { requests: 0 },
+  };
+  await store.save(record);
+  return { key, record };
+}
+
+/**
+ * Whether a request may ask for `debug` output: keys need debug access, and
+ * anonymous requests are only allowed when ALLOW_DEBUG_WITHOUT_KEY is on
+ */
+export function isDebugAllowed(apiKey: ApiKeyRecord | null): boolean {
+  return apiKey ? apiKey.debug === true : isDebugWithoutKeyAllowed();
+}
+
+/**
+ * Authenticate a request to an /api/admin route. These always need a key with
+ * admin access, whatever REQUIRE_API_KEY says.
+ */
+export async function authenticateAdminRequest(
+  getHeader: HeaderGetter,
+  methods: string,
+  store: ApiKeyStore = getApiKeyStore()
+): Promise<Authentication> {
+  const authentication = await authenticateRequest(getHeader, methods, store);
+  if (authentication.rejection) return authentication;
+  if (!authentication.apiKey) {
+    return {
+      ...authentication,
+      rejection: createRejection('unauthorized', 'An admin API key is required. Send it as "Authorization: Bearer <key>".', {
+        'WWW-Authenticate': 'Bearer',
+      }),
+    };
+  }
+  if (!authentication.apiKey.admin) {
+    return { ...authentication, rejection: createRejection('forbidden', 'This API key does not have admin access.') };
+  }
+  return authentication;
+}
+
+/**
+ * Revoke a key by ID; returns false when no active key has that ID
+ */
+export async function revokeApiKey(id: string, store: ApiKeyStore = getApiKeyStore()): Promise<boolean> {
+  const record = (await store.list()).find(existing => existing.id === id);
+  if (!record || record.revokedAt) return false;
+  await store.save({ ...record, revokedAt: new Date().toISOString() });
+  return true;
+}
+
+/**
+ * Key from an "Authorization: Bearer <key>" header
+ */
+export function getBearerToken(getHeader: HeaderGetter): string | null {
+  const match = getHeader('authorization')?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+export function isOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+  return allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+}
+
+/**
+ * Resolve the API key a request was made with. An unknown or revoked key is
+ * always rejected; a missing key only when REQUIRE_API_KEY is set. Browser
+ * requests with a key must come from one of the key's allowed origins.
+ */
+export async function authenticateRequest(
+  getHeader: HeaderGetter,
+  methods: string,
+  store: ApiKeyStore = getApiKeyStore()
+): Promise<Authentication> {
+  const origin = getHeader('origin');
+  const anonymous = (rejection: GuardRejection | null): Authentication => ({
+    apiKey: null,
+    rejection,
+    corsHeaders: getCorsHeaders(origin, getCorsAllowedOrigins(), methods),
+  });
+
+  const token = getBearerToken(getHeader);
+  if (!token) {
+    return anonymous(isApiKeyRequired()
+      ? createRejection('unauthorized', 'An API key is required. Send it as "Authorization: Bearer <key>".', {
+        'WWW-Authenticate': 'Bearer',
+      })
+      : null);
+  }
+
+  const apiKey = await store.findByHash(hashApiKey(token));
+  if (!apiKey || apiKey.revokedAt) {
+    return anonymous(createRejection('unauthorized', 'Invalid or revoked API key.', {
+      'WWW-Authenticate': 'Bearer error="invalid_token"',
+    }));
+  }
+  if (origin && !isOriginAllowed(origin, apiKey.allowedOrigins)) {
+    return anonymous(createRejection('forbidden', `Origin ${origin} is not allowed for this API key.`));
+  }
+
+  return { apiKey, rejection: null, corsHeaders: getCorsHeaders(origin, apiKey.allowedOrigins, methods) };
+}
+
+/**
+ * Origins a CORS preflight may be granted for: the anonymous allow-list plus
+ * every active key's origins, since preflights are sent without credentials
+ */
+export async function getPreflightOrigins(store: ApiKeyStore = getApiKeyStore()): Promise<string[]> {
+  const keyOrigins = (await store.list())
+    .filter(record => !record.revokedAt)
+    .flatMap(record => record.allowedOrigins);
+  return [...getCorsAllowedOrigins(), ...keyOrigins];
+}
+
+/**
+ * CORS headers for a response. The request origin is echoed back only when it
+ * is allowed; otherwise no Allow-Origin header is sent and browsers block it.
+ */
+export function getCorsHeaders(
+  origin: string | null | undefined,
+  allowedOrigins: string[],
+  methods: string
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Methods': methods,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, traceparent',
+    'Access-Control-Expose-Headers': 'Retry-After, X-Trace-Id',
+    'Vary': 'Origin',
+  };
+  if (origin && isOriginAllowed(origin, allowedOrigins)) {
+    headers['Access-Control-Allow-Origin'] = origin;
+  }
+  return headers;
+}
@@ -0,0 +1,388 @@
+import type { AnalyticsSummary } from './analytics';
+import { getRequestLimits } from './config';
+import type { IngestJob, KnowledgeBaseStatus, UploadPreview } from './knowledgeBase';
+import type { RAGDebug, RAGSource } from './rag';
+import { isValidConversationId } from './sessions';
+import type { RequestUsage } from './usage';
+
+/**
+ * Version of the /api/ask request and response schema. Clients may send it as
+ * `version`; every response carries it.
+ */
+export const API_VERSION = 1;
+
+export interface AskHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AskRequest {
+  version?: typeof API_VERSION;
+  query: string;
+  /** Continue a stored conversation; omit to start a new one */
+  conversationId?: string;
+  /** Seeds a new conversation for clients that keep their own history */
+  conversationHistory?: AskHistoryMessage[];
+  includeSources?: boolean;
+  debug?: boolean;
+}
+
+export interface AskResponse {
+  version: typeof API_VERSION;
+  answer: string;
+  conversationId: string;
+  /** Only with `includeSources` */
+  sources?: RAGSource[];
+  /** Only with `debug` */
+  debug?: AskDebug;
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+export interface FeedbackRequest {
+  version?: typeof API_VERSION;
+  conversationId: string;
+  /** `X-Trace-Id` of the response that carried the rated answer */
+  traceId: string;
+  rating: FeedbackRating;
+  /** What the answer should have said */
+  correction?: string;
+}
+
+export interface FeedbackResponse {
+  version: typeof API_VERSION;
+  id: string;
+  rating: FeedbackRating;
+}
+
+/** GET /api/admin/analytics */
+export interface AdminAnalyticsResponse extends AnalyticsSummary {
+  version: typeof API_VERSION;
+}
+
+/** GET /api/admin/knowledge-base */
+export interface KnowledgeBaseStatusResponse extends KnowledgeBaseStatus {
+  version: typeof API_VERSION;
+}
+
+/** POST /api/admin/knowledge-base/uploads */
+export interface UploadPreviewResponse extends UploadPreview {
+  version: typeof API_VERSION;
+}
+
+/**
+ * POST /api/admin/knowledge-base/jobs: re-index from a previewed upload, or
+ * roll back to an earlier index version
+ */
+export type IngestJobRequest =
+  | { version?: typeof API_VERSION; uploadId: string; acceptSchemaChanges?: boolean }
+  | { version?: typeof API_VERSION; rollbackTo: string };
+
+export interface IngestJobResponse {
+  version: typeof API_VERSION;
+  job: IngestJob;
+}
+
+/**
+ * Pipeline details plus what answering cost. Greetings and other answers that
+ * skip the pipeline only carry `usage`.
+ */
+export type AskDebug = Partial<RAGDebug> & {
+  usage: RequestUsage;
+};
+
+export type ApiErrorCode =
+  | 'invalid_json'
+  | 'invalid_request'
+  | 'unsupported_version'
+  | 'query_too_long'
+  | 'history_too_long'
+  | 'payload_too_large'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'conflict'
+  | 'rate_limited'
+  | 'spend_limit_exceeded'
+  | 'content_blocked'
+  | 'configuration_error'
+  | 'internal_error'
+  | 'vector_store_unavailable'
+  | 'upstream_timeout';
+
+/** One problem with a request field, e.g. `conversationHistory[2].role` */
+export interface ApiValidationIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * Error body shared by every API route. `error` is a short title kept for
+ * older clients; branch on `code` instead. Never carries stack traces or raw
+ * upstream messages.
+ */
+export interface ApiErrorResponse {
+  version: typeof API_VERSION;
+  code: ApiErrorCode;
+  error: string;
+  message: string;
+  /** Field-level problems, for `invalid_request` */
+  details?: ApiValidationIssue[];
+}
+
+const ERRORS: Record<ApiErrorCode, { status: number; title: string }> = {
+  invalid_json: { status: 400, title: 'Invalid JSON' },
+  invalid_request: { status: 400, title: 'Invalid request' },
+  unsupported_version: { status: 400, title: 'Unsupported version' },
+  query_too_long: { status: 400, title: 'Query too long' },
+  history_too_long: { status: 400, title: 'History too long' },
+  payload_too_large: { status: 413, title: 'Payload too large' },
+  unauthorized: { status: 401, title: 'Unauthorized' },
+  forbidden: { status: 403, title: 'Forbidden' },
+  not_found: { status: 404, title: 'Not found' },
+  method_not_allowed: { status: 405, title: 'Method not allowed' },
+  conflict: { status: 409, title: 'Conflict' },
+  content_blocked: { status: 422, title: 'Content blocked' },
+  rate_limited: { status: 429, title: 'Too many requests' },
+  spend_limit_exceeded: { status: 429, title: 'Spend limit exceeded' },
+  configuration_error: { status: 500, title: 'Configuration error' },
+  internal_error: { status: 500, title: 'Internal server error' },
+  vector_store_unavailable: { status: 503, title: 'Service unavailable' },
+  upstream_timeout: { status: 504, title: 'Upstream timeout' },
+};
+
+const ASK_REQUEST_FIELDS = ['version', 'query', 'conversationId', 'conversationHistory', 'includeSources', 'debug'];
+const FEEDBACK_REQUEST_FIELDS = ['version', 'conversationId', 'traceId', 'rating', 'correction'];
+const FEEDBACK_RATINGS: FeedbackRating[] = ['up', 'down'];
+const TRACE_ID_PATTERN = /^[0-9a-f]{32}$/;
+const MAX_CORRECTION_LENGTH = 2000;
+const INGEST_JOB_REQUEST_FIELDS = ['version', 'uploadId', 'acceptSchemaChanges', 'rollbackTo'];
+const UPLOAD_ID_PATTERN = /^[0-9a-f-]{36}$/;
+const INDEX_VERSION_PATTERN = /^[0-9a-f]{16}$/;
+
+/**
+ * HTTP status and body for an error code
+ */
+export function createApiError(
+  code: ApiErrorCode,
+  message: string,
+  details?: ApiValidationIssue[]
+): { status: number; body: ApiErrorResponse } {
+  const { status, title } = ERRORS[code];
+  return { status, body: { version: API_VERSION, code, error: title, message, ...(details ? { details } : {}) } };
+}
+
+export interface AskRequestError {
+  code: ApiErrorCode;
+  message: string;
+  details?: ApiValidationIssue[];
+}
+
+function checkHistory(value: unknown, issues: ApiValidationIssue[]): AskHistoryMessage[] | AskRequestError {
+  const { maxHistoryMessages, maxHistoryMessageLength } = getRequestLimits();
+  if (!Array.isArray(value)) {
+    issues.push({ field: 'conversationHistory', message: 'must be an array' });
+    return [];
+  }
+  if (value.length > maxHistoryMessages) {
+    return { code: 'history_too_long', message: `"conversationHistory" must have at most ${maxHistoryMessages} messages.` };
+  }
+
+  value.forEach((message, index) => {
+    const field = `conversationHistory[${index}]`;
+    if (!message || typeof message !== 'object') {
+      issues.push({ field, message: 'must be an object with "role" and "content"' });
+      return;
+    }
+    if (message.role !== 'user' && message.role !== 'assistant') {
+      issues.push({ field: `${field}.role`, message: 'must be "user" or "assistant"' });
+    }
+    if (typeof message.content !== 'string' || message.content.trim().length === 0) {
+      issues.push({ field: `${field}.content`, message: 'must be a non-empty string' });
+    } else if (message.content.length > maxHistoryMessageLength) {
+      issues.push({ field: `${field}.content`, message: `must be at most ${maxHistoryMessageLength} characters` });
+    }
+  });
+  return value.map(message => ({ role: message?.role, content: message?.content }));
+}
+
+/**
+ * Validate a parsed /api/ask body against the schema. Returns the typed
+ * request, or the error to send back with every field-level problem listed.
+ */
+export function parseAskRequest(
+  body: unknown
+): { request: AskRequest; error?: undefined } | { request?: undefined; error: AskRequestError } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: { code: 'invalid_request', message: 'The request body must be a JSON object.' } };
+  }
+
+  const fields = body as Record<string, unknown>;
+  const { version, query, conversationId, conversationHistory, includeSources, debug } = fields;
+  if (version !== undefined && version !== API_VERSION) {
+    return { error: { code: 'unsupported_version', message: `Unsupported version ${JSON.stringify(version)}. Supported: ${API_VERSION}.` } };
+  }
+
+  const issues: ApiValidationIssue[] = [];
+  const { maxQueryLength } = getRequestLimits();
+
+  if (typeof query !== 'string' || query.trim().length === 0) {
+    issues.push({ field: 'query', message: 'must be a non-empty string' });
+  } else if (query.length > maxQueryLength) {
+    return { error: { code: 'query_too_long', message: `"query" must be at most ${maxQueryLength} characters.` } };
+  }
+
+  // null is accepted for clients that have not started a conversation yet
+  if (conversationId !== undefined && conversationId !== null && !isValidConversationId(conversationId)) {
+    issues.push({ field: 'conversationId', message: 'must be 1-64 letters, digits or dashes' });
+  }
+
+  let history: AskHistoryMessage[] | undefined;
+  if (conversationHistory !== undefined) {
+    const checked = checkHistory(conversationHistory, issues);
+    if (!Array.isArray(checked)) return { error: checked };
+    history = checked;
+  }
+
+  for (const [field, value] of [['includeSources', includeSources], ['debug', debug]] as const) {
+    if (value !== undefined && typeof value !== 'boolean') {
+      issues.push({ field, message: 'must be a boolean' });
+    }
+  }
+
+  for (const field of Object.keys(fields).filter(name => !ASK_REQUEST_FIELDS.includes(name))) {
+    issues.push({ field, message: 'is not a known field' });
+  }
+
+  if (issues.length > 0) {
+    return {
+      error: {
+        code: 'invalid_request',
+        message: issues.map(issue => `"${issue.field}" ${issue.message}`).join('; '),
+        details: issues,
+      },
+    };
+  }
+
+  return {
+    request: {
+      query: (query as string).trim(),
+      conversationId: typeof conversationId === 'string' ? conversationId : undefined,
+      conversationHistory: history,
+      // Sources are opt-in so existing clients keep the smaller response
+      includeSources: includeSources === true,
+      debug: debug === true,
+    },
+  };
+}
+
+/**
+ * Validate a parsed /api/feedback body. Returns the typed request, or the
+ * error to send back with every field-level problem listed.
+ */
+export function parseFeedbackRequest(
+  body: unknown
+): { request: FeedbackRequest; error?: undefined } | { request?: undefined; error: AskRequestError } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: { code: 'invalid_request', message: 'The request body must be a JSON object.' } };
+  }
+
+  const fields = body as Record<string, unknown>;
+  const { version, conversationId, traceId, rating, correction } = fields;
+  if (version !== undefined && version !== API_VERSION) {
+    return { error: { code: 'unsupported_version', message: `Unsupported version ${JSON.stringify(version)}. Supported: ${API_VERSION}.` } };
+  }
+
+  const issues: ApiValidationIssue[] = [];
+  if (!isValidConversationId(conversationId)) {
+    issues.push({ field: 'conversationId', message: 'must be 1-64 letters, digits or dashes' });
+  }
+  if (typeof traceId !== 'string' || !TRACE_ID_PATTERN.test(traceId)) {
+    issues.push({ field: 'traceId', message: 'must be the 32-character X-Trace-Id of the answer' });
+  }
+  if (!FEEDBACK_RATINGS.includes(rating as FeedbackRating)) {
+    issues.push({ field: 'rating', message: `must be one of ${FEEDBACK_RATINGS.map(value => `"${value}"`).join(', ')}` });
+  }
+  if (correction !== undefined && typeof correction !== 'string') {
+    issues.push({ field: 'correction', message: 'must be a string' });
+  } else if (typeof correction === 'string' && correction.length > MAX_CORRECTION_LENGTH) {
+    issues.push({ field: 'correction', message: `must be at most ${MAX_CORRECTION_LENGTH} characters` });
+  }
+
+  for (const field of Object.keys(fields).filter(name => !FEEDBACK_REQUEST_FIELDS.includes(name))) {
+    issues.push({ field, message: 'is not a known field' });
+  }
+
+  if (issues.length > 0) {
+    return {
+      error: {
+        code: 'invalid_request',
+        message: issues.map(issue => `"${issue.field}" ${issue.message}`).join('; '),
+        details: issues,
+      },
+    };
+  }
+
+  const trimmedCorrection = typeof correction === 'string' ? correction.trim() : '';
+  return {
+    request: {
+      conversationId: conversationId as string,
+      traceId: traceId as string,
+      rating: rating as FeedbackRating,
+      ...(trimmedCorrection ? { correction: trimmedCorrection } : {}),
+    },
+  };
+}
+
+/**
+ * Validate a parsed /api/admin/knowledge-base/jobs body: exactly one of
+ * `uploadId` and `rollbackTo`
+ */
+export function parseIngestJobRequest(
+  body: unknown
+): { request: IngestJobRequest; error?: undefined } | { request?: undefined; error: AskRequestError } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: { code: 'invalid_request', message: 'The request body must be a JSON object.' } };
+  }
+
+  const fields = body as Record<string, unknown>;
+  const { version, uploadId, acceptSchemaChanges, rollbackTo } = fields;
+  if (version !== undefined && version !== API_VERSION) {
+    return { error: { code: 'unsupported_version', message: `Unsupported version ${JSON.stringify(version)}. Supported: ${API_VERSION}.` } };
+  }
+
+  const issues: ApiValidationIssue[] = [];
+  if ((uploadId === undefined) === (rollbackTo === undefined)) {
+    issues.push({ field: 'uploadId', message: 'or "rollbackTo" is required, but not both' });
+  }
+  if (uploadId !== undefined && (typeof uploadId !== 'string' || !UPLOAD_ID_PATTERN.test(uploadId))) {
+    issues.push({ field: 'uploadId', message: 'must be the id of a previewed upload' });
+  }
+  if (acceptSchemaChanges !== undefined && typeof acceptSchemaChanges !== 'boolean') {
+    issues.push({ field: 'acceptSchemaChanges', message: 'must be a boolean' });
+  }
+  if (rollbackTo !== undefined && (typeof rollbackTo !== 'string' || !INDEX_VERSION_PATTERN.test(rollbackTo))) {
+    issues.push({ field: 'rollbackTo', message: 'must be a 16-character index version' });
+  }
+
+  for (const field of Object.keys(fields).filter(name => !INGEST_JOB_REQUEST_FIELDS.includes(name))) {
+    issues.push({ field, message: 'is not a known field' });
+  }
+
+  if (issues.length > 0) {
+    return {
+      error: {
+        code: 'invalid_request',
+        message: issues.map(issue => `"${issue.field}" ${issue.message}`).join('; '),
+        details: issues,
+      },
+    };
+  }
+
+  return {
+    request: typeof uploadId === 'string'
+      ? { uploadId, acceptSchemaChanges: acceptSchemaChanges === true }
+      : { rollbackTo: rollbackTo as string },
+  };
+}
@@ -0,0 +1,398 @@
+import { AskOutcome, recordAskEvent } from './analytics';
+import { authenticateRequest, getApiKeyStore, getCorsHeaders, getPreflightOrigins, isDebugAllowed } from './apiKeys';
+import {
+  API_VERSION,
+  ApiErrorCode,
+  ApiErrorResponse,
+  ApiValidationIssue,
+  AskRequest,
+  AskResponse,
+  createApiError,
+  parseAskRequest,
+} from './apiSchema';
+import { getCorsAllowedOrigins, getRequiredEnvVars } from './config';
+import { PayloadTooLargeError } from './errors';
+import { logger } from './logger';
+import { NO_ANSWER_MESSAGE, RAGError, RAGEvent, RAGOptions, RAGResult, runRAG } from './rag';
+import { HeaderGetter, checkBodySize, guardAskRequest } from './rateLimit';
+import {
+  Conversation,
+  appendTurn,
+  createConversation,
+  getSessionStore,
+  isConversationOwner,
+  isValidConversationId,
+  resolveConversationOwner,
+  sanitizeHistory,
+  toHistory,
+} from './sessions';
+import { getActiveSpan, startTrace } from './tracing';
+import { RequestUsage, checkSpendLimit, createUsageMeter, recordRequestUsage } from './usage';
+
+const METHODS = 'POST, OPTIONS';
+
+/**
+ * The parts of an HTTP request the ask pipeline needs, so any framework can adapt to it
+ */
+export interface AskHttpRequest {
+  method: string;
+  /** Path and query string, e.g. "/api/ask?stream=1" */
+  url: string;
+  getHeader: HeaderGetter;
+  /**
+   * Raw body text, or the already-parsed body for frameworks that parse JSON
+   * themselves. Only called once authentication and rate limits have passed.
+   * Throws PayloadTooLargeError to stop reading a body past MAX_BODY_BYTES.
+   */
+  readBody: () => Promise<unknown>;
+  /** Platform or socket address of the client, used unless TRUSTED_PROXY_HOPS trusts X-Forwarded-For */
+  clientIp?: string;
+  /** Fires when the client disconnects, so an unfinished answer stops making paid calls */
+  signal?: AbortSignal;
+}
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+export interface AskHttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  /** JSON body; absent for preflight responses */
+  body?: AskResponse | ApiErrorResponse;
+  /** Set for Server-Sent Events: writes every event through `send`, resolving when done */
+  stream?: (send: SendEvent) => Promise<void>;
+}
+
+/**
+ * Encode one Server-Sent Event
+ */
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Check whether the client asked for a Server-Sent Events stream
+ */
+function wantsStream(request: AskHttpRequest): boolean {
+  const streamParam = new URL(request.url, 'http://localhost').searchParams.get('stream');
+  return streamParam === '1' || streamParam === 'true' ||
+    (request.getHeader('accept') || '').includes('text/event-stream');
+}
+
+/**
+ * Whether the client reached the server over HTTPS, directly or through a proxy
+ */
+function isSecureRequest(request: AskHttpRequest): boolean {
+  return new URL(request.url, 'http://localhost').protocol === 'https:' ||
+    request.getHeader('x-forwarded-proto')?.split(',')[0].trim() === 'https';
+}
+
+function errorResponse(
+  code: ApiErrorCode,
+  message: string,
+  headers: Record<string, string>,
+  details?: ApiValidationIssue[]
+): AskHttpResponse {
+  const { status, body } = createApiError(code, message, details);
+  return { status, headers, body };
+}
+
+/**
+ * Map a failure to its API error. Typed errors carry a client-safe message;
+ * anything else is reported generically and only logged in full.
+ */
+function toApiError(error: unknown): { status: number; body: ApiErrorResponse } {
+  if (error instanceof RAGError) {
+    return createApiError(error.code, error.message);
+  }
+  return createApiError('internal_error', 'Something went wrong while answering. Please try again.');
+}
+
+function toAskResponse(
+  result: RAGResult,
+  usage: RequestUsage,
+  conversation: Conversation,
+  request: AskRequest
+): AskResponse {
+  return {
+    version: API_VERSION,
+    answer: result.answer,
+    conversationId: conversation.id,
+    ...(request.includeSources ? { sources: result.sources || [] } : {}),
+    ...(request.debug ? { debug: { ...result.debug, usage } } : {}),
+  };
+}
+
+/**
+ * Run RAG while metering its model calls. The usage counts toward the daily
+ * totals even when answering fails, since the calls were still paid for, and
+ * every run is recorded for the admin analytics.
+ */
+async function runMeteredRAG(
+  request: AskRequest,
+  conversation: Conversation,
+  apiKeyId: string | undefined,
+  options?: RAGOptions
+): Promise<{ result: RAGResult; usage: RequestUsage }> {
+  const meter = createUsageMeter();
+  const startedAt = Date.now();
+  let outcome: AskOutcome = 'error';
+  try {
+    const result = await meter.run(() => runRAG(request.query, toHistory(conversation), options));
+    outcome = result.answer === NO_ANSWER_MESSAGE ? 'no_answer' : 'answered';
+    return { result, usage: meter.summary() };
+  } finally {
+    const usage = meter.summary();
+    const traceId = getActiveSpan()?.traceId;
+    getActiveSpan()?.setAttributes({ 'ask.cost_usd': usage.costUsd, 'ask.model_calls': usage.calls.length });
+    await recordRequestUsage(usage, apiKeyId, conversation.id);
+    await recordAskEvent({
+      time: new Date().toISOString(),
+      ...(traceId ? { traceId } : {}),
+      conversationId: conversation.id,
+      ...(apiKeyId ? { apiKeyId } : {}),
+      query: request.query,
+      outcome,
+      latencyMs: Date.now() - startedAt,
+      costUsd: usage.costUsd,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+    });
+  }
+}
+
+/**
+ * Run RAG and stream progress, token and (when requested) sources events,
+ * finishing with a `done` event that carries the full response
+ */
+function streamAnswer(
+  request: AskRequest,
+  conversation: Conversation,
+  apiKeyId: string | undefined,
+  signal?: AbortSignal
+): (send: SendEvent) => Promise<void> {
+  return async (send) => {
+    try {
+      const { result, usage } = await runMeteredRAG(request, conversation, apiKeyId, {
+        explain: request.debug,
+        signal,
+        onEvent: (event: RAGEvent) => {
+          if (event.type === 'progress') {
+            send('progress', { stage: event.stage });
+          } else {
+            send('token', { text: event.text });
+          }
+        },
+      });
+
+      if (request.includeSources) {
+        send('sources', { sources: result.sources || [] });
+      }
+      await getSessionStore().save(appendTurn(conversation, request.query, result, getActiveSpan()?.traceId));
+      send('done', toAskResponse(result, usage, conversation, request));
+    } catch (error) {
+      if (signal?.aborted) {
+        logger.info('Client disconnected before the answer finished', { conversationId: conversation.id });
+        return;
+      }
+      logger.error('Streaming answer failed', { conversationId: conversation.id, error });
+      getActiveSpan()?.recordError(error);
+      send('error', toApiError(error).body);
+    }
+  };
+}
+
+/**
+ * Read and parse the body, enforcing the size limit on what was actually sent
+ */
+async function readJsonBody(request: AskHttpRequest): Promise<{ body: unknown } | { code: ApiErrorCode; message: string }> {
+  let raw: unknown;
+  try {
+    raw = await request.readBody();
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) return { code: error.code, message: error.message };
+    return { code: 'invalid_json', message: 'Invalid JSON in request body.' };
+  }
+
+  const text = typeof raw === 'string' ? raw : JSON.stringify(raw ?? '');
+  const sizeRejection = checkBodySize(Buffer.byteLength(text));
+  if (sizeRejection) return { code: sizeRejection.body.code, message: sizeRejection.body.message };
+  if (typeof raw !== 'string') return { body: raw };
+
+  try {
+    return { body: JSON.parse(raw) };
+  } catch (error) {
+    return { code: 'invalid_json', message: 'Invalid JSON in request body.' };
+  }
+}
+
+/**
+ * The /api/ask pipeline: CORS, authentication, rate limits, validation,
+ * conversation lookup and runRAG, with every failure mapped to an error code.
+ * Each request is traced; its trace ID is returned in `X-Trace-Id`.
+ */
+export async function handleAskRequest(request: AskHttpRequest): Promise<AskHttpResponse> {
+  const trace = startTrace(
+    'ask',
+    { 'http.request.method': request.method, 'url.path': new URL(request.url, 'http://localhost').pathname },
+    request.getHeader('traceparent')
+  );
+  const response = await trace.run(() => processAskRequest(request));
+  response.headers['X-Trace-Id'] = trace.traceId;
+  trace.root.setAttribute('http.response.status_code', response.status);
+
+  const stream = response.stream;
+  if (!stream) {
+    await trace.end();
+    return response;
+  }
+
+  // The trace stays open until the last event has been sent
+  return {
+    ...response,
+    stream: (send) => trace.run(async () => {
+      try {
+        await stream(send);
+      } finally {
+        await trace.end();
+      }
+    }),
+  };
+}
+
+async function processAskRequest(request: AskHttpRequest): Promise<AskHttpResponse> {
+  const origin = request.getHeader('origin');
+
+  if (request.method === 'OPTIONS') {
+    return { status: 200, headers: getCorsHeaders(origin, await getPreflightOrigins(), METHODS) };
+  }
+
+  let headers: Record<string, string> = {
+    ...getCorsHeaders(origin, getCorsAllowedOrigins(), METHODS),
+    'Content-Type': 'application/json',
+  };
+
+  try {
+    if (request.method !== 'POST') {
+      return errorResponse('method_not_allowed', 'Use POST.', { ...headers, 'Allow': METHODS });
+    }
+
+    const { apiKey, rejection: authRejection, corsHeaders } = await authenticateRequest(request.getHeader, METHODS);
+    headers = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+    // Rate limits, authentication and size caps run before any paid model call. The per-IP
+    // limit applies to failed authentication too, so keys cannot be guessed at full speed.
+    const rejection = await guardAskRequest(request.getHeader, request.clientIp, apiKey?.id) || authRejection;
+    if (rejection) {
+      return { status: rejection.status, headers: { ...headers, ...rejection.headers }, body: rejection.body };
+    }
+
+    const parsedBody = await readJsonBody(request);
+    if (!('body' in parsedBody)) {
+      return errorResponse(parsedBody.code, parsedBody.message, headers);
+    }
+
+    const { request: askRequest, error } = parseAskRequest(parsedBody.body);
+    if (error) {
+      return errorResponse(error.code, error.message, headers, error.details);
+    }
+
+    // Debug output exposes retrieval scores and the prompt, so it needs explicit access
+    if (askRequest.debug && !isDebugAllowed(apiKey)) {
+      return errorResponse('forbidden', 'Debug output requires an API key with debug access.', headers);
+    }
+
+    // Check environment variables before running RAG; only names are logged, never values
+    const missingVars = getRequiredEnvVars().filter(name => !process.env[name]);
+
+    if (missingVars.length > 0) {
+      logger.error('Missing environment variables', { missing: missingVars });
+      return errorResponse(
+        'configuration_error',
+        `Missing required environment variables: ${missingVars.join(', ')}. Please check your Vercel environment variables and redeploy.`,
+        headers
+      );
+    }
+
+    // Anonymous callers get an owner cookie so only they can list, read and continue their conversations
+    const { owner, setCookie } = resolveConversationOwner(request.getHeader, apiKey?.id, {
+      issue: true,
+      secure: isSecureRequest(request),
+    });
+    if (setCookie) {
+      headers['Set-Cookie'] = setCookie;
+    }
+
+    // History comes from the stored conversation; client-sent history only seeds a new one,
+    // e.g. when the conversation was kept by another instance's memory store
+    const sessionStore = getSessionStore();
+    const stored = isValidConversationId(askRequest.conversationId)
+      ? await sessionStore.get(askRequest.conversationId)
+      : null;
+    // A conversation can only be continued by the key or cookie it was started with
+    const existing = stored && isConversationOwner(stored, owner) ? stored : null;
+    const conversation = existing ||
+      createConversation(askRequest.query, sanitizeHistory(askRequest.conversationHistory), owner);
+    if (askRequest.conversationId && !existing) {
+      logger.warn('Conversation not found, starting a new one', {
+        conversationId: askRequest.conversationId,
+        seededMessages: conversation.messages.length,
+      });
+    }
+
+    const spendRejection = await checkSpendLimit(apiKey?.id, conversation.id);
+    if (spendRejection) {
+      return { status: spendRejection.status, headers: { ...headers, ...spendRejection.headers }, body: spendRejection.body };
+    }
+
+    if (apiKey) {
+      await getApiKeyStore().recordUsage(apiKey.id);
+    }
+
+    const stream = wantsStream(request);
+    getActiveSpan()?.setAttributes({
+      'ask.api_key_id': apiKey?.id,
+      'ask.conversation_id': conversation.id,
+      'ask.conversation_continued': !!existing,
+      'ask.stream': stream,
+    });
+    logger.info('Answering question', {
+      apiKeyId: apiKey?.id || 'anonymous',
+      conversationId: conversation.id,
+      queryLength: askRequest.query.length,
+      stream,
+    });
+
+    if (stream) {
+      return {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          ...(setCookie ? { 'Set-Cookie': setCookie } : {}),
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          'Connection': 'keep-alive',
+        },
+        stream: streamAnswer(askRequest, conversation, apiKey?.id, request.signal),
+      };
+    }
+
+    const { result, usage } = await runMeteredRAG(askRequest, conversation, apiKey?.id, {
+      explain: askRequest.debug,
+      signal: request.signal,
+    });
+    await sessionStore.save(appendTurn(conversation, askRequest.query, result, getActiveSpan()?.traceId));
+
+    logger.info('Answered question', {
+      conversationId: conversation.id,
+      sources: result.sources?.length ?? 0,
+      costUsd: usage.costUsd,
+    });
+
+    return { status: 200, headers, body: toAskResponse(result, usage, conversation, askRequest) };
+  } catch (error) {
+    logger.error('Ask request failed', { error });
+    getActiveSpan()?.recordError(error);
+    const { status, body } = toApiError(error);
+    return { status, headers, body };
+  }
+}
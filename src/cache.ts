@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getCacheStoreProvider } from './config';
+import { logger } from './logger';
+
+export interface CacheStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Live entries whose key starts with `prefix`, for similarity scans */
+  entries<T>(prefix: string): Promise<Array<{ key: string; value: T }>>;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Cache kept in process memory. Expired entries are dropped on access and the
+ * oldest entries are evicted once `maxEntries` is reached.
+ */
+export function createMemoryCacheStore(maxEntries: number = DEFAULT_MAX_ENTRIES): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+
+  const live = (key: string): CacheEntry | null => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  return {
+    async get<T>(key: string) {
+      return (live(key)?.value as T) ?? null;
+    },
+
+    async set(key, value, ttlMs) {
+      // Re-inserting moves the key to the end of the Map's insertion order
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+
+    async entries<T>(prefix: string) {
+      return Array.from(entries.keys())
+        .filter(key => key.startsWith(prefix) && live(key))
+        .map(key => ({ key, value: entries.get(key)!.value as T }));
+    },
+  };
+}
+
+// Cached embeddings make the file large, so writes are batched into one rewrite per interval
+const FILE_SAVE_DELAY_MS = 5000;
+
+/**
+ * Memory cache persisted to a JSON file, so cached answers survive restarts
+ * of a single long-running server. Changes are written at most every few
+ * seconds, so a crash loses the last ones.
+ */
+export function createFileCacheStore(
+  filePath: string,
+  maxEntries: number = DEFAULT_MAX_ENTRIES,
+  saveDelayMs: number = FILE_SAVE_DELAY_MS
+): CacheStore {
+  const memory = createMemoryCacheStore(maxEntries);
+  const expiries = new Map<string, number>();
+
+  if (fs.existsSync(filePath)) {
+    const saved: Record<string, CacheEntry> = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    for (const [key, entry] of Object.entries(saved)) {
+      const ttlMs = entry.expiresAt - Date.now();
+      if (ttlMs <= 0) continue;
+      memory.set(key, entry.value, ttlMs);
+      expiries.set(key, entry.expiresAt);
+    }
+  }
+
+  const save = async () => {
+    const live = await memory.entries('');
+    const saved = Object.fromEntries(
+      live.map(({ key, value }) => [key, { value, expiresAt: expiries.get(key) || 0 }])
+    );
+    // Written aside and renamed, so readers never see a half-written file
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, JSON.stringify(saved));
+    await fs.promises.rename(tempPath, filePath);
+  };
+
+  let saveTimer: NodeJS.Timeout | null = null;
+  let saving: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = null;
+    saving = saving
+      .then(save)
+      .catch(error => logger.warn('Could not save the cache file', { filePath, error }));
+  };
+
+  const scheduleSave = () => {
+    if (saveTimer) return;
+    saveTimer = setTimeout(flush, saveDelayMs);
+    // Pending writes do not keep a script alive; they are flushed before it exits instead
+    saveTimer.unref();
+  };
+
+  process.on('beforeExit', () => {
+    if (saveTimer) flush();
+  });
+
+  return {
+    get: memory.get,
+    entries: memory.entries,
+
+    async set(key, value, ttlMs) {
+      await memory.set(key, value, ttlMs);
+      expiries.set(key, Date.now() + ttlMs);
+      scheduleSave();
+    },
+
+    async delete(key) {
+      await memory.delete(key);
+      expiries.delete(key);
+      scheduleSave();
+    },
+  };
+}
+
+let sharedCacheStore: CacheStore | null = null;
+
+/**
+ * Cache store for the provider selected by CACHE_STORE, or null when caching is off
+ */
+export function getCacheStore(): CacheStore | null {
+  const provider = getCacheStoreProvider();
+  if (provider === 'none') return null;
+
+  // Shared per process; the file store keeps its own in-memory copy
+  sharedCacheStore = sharedCacheStore || (provider === 'file'
+    ? createFileCacheStore(path.resolve(process.cwd(), process.env.CACHE_STORE_PATH || 'data/cache.json'))
+    : createMemoryCacheStore());
+  return sharedCacheStore;
+}
+
+function getTtlMs(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * How long query embeddings are cached (EMBEDDING_CACHE_TTL_MS, default 24 hours)
+ */
+export function getEmbeddingCacheTtlMs(): number {
+  return getTtlMs('EMBEDDING_CACHE_TTL_MS', 24 * 60 * 60 * 1000);
+}
+
+/**
+ * How long answers are cached (ANSWER_CACHE_TTL_MS, default 1 hour)
+ */
+export function getAnswerCacheTtlMs(): number {
+  return getTtlMs('ANSWER_CACHE_TTL_MS', 60 * 60 * 1000);
+}
+
+/**
+ * Minimum cosine similarity for reusing the answer to a differently worded
+ * question (ANSWER_CACHE_SIMILARITY, e.g. 0.95); null disables semantic matching
+ */
+export function getAnswerCacheSimilarity(): number | null {
+  const value = parseFloat(process.env.ANSWER_CACHE_SIMILARITY || '');
+  return Number.isFinite(value) && value > 0 && value <= 1 ? value : null;
+}
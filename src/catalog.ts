@@ -0,0 +1,341 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type CatalogValue = string | number;
+
+export interface CatalogColumn {
+  /** Header exactly as it appears in the sheet (may include stray whitespace) */
+  header: string;
+  /** Trimmed header used as the key in row values */
+  name: string;
+  /** number = numeric cells, string = short values, text = long free text */
+  type: 'number' | 'string' | 'text';
+  /** Currency symbol shared by every value of a number column, e.g. "$" */
+  currency?: string;
+  /** Unit suffix shared by every value of a number column, e.g. "kg" */
+  unit?: string;
+  /** Short string column whose values are unique per row (SKU, model, name) */
+  identifier: boolean;
+}
+
+export interface CatalogRow {
+  sheet: string;
+  row: number;
+  values: Record<string, CatalogValue>;
+}
+
+export interface CatalogSheet {
+  name: string;
+  columns: CatalogColumn[];
+}
+
+export interface Catalog {
+  generatedAt: string;
+  sheets: CatalogSheet[];
+  rows: CatalogRow[];
+}
+
+export interface CatalogMatch {
+  /** Cites `rows[n - 1]` as [n] */
+  answer: string;
+  rows: CatalogRow[];
+  columns: CatalogColumn[];
+}
+
+const LONG_TEXT_LENGTH = 120;
+const NUMBER_PATTERN = /^([£$€]?)\s*(-?(?:\d{1,3}(?:,\d{3})+|\d*)(?:\.\d+)?)\s*([a-z%]*)$/i;
+
+// Words that appear in many headers and say nothing about the attribute asked for
+const GENERIC_HEADER_WORDS = new Set(['product', 'products', 'item', 'the', 'of']);
+
+// Units converted to a common base so mixed "1.6kg" / "700gram" columns stay numeric
+const UNIT_CONVERSIONS: Record<string, { base: string; factor: number }> = {
+  kg: { base: 'kg', factor: 1 },
+  kgs: { base: 'kg', factor: 1 },
+  kilogram: { base: 'kg', factor: 1 },
+  kilograms: { base: 'kg', factor: 1 },
+  g: { base: 'kg', factor: 0.001 },
+  gram: { base: 'kg', factor: 0.001 },
+  grams: { base: 'kg', factor: 0.001 },
+};
+
+const ATTRIBUTE_SYNONYMS: Record<string, string[]> = {
+  price: ['cost', 'costs', 'much', 'priced'],
+  weight: ['weigh', 'weighs', 'heavy'],
+  category: ['type', 'kind'],
+  sku: ['code'],
+};
+
+/**
+ * Parse "12", "$1,299.99" or "1.6kg" into a number with its currency and unit.
+ * Known units are converted to their base unit ("700gram" -> 0.7 kg).
+ */
+export function parseNumber(value: string): { value: number; currency: string; unit: string } | null {
+  const match = value.trim().match(NUMBER_PATTERN);
+  if (!match) return null;
+  const parsed = parseFloat(match[2].replace(/,/g, ''));
+  if (isNaN(parsed)) return null;
+
+  const unit = match[3].toLowerCase();
+  const conversion = UNIT_CONVERSIONS[unit];
+  return conversion
+    ? { value: Math.round(parsed * conversion.factor * 1e6) / 1e6, currency: match[1], unit: conversion.base }
+    : { value: parsed, currency: match[1], unit };
+}
+
+/**
+ * Lowercase and collapse punctuation to spaces, keeping decimal points like "1.6"
+ */
+export function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\.(?!\d)|(?<!\d)\./g, ' ')
+    .replace(/[^a-z0-9.]+/g, ' ')
+    .trim();
+}
+
+export function headerWords(column: CatalogColumn): string[] {
+  return normalize(column.name.replace(/_/g, ' '))
+    .split(' ')
+    .filter(word => word && !GENERIC_HEADER_WORDS.has(word));
+}
+
+/**
+ * Build typed catalog rows and columns from a sheet's records (header row as keys)
+ */
+export function buildCatalogSheet(
+  sheetName: string,
+  records: Array<Record<string, any>>
+): { sheet: CatalogSheet; rows: CatalogRow[] } {
+  const headers = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+
+  const columns: CatalogColumn[] = headers.map(header => {
+    const values = records
+      .map(record => String(record[header] ?? '').trim())
+      .filter(value => value.length > 0);
+    const numbers = values.map(parseNumber);
+    // Numeric only when every value parses and they all share one currency and unit
+    const isNumber = values.length > 0 &&
+      numbers.every(n => n !== null) &&
+      new Set(numbers.map(n => `${n!.currency}|${n!.unit}`)).size === 1;
+    const isText = values.some(value => value.length > LONG_TEXT_LENGTH);
+    const unique = new Set(values.map(value => value.toLowerCase())).size === values.length;
+
+    const column: CatalogColumn = {
+      header,
+      name: header.trim(),
+      type: isNumber ? 'number' : isText ? 'text' : 'string',
+      identifier: !isNumber && !isText && unique && values.length > 1,
+    };
+    if (isNumber && numbers[0]!.currency) column.currency = numbers[0]!.currency;
+    if (isNumber && numbers[0]!.unit) column.unit = numbers[0]!.unit;
+    return column;
+  });
+
+  const rows: CatalogRow[] = [];
+  records.forEach((record, i) => {
+    const values: Record<string, CatalogValue> = {};
+    for (const column of columns) {
+      const raw = String(record[column.header] ?? '').trim();
+      if (!raw) continue;
+      values[column.name] = column.type === 'number' ? parseNumber(raw)!.value : raw;
+    }
+
+    if (Object.keys(values).length > 0) {
+      rows.push({
+        sheet: sheetName,
+        row: i + 2, // +2 because Excel is 1-indexed and we have headers
+        values,
+      });
+    }
+  });
+
+  return { sheet: { name: sheetName, columns }, rows };
+}
+
+/**
+ * Resolve the catalog file location (CATALOG_PATH, default data/catalog.json)
+ */
+export function getCatalogPath(): string {
+  return path.resolve(process.cwd(), process.env.CATALOG_PATH || 'data/catalog.json');
+}
+
+/**
+ * Write the catalog as JSON, creating the parent directory if needed
+ */
+export function saveCatalog(catalog: Catalog, filePath: string = getCatalogPath()): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(catalog, null, 2));
+}
+
+let cachedCatalog: { filePath: string; mtimeMs: number; catalog: Catalog } | null = null;
+
+/**
+ * Load the catalog written by ingestion, or null when none exists.
+ * Re-reads the file only when it changes on disk.
+ */
+export function loadCatalog(filePath: string = getCatalogPath()): Catalog | null {
+  if (!fs.existsSync(filePath)) return null;
+
+  const { mtimeMs } = fs.statSync(filePath);
+  if (cachedCatalog && cachedCatalog.filePath === filePath && cachedCatalog.mtimeMs === mtimeMs) {
+    return cachedCatalog.catalog;
+  }
+
+  const catalog: Catalog = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  cachedCatalog = { filePath, mtimeMs, catalog };
+  return catalog;
+}
+
+/**
+ * Find catalog rows whose identifier values (SKU, model, name) appear in the query.
+ * When several identifiers match, only rows with the longest match are kept so
+ * "HyLite 2 Pro" does not also pick up the "HyLite 2" row.
+ */
+export function findCatalogEntities(query: string, catalog: Catalog): CatalogRow[] {
+  const normalizedQuery = ` ${normalize(query)} `;
+  let bestLength = 0;
+  let best: CatalogRow[] = [];
+
+  for (const sheet of catalog.sheets) {
+    const identifiers = sheet.columns.filter(column => column.identifier);
+    for (const row of catalog.rows) {
+      if (row.sheet !== sheet.name) continue;
+
+      for (const column of identifiers) {
+        const value = normalize(String(row.values[column.name] ?? ''));
+        if (value.length < 3 || !normalizedQuery.includes(` ${value} `)) continue;
+
+        if (value.length > bestLength) {
+          bestLength = value.length;
+          best = [row];
+        } else if (value.length === bestLength && !best.includes(row)) {
+          best.push(row);
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Find the columns a query asks about, by header words or common synonyms
+ */
+export function findCatalogAttributes(query: string, columns: CatalogColumn[]): CatalogColumn[] {
+  const queryWords = new Set(normalize(query).split(' '));
+
+  return columns.filter(column =>
+    headerWords(column).some(word =>
+      queryWords.has(word) ||
+      queryWords.has(`${word}s`) ||
+      (ATTRIBUTE_SYNONYMS[word] || []).some(synonym => queryWords.has(synonym))
+    )
+  );
+}
+
+/**
+ * Format a cell value with its column's currency and unit
+ */
+export function formatCatalogValue(column: CatalogColumn, value: CatalogValue): string {
+  return column.type === 'number'
+    ? `${column.currency || ''}${value}${column.unit || ''}`
+    : String(value);
+}
+
+/**
+ * Human-readable label for a row: its name column, else its first identifier
+ */
+export function getRowLabel(row: CatalogRow, sheet: CatalogSheet): string {
+  const nameColumn = sheet.columns.find(column => /name/i.test(column.name) && column.identifier)
+    || sheet.columns.find(column => column.identifier);
+  return nameColumn ? String(row.values[nameColumn.name] ?? `row ${row.row}`) : `row ${row.row}`;
+}
+
+/**
+ * Answer "what is the <attribute> of <product>" questions straight from the catalog.
+ * Returns null unless the query names at most three products and at least one
+ * short attribute column, leaving everything else to vector search.
+ */
+export function answerFromCatalog(query: string, catalog: Catalog | null = loadCatalog()): CatalogMatch | null {
+  if (!catalog) return null;
+
+  const rows = findCatalogEntities(query, catalog);
+  if (rows.length === 0 || rows.length > 3) return null;
+
+  const lines: string[] = [];
+  const matchedColumns: CatalogColumn[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    const sheet = catalog.sheets.find(s => s.name === row.sheet);
+    if (!sheet) continue;
+
+    const attributes = findCatalogAttributes(
+      query,
+      sheet.columns.filter(column => column.type !== 'text')
+    );
+    if (attributes.length === 0) return null;
+
+    const name = getRowLabel(row, sheet);
+    for (const column of attributes) {
+      const value = row.values[column.name];
+      lines.push(value === undefined
+        ? `The ${column.name} of ${name} is not available in my knowledge base. [${index + 1}]`
+        : `The ${column.name} of ${name} is ${formatCatalogValue(column, value)}. [${index + 1}]`);
+      if (!matchedColumns.includes(column)) matchedColumns.push(column);
+    }
+  }
+
+  if (lines.length === 0) return null;
+
+  return { answer: lines.join('\n'), rows, columns: matchedColumns };
+}
+
+/**
+ * Vector metadata key for a catalog column, e.g. "Product Category" -> "attr_product_category".
+ * Pinecone metadata is flat, so row attributes are stored alongside text/sheet/row.
+ */
+export function getMetadataKey(columnName: string): string {
+  return `attr_${normalize(columnName.replace(/_/g, ' ')).replace(/[ .]+/g, '_')}`;
+}
+
+/**
+ * Filterable vector metadata for a row: every non-text column value
+ */
+export function getRowMetadata(sheet: CatalogSheet, row: CatalogRow): Record<string, CatalogValue> {
+  const metadata: Record<string, CatalogValue> = {};
+  for (const column of sheet.columns) {
+    const value = row.values[column.name];
+    if (column.type !== 'text' && value !== undefined) {
+      metadata[getMetadataKey(column.name)] = value;
+    }
+  }
+  return metadata;
+}
+
+/** What a product card shows for a catalog row */
+export interface ProductSummary {
+  name: string;
+  category?: string;
+  price?: string;
+}
+
+/**
+ * Name, category and price of a row, or null for sheets without an identifier
+ * column (notes, FAQs) whose rows are not products
+ */
+export function getProductSummary(row: CatalogRow, sheet: CatalogSheet): ProductSummary | null {
+  if (!sheet.columns.some(column => column.identifier)) return null;
+
+  const categoryColumn = sheet.columns.find(column => column.type === 'string' && /categor|type|range|family/i.test(column.name));
+  const priceColumn = sheet.columns.find(column => column.type === 'number' && /price|cost|rrp/i.test(column.name))
+    || sheet.columns.find(column => column.type === 'number' && column.currency);
+  const category = categoryColumn && row.values[categoryColumn.name];
+  const price = priceColumn && row.values[priceColumn.name];
+
+  return {
+    name: getRowLabel(row, sheet),
+    ...(category !== undefined && category !== '' ? { category: String(category) } : {}),
+    ...(priceColumn && price !== undefined ? { price: formatCatalogValue(priceColumn, price) } : {}),
+  };
+}
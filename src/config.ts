@@ -0,0 +1,180 @@
+import { ConfigError } from './errors';
+
+export type ModelProvider = 'openai' | 'fake';
+export type VectorStoreProvider = 'pinecone' | 'local' | 'memory';
+export type SessionStoreProvider = 'memory' | 'file';
+export type CacheStoreProvider = 'memory' | 'file' | 'none';
+export type UsageStoreProvider = 'memory' | 'file' | 'none';
+export type FeedbackStoreProvider = 'memory' | 'file';
+export type AnalyticsStoreProvider = 'memory' | 'file' | 'none';
+
+const MODEL_PROVIDERS: ModelProvider[] = ['openai', 'fake'];
+const VECTOR_STORE_PROVIDERS: VectorStoreProvider[] = ['pinecone', 'local', 'memory'];
+const SESSION_STORE_PROVIDERS: SessionStoreProvider[] = ['memory', 'file'];
+const CACHE_STORE_PROVIDERS: CacheStoreProvider[] = ['memory', 'file', 'none'];
+const USAGE_STORE_PROVIDERS: UsageStoreProvider[] = ['memory', 'file', 'none'];
+const FEEDBACK_STORE_PROVIDERS: FeedbackStoreProvider[] = ['memory', 'file'];
+const ANALYTICS_STORE_PROVIDERS: AnalyticsStoreProvider[] = ['memory', 'file', 'none'];
+
+/**
+ * Resolve which chat/embedding backend to use (MODEL_PROVIDER, default "openai")
+ */
+export function getModelProvider(): ModelProvider {
+  const value = (process.env.MODEL_PROVIDER || 'openai').toLowerCase();
+  if (!MODEL_PROVIDERS.includes(value as ModelProvider)) {
+    throw new ConfigError(`Unknown MODEL_PROVIDER "${value}". Expected one of: ${MODEL_PROVIDERS.join(', ')}`);
+  }
+  return value as ModelProvider;
+}
+
+/**
+ * Resolve which vector store to use (VECTOR_STORE, default "pinecone")
+ */
+export function getVectorStoreProvider(): VectorStoreProvider {
+  const value = (process.env.VECTOR_STORE || 'pinecone').toLowerCase();
+  if (!VECTOR_STORE_PROVIDERS.includes(value as VectorStoreProvider)) {
+    throw new ConfigError(`Unknown VECTOR_STORE "${value}". Expected one of: ${VECTOR_STORE_PROVIDERS.join(', ')}`);
+  }
+  return value as VectorStoreProvider;
+}
+
+/**
+ * Resolve where conversations are kept (SESSION_STORE, default "memory")
+ */
+export function getSessionStoreProvider(): SessionStoreProvider {
+  const value = (process.env.SESSION_STORE || 'memory').toLowerCase();
+  if (!SESSION_STORE_PROVIDERS.includes(value as SessionStoreProvider)) {
+    throw new ConfigError(`Unknown SESSION_STORE "${value}". Expected one of: ${SESSION_STORE_PROVIDERS.join(', ')}`);
+  }
+  return value as SessionStoreProvider;
+}
+
+/**
+ * Resolve where embeddings and answers are cached (CACHE_STORE, default "memory")
+ */
+export function getCacheStoreProvider(): CacheStoreProvider {
+  const value = (process.env.CACHE_STORE || 'memory').toLowerCase();
+  if (!CACHE_STORE_PROVIDERS.includes(value as CacheStoreProvider)) {
+    throw new ConfigError(`Unknown CACHE_STORE "${value}". Expected one of: ${CACHE_STORE_PROVIDERS.join(', ')}`);
+  }
+  return value as CacheStoreProvider;
+}
+
+/**
+ * Resolve where daily token and cost totals are kept (USAGE_STORE, default "memory")
+ */
+export function getUsageStoreProvider(): UsageStoreProvider {
+  const value = (process.env.USAGE_STORE || 'memory').toLowerCase();
+  if (!USAGE_STORE_PROVIDERS.includes(value as UsageStoreProvider)) {
+    throw new ConfigError(`Unknown USAGE_STORE "${value}". Expected one of: ${USAGE_STORE_PROVIDERS.join(', ')}`);
+  }
+  return value as UsageStoreProvider;
+}
+
+/**
+ * Resolve where answer feedback is kept (FEEDBACK_STORE, default "memory")
+ */
+export function getFeedbackStoreProvider(): FeedbackStoreProvider {
+  const value = (process.env.FEEDBACK_STORE || 'memory').toLowerCase();
+  if (!FEEDBACK_STORE_PROVIDERS.includes(value as FeedbackStoreProvider)) {
+    throw new ConfigError(`Unknown FEEDBACK_STORE "${value}". Expected one of: ${FEEDBACK_STORE_PROVIDERS.join(', ')}`);
+  }
+  return value as FeedbackStoreProvider;
+}
+
+/**
+ * Resolve where per-request analytics for the admin dashboard are kept (ANALYTICS_STORE, default "memory")
+ */
+export function getAnalyticsStoreProvider(): AnalyticsStoreProvider {
+  const value = (process.env.ANALYTICS_STORE || 'memory').toLowerCase();
+  if (!ANALYTICS_STORE_PROVIDERS.includes(value as AnalyticsStoreProvider)) {
+    throw new ConfigError(`Unknown ANALYTICS_STORE "${value}". Expected one of: ${ANALYTICS_STORE_PROVIDERS.join(', ')}`);
+  }
+  return value as AnalyticsStoreProvider;
+}
+
+/**
+ * Total time runRAG may spend on one question (RAG_LATENCY_BUDGET_MS, default 50s,
+ * leaving headroom under the 60s function limit)
+ */
+export function getLatencyBudgetMs(): number {
+  const value = parseInt(process.env.RAG_LATENCY_BUDGET_MS || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : 50000;
+}
+
+function getPositiveIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Request size limits (MAX_BODY_BYTES, MAX_QUERY_LENGTH, MAX_HISTORY_MESSAGES,
+ * MAX_HISTORY_MESSAGE_LENGTH, and MAX_UPLOAD_BYTES for knowledge base uploads)
+ */
+export function getRequestLimits() {
+  return {
+    maxBodyBytes: getPositiveIntEnv('MAX_BODY_BYTES', 32 * 1024),
+    maxQueryLength: getPositiveIntEnv('MAX_QUERY_LENGTH', 1000),
+    maxHistoryMessages: getPositiveIntEnv('MAX_HISTORY_MESSAGES', 20),
+    maxHistoryMessageLength: getPositiveIntEnv('MAX_HISTORY_MESSAGE_LENGTH', 4000),
+    maxUploadBytes: getPositiveIntEnv('MAX_UPLOAD_BYTES', 10 * 1024 * 1024),
+  };
+}
+
+/**
+ * Daily model spend caps in USD (DAILY_SPEND_LIMIT_USD per API key, with all
+ * anonymous requests sharing one budget; DAILY_SESSION_SPEND_LIMIT_USD per
+ * conversation). null means no cap.
+ */
+export function getDailySpendLimits(): { perKeyUsd: number | null; perSessionUsd: number | null } {
+  const read = (name: string) => {
+    const value = parseFloat(process.env[name] || '');
+    return Number.isFinite(value) && value > 0 ? value : null;
+  };
+  return {
+    perKeyUsd: read('DAILY_SPEND_LIMIT_USD'),
+    perSessionUsd: read('DAILY_SESSION_SPEND_LIMIT_USD'),
+  };
+}
+
+/**
+ * Whether /api/ask rejects requests without an API key (REQUIRE_API_KEY, default false)
+ */
+export function isApiKeyRequired(): boolean {
+  return (process.env.REQUIRE_API_KEY || '').toLowerCase() === 'true';
+}
+
+/**
+ * Whether anonymous requests may ask for `debug` output (ALLOW_DEBUG_WITHOUT_KEY;
+ * defaults to on under `next dev` and off otherwise)
+ */
+export function isDebugWithoutKeyAllowed(): boolean {
+  const value = (process.env.ALLOW_DEBUG_WITHOUT_KEY || '').toLowerCase();
+  if (value) return value === 'true';
+  return process.env.NODE_ENV === 'development';
+}
+
+/**
+ * Origins allowed to call the API from a browser without an API key
+ * (CORS_ALLOWED_ORIGINS, comma-separated; "*" allows any origin)
+ */
+export function getCorsAllowedOrigins(): string[] {
+  return (process.env.CORS_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean);
+}
+
+/**
+ * List the environment variables the selected providers need
+ */
+export function getRequiredEnvVars(): string[] {
+  const required: string[] = [];
+  if (getModelProvider() === 'openai') {
+    required.push('OPENAI_API_KEY');
+  }
+  if (getVectorStoreProvider() === 'pinecone') {
+    required.push('PINECONE_API_KEY', 'PINECONE_INDEX');
+  }
+  return required;
+}
@@ -0,0 +1,64 @@
+import type { ApiErrorCode } from './apiSchema';
+
+/**
+ * Failure with a stable API error code. The message is shown to clients, so it
+ * must not contain internals; the original error stays in `cause` for the logs.
+ */
+export class RAGError extends Error {
+  readonly code: ApiErrorCode;
+
+  constructor(code: ApiErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+    this.code = code;
+  }
+}
+
+/** A model or vector store call ran out of time, or was aborted by the latency budget */
+export class UpstreamTimeoutError extends RAGError {
+  constructor(message: string = 'The answer took too long to generate. Please try again.', options?: { cause?: unknown }) {
+    super('upstream_timeout', message, options);
+  }
+}
+
+/** Every vector store query failed, so there is nothing to answer from */
+export class VectorStoreUnavailableError extends RAGError {
+  constructor(message: string = 'The knowledge base is temporarily unavailable. Please try again later.', options?: { cause?: unknown }) {
+    super('vector_store_unavailable', message, options);
+  }
+}
+
+/** A provider is unknown or missing the environment variables it needs */
+export class ConfigError extends RAGError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('configuration_error', message, options);
+  }
+}
+
+/** The model provider refused the question or the answer under its content policy */
+export class ContentBlockedError extends RAGError {
+  constructor(message: string = 'This request was blocked by the content policy.', options?: { cause?: unknown }) {
+    super('content_blocked', message, options);
+  }
+}
+
+/** A request body went past its size limit while it was being read */
+export class PayloadTooLargeError extends RAGError {
+  constructor(maxBytes: number, options?: { cause?: unknown }) {
+    super('payload_too_large', `Request body must be at most ${maxBytes} bytes.`, options);
+  }
+}
+
+/**
+ * Ingestion failed after it started writing vectors. The vectors in
+ * `vectorIds` may no longer match the ingest manifest and need repairing.
+ */
+export class IngestError extends Error {
+  readonly vectorIds: string[];
+
+  constructor(message: string, vectorIds: string[], options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+    this.vectorIds = vectorIds;
+  }
+}
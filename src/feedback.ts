@@ -0,0 +1,153 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FeedbackRating } from './apiSchema';
+import { getFeedbackStoreProvider } from './config';
+import type { RAGSource } from './rag';
+import { Conversation, toHistory } from './sessions';
+
+/** A user's rating of one answer, with everything needed to replay the question */
+export interface FeedbackRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  rating: FeedbackRating;
+  correction?: string;
+  conversationId: string;
+  /** Trace of the request that produced the answer, for finding its logs */
+  traceId: string;
+  apiKeyId?: string;
+  query: string;
+  answer: string;
+  sources: RAGSource[];
+  /** Turns before the question, so follow-ups can be replayed */
+  history: Array<{ role: string; content: string }>;
+}
+
+export interface FeedbackStore {
+  /** Rating an answer again replaces its earlier feedback */
+  save(record: FeedbackRecord): Promise<FeedbackRecord>;
+  /** Most recent first */
+  list(): Promise<FeedbackRecord[]>;
+}
+
+// Enough context to replay a follow-up without copying whole conversations
+const MAX_HISTORY_MESSAGES = 20;
+
+function isSameAnswer(a: FeedbackRecord, b: FeedbackRecord): boolean {
+  return a.conversationId === b.conversationId && a.traceId === b.traceId;
+}
+
+// Keep the identity of the first rating when an answer is rated again
+function merge(existing: FeedbackRecord | undefined, record: FeedbackRecord): FeedbackRecord {
+  return existing ? { ...record, id: existing.id, createdAt: existing.createdAt } : record;
+}
+
+function byMostRecent(a: FeedbackRecord, b: FeedbackRecord): number {
+  return b.updatedAt.localeCompare(a.updatedAt);
+}
+
+/**
+ * Build feedback for the answer a conversation received in trace `traceId`.
+ * Returns null when the conversation has no such answer.
+ */
+export function createFeedback(
+  conversation: Conversation,
+  traceId: string,
+  rating: FeedbackRating,
+  correction?: string
+): FeedbackRecord | null {
+  const answerIndex = conversation.messages.findIndex(
+    message => message.role === 'assistant' && message.traceId === traceId
+  );
+  const questionIndex = answerIndex - 1;
+  if (answerIndex === -1 || conversation.messages[questionIndex]?.role !== 'user') return null;
+
+  const answer = conversation.messages[answerIndex];
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    rating,
+    ...(correction ? { correction } : {}),
+    conversationId: conversation.id,
+    traceId,
+    ...(conversation.apiKeyId ? { apiKeyId: conversation.apiKeyId } : {}),
+    query: conversation.messages[questionIndex].content,
+    answer: answer.content,
+    sources: answer.sources || [],
+    history: toHistory({ ...conversation, messages: conversation.messages.slice(0, questionIndex) })
+      .slice(-MAX_HISTORY_MESSAGES),
+  };
+}
+
+/**
+ * Feedback kept in process memory; lost on restart
+ */
+export function createMemoryFeedbackStore(): FeedbackStore {
+  const records: FeedbackRecord[] = [];
+
+  return {
+    async save(record) {
+      const index = records.findIndex(existing => isSameAnswer(existing, record));
+      const saved = merge(records[index], record);
+      if (index === -1) {
+        records.push(saved);
+      } else {
+        records[index] = saved;
+      }
+      return { ...saved };
+    },
+
+    async list() {
+      return records.map(record => ({ ...record })).sort(byMostRecent);
+    },
+  };
+}
+
+/**
+ * Feedback persisted to a JSON file, for a single long-running server and for
+ * exporting with `npm run feedback`
+ */
+export function createFileFeedbackStore(filePath: string): FeedbackStore {
+  const read = (): FeedbackRecord[] =>
+    fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : [];
+
+  return {
+    async save(record) {
+      const records = read();
+      const index = records.findIndex(existing => isSameAnswer(existing, record));
+      const saved = merge(records[index], record);
+      if (index === -1) {
+        records.push(saved);
+      } else {
+        records[index] = saved;
+      }
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(records, null, 2));
+      return saved;
+    },
+
+    async list() {
+      return read().sort(byMostRecent);
+    },
+  };
+}
+
+export function getFeedbackStorePath(): string {
+  return path.resolve(process.cwd(), process.env.FEEDBACK_STORE_PATH || 'data/feedback.json');
+}
+
+let memoryFeedbackStore: FeedbackStore | null = null;
+
+/**
+ * Feedback store for the provider selected by FEEDBACK_STORE
+ */
+export function getFeedbackStore(): FeedbackStore {
+  if (getFeedbackStoreProvider() === 'file') {
+    return createFileFeedbackStore(getFeedbackStorePath());
+  }
+  memoryFeedbackStore = memoryFeedbackStore || createMemoryFeedbackStore();
+  return memoryFeedbackStore;
+}
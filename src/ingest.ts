@@ -0,0 +1,667 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { Catalog, buildCatalogSheet, getCatalogPath, getRowMetadata, saveCatalog } from './catalog';
+import { getVectorStoreProvider } from './config';
+import { IngestError } from './errors';
+import { buildLexicalIndex, getLexicalIndexPath, saveLexicalIndex } from './lexicalIndex';
+import {
+  IngestChunk,
+  IngestDiff,
+  IngestManifest,
+  IngestRun,
+  appendIngestRun,
+  computeIndexVersion,
+  diffChunks,
+  getChunkId,
+  getIndexVersionPath,
+  getIngestHistoryPath,
+  getManifestPath,
+  loadIngestHistory,
+  loadManifest,
+  saveIndexVersion,
+  saveManifest,
+  toManifestEntry,
+} from './manifest';
+import { getEmbeddingModel } from './models';
+import { getVectorStore } from './vectorStore';
+
+export type IngestStage = 'reading' | 'chunking' | 'comparing' | 'embedding' | 'updating' | 'indexing' | 'publishing';
+
+/** Where a run is; while embedding, `processed` and `total` count chunks */
+export interface IngestProgress {
+  stage: IngestStage;
+  processed?: number;
+  total?: number;
+}
+
+export interface IngestOptions {
+  /** Print the add/update/delete summary without writing anything */
+  dryRun?: boolean;
+  /** Re-embed every chunk instead of only changed ones */
+  full?: boolean;
+  /** Vectors a failed run wrote; re-embedded when still current, deleted otherwise */
+  repairIds?: string[];
+  /** Receives the progress lines the CLI prints */
+  log?: (message: string) => void;
+  onProgress?: (progress: IngestProgress) => void;
+}
+
+export interface IngestResult {
+  diff: IngestDiff;
+  /** The recorded run, or null for a dry run */
+  run: IngestRun | null;
+}
+
+/** An input file; `source` overrides the name its chunks are cited and keyed by */
+export interface SourceFile {
+  path: string;
+  source?: string;
+}
+
+/** A source file copied aside when its ingestion was published, for rollbacks */
+export interface ArchivedSource {
+  /** Path relative to the working directory, as in IngestRun.files */
+  file: string;
+  archivedAs: string;
+}
+
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.csv'];
+
+// Sources of this many recent index versions are kept for rollbacks
+const MAX_ARCHIVED_VERSIONS = 5;
+const EMBED_BATCH_SIZE = 100;
+
+/**
+ * Identify the vector store being written, so a manifest is only reused for the same target
+ */
+export function getIngestTarget(): string {
+  switch (getVectorStoreProvider()) {
+    case 'pinecone':
+      return `pinecone:${process.env.PINECONE_INDEX}`;
+    case 'local':
+      return `local:${path.resolve(process.cwd(), process.env.LOCAL_VECTOR_STORE_PATH || 'data/vectors.json')}`;
+    default:
+      return 'memory';
+  }
+}
+
+// Token estimation (rough: 1 token ≈ 4 characters)
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Chunk text into 500-900 token chunks
+function chunkText(text: string, maxTokens: number = 800): string[] {
+  const chunks: string[] = [];
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  let currentChunk = '';
+
+  for (const sentence of sentences) {
+    const sentenceTokens = estimateTokens(sentence);
+    const currentTokens = estimateTokens(currentChunk);
+
+    if (currentTokens + sentenceTokens > maxTokens && currentChunk) {
+      chunks.push(currentChunk.trim());
+      currentChunk = sentence;
+    } else {
+      currentChunk += (currentChunk ? ' ' : '') + sentence;
+    }
+  }
+
+  if (currentChunk.trim()) {
+    chunks.push(currentChunk.trim());
+  }
+
+  return chunks.filter(chunk => chunk.length > 0);
+}
+
+// Clean and normalize text
+function cleanText(text: string): string {
+  return text
+    .replace(/\s+/g, ' ') // Normalize spaces
+    .replace(/\n+/g, ' ') // Replace newlines with spaces
+    .trim();
+}
+
+// Convert sheet rows (header row as keys) to clean text chunks
+function processSheet(sheetName: string, jsonData: Array<Record<string, any>>): Array<{ text: string; metadata: any }> {
+  const chunks: Array<{ text: string; metadata: any }> = [];
+  
+  // Process each row
+  for (let i = 0; i < jsonData.length; i++) {
+    const row = jsonData[i];
+    
+    // Filter out empty rows
+    const hasData = Object.values(row).some((val: any) => 
+      val !== null && val !== undefined && String(val).trim() !== ''
+    );
+    
+    if (!hasData) continue;
+
+    // Convert row to structured text
+    const rowText = Object.entries(row)
+      .map(([key, value]) => {
+        const val = String(value || '').trim();
+        return val ? `${key}: ${val}` : '';
+      })
+      .filter(Boolean)
+      .join(' | ');
+
+    if (rowText) {
+      const cleanedText = cleanText(rowText);
+      chunks.push({
+        text: cleanedText,
+        metadata: {
+          sheet: sheetName,
+          row: i + 2, // +2 because Excel is 1-indexed and we have headers
+          rowIndex: i,
+        }
+      });
+    }
+  }
+
+  // Also create larger chunks for better context
+  const allText = chunks.map(c => c.text).join(' | ');
+  const largeChunks = chunkText(allText, 800);
+  
+  // Return both row-level and chunk-level data
+  const result: Array<{ text: string; metadata: any }> = [];
+  
+  // Add row-level chunks
+  for (const chunk of chunks) {
+    if (estimateTokens(chunk.text) >= 50) { // Only include substantial rows
+      result.push(chunk);
+    }
+  }
+  
+  // Add larger context chunks
+  for (let i = 0; i < largeChunks.length; i++) {
+    result.push({
+      text: largeChunks[i],
+      metadata: {
+        sheet: sheetName,
+        chunkIndex: i,
+        type: 'context_chunk',
+      }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * A tabular source (spreadsheet sheet, CSV, JSON array) goes through row chunking
+ * and the product catalog; a text source (Markdown, PDF) is split into sections.
+ * `sheet` and `row` keep the same meaning for citations: file/sheet name and the
+ * spreadsheet row, Markdown heading line or PDF page.
+ */
+export interface TableDocument {
+  kind: 'table';
+  source: string;
+  sheet: string;
+  records: Array<Record<string, any>>;
+}
+
+export interface TextDocument {
+  kind: 'text';
+  source: string;
+  sheet: string;
+  type: 'section' | 'page' | 'document';
+  sections: Array<{ text: string; row: number; metadata?: Record<string, any> }>;
+}
+
+export type SourceDocument = TableDocument | TextDocument;
+// `source` is the name chunks are cited and keyed by, normally the path relative to the working directory
+type Loader = (filePath: string, source: string) => Promise<SourceDocument[]>;
+
+// Split long text sections into context-sized chunks that keep the section's source row
+function processTextDocument(doc: TextDocument): Array<{ text: string; metadata: any }> {
+  const result: Array<{ text: string; metadata: any }> = [];
+
+  for (const section of doc.sections) {
+    const pieces = chunkText(cleanText(section.text), 800);
+    pieces.forEach((piece, i) => {
+      result.push({
+        text: piece,
+        metadata: {
+          sheet: doc.sheet,
+          row: section.row,
+          chunkIndex: i,
+          type: doc.type,
+          ...section.metadata,
+        },
+      });
+    });
+  }
+
+  return result;
+}
+
+export function toSourceName(filePath: string): string {
+  return path.relative(process.cwd(), filePath) || path.basename(filePath);
+}
+
+async function loadSpreadsheet(filePath: string, source: string): Promise<SourceDocument[]> {
+  const isCsv = path.extname(filePath).toLowerCase() === '.csv';
+  // raw keeps CSV cells as text, otherwise SKUs like "1-01-093" are parsed as dates
+  const workbook = XLSX.readFile(filePath, { raw: isCsv });
+
+  return workbook.SheetNames.map(sheetName => ({
+    kind: 'table' as const,
+    source,
+    // A CSV has a single unnamed sheet; cite it by file name instead of "Sheet1"
+    sheet: isCsv ? path.basename(source) : sheetName,
+    records: XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { defval: '' }),
+  }));
+}
+
+async function loadJson(filePath: string, source: string): Promise<SourceDocument[]> {
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const fileName = path.basename(source);
+  const isRecordArray = (value: any) =>
+    Array.isArray(value) && value.length > 0 && value.every(item => item && typeof item === 'object' && !Array.isArray(item));
+
+  // [{...}, {...}] is one table; { "faqs": [{...}], "prices": [{...}] } is one table per key
+  if (isRecordArray(data)) {
+    return [{ kind: 'table', source, sheet: fileName, records: data }];
+  }
+  if (data && typeof data === 'object' && Object.values(data).every(isRecordArray)) {
+    return Object.entries(data).map(([key, records]) => ({
+      kind: 'table' as const,
+      source,
+      sheet: `${fileName} ${key}`,
+      records: records as Array<Record<string, any>>,
+    }));
+  }
+
+  return [{
+    kind: 'text',
+    source,
+    sheet: fileName,
+    type: 'document',
+    sections: [{ text: JSON.stringify(data, null, 2), row: 1 }],
+  }];
+}
+
+async function loadMarkdown(filePath: string, source: string): Promise<SourceDocument[]> {
+  const lines = fs.readFileSync(filePath, 'utf-8').split(/\r?\n/);
+  const sections: TextDocument['sections'] = [];
+  let current = { heading: '', row: 1, lines: [] as string[] };
+
+  const flush = () => {
+    const text = current.lines.join('\n').trim();
+    if (text) {
+      sections.push({ text, row: current.row, metadata: current.heading ? { section: current.heading } : {} });
+    }
+  };
+
+  lines.forEach((line, i) => {
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      flush();
+      current = { heading: heading[1].trim(), row: i + 1, lines: [] };
+    }
+    current.lines.push(line);
+  });
+  flush();
+
+  return [{ kind: 'text', source, sheet: path.basename(source), type: 'section', sections }];
+}
+
+async function loadPdf(filePath: string, source: string): Promise<SourceDocument[]> {
+  // Import the library entry directly: the package index runs a debug harness when loaded standalone
+  const pdfParse: typeof import('pdf-parse') = require('pdf-parse/lib/pdf-parse.js');
+  const pages: string[] = [];
+
+  // pdf.js misreads Node Buffers (their slice() shares memory), so hand it a plain Uint8Array copy
+  const data = new Uint8Array(fs.readFileSync(filePath)) as unknown as Buffer;
+
+  await pdfParse(data, {
+    // Pages are rendered in order; capture each one separately so chunks can cite it
+    pagerender: async (pageData: any) => {
+      const content = await pageData.getTextContent();
+      const text = content.items.map((item: any) => item.str).join(' ');
+      pages.push(text);
+      return text;
+    },
+  });
+
+  return [{
+    kind: 'text',
+    source,
+    sheet: path.basename(source),
+    type: 'page',
+    sections: pages
+      .map((text, i) => ({ text, row: i + 1, metadata: { page: i + 1 } }))
+      .filter(section => section.text.trim().length > 0),
+  }];
+}
+
+// Loaders by file extension
+const LOADERS: Record<string, Loader> = {
+  '.xlsx': loadSpreadsheet,
+  '.xls': loadSpreadsheet,
+  '.csv': loadSpreadsheet,
+  '.json': loadJson,
+  '.md': loadMarkdown,
+  '.markdown': loadMarkdown,
+  '.pdf': loadPdf,
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(LOADERS);
+
+export function isSupportedFile(filePath: string): boolean {
+  return Boolean(LOADERS[path.extname(filePath).toLowerCase()]);
+}
+
+export function isSpreadsheetFile(filePath: string): boolean {
+  return SPREADSHEET_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Where the knowledge base spreadsheet is looked for when no inputs are given
+ */
+export function getDefaultSourcePaths(): string[] {
+  return [
+    path.join(process.cwd(), 'Products Data.xlsx'),
+    path.join(process.cwd(), 'data', 'knowledge.xlsx'),
+    path.join(process.cwd(), 'knowledge.xlsx'),
+  ];
+}
+
+export function findDefaultSource(): string | null {
+  return getDefaultSourcePaths().find(p => fs.existsSync(p)) || null;
+}
+
+/**
+ * Read source files into documents, one per sheet, table or text file
+ */
+export async function loadSources(files: SourceFile[], log: (message: string) => void = () => {}): Promise<SourceDocument[]> {
+  const documents: SourceDocument[] = [];
+  for (const file of files) {
+    const extension = path.extname(file.path).toLowerCase();
+    log(`📖 Reading ${extension.slice(1).toUpperCase()} file: ${file.path}`);
+    documents.push(...await LOADERS[extension](file.path, file.source || toSourceName(file.path)));
+  }
+  return documents;
+}
+
+/**
+ * Turn documents into chunks with stable IDs, and tables into the product catalog
+ */
+export function buildChunks(
+  documents: SourceDocument[],
+  log: (message: string) => void = () => {}
+): { chunks: IngestChunk[]; catalog: Catalog } {
+  const allChunks: IngestChunk[] = [];
+  const catalog: Catalog = { generatedAt: new Date().toISOString(), sheets: [], rows: [] };
+
+  for (const doc of documents) {
+    if (doc.kind === 'text') {
+      log(`\n📄 Processing document: ${doc.sheet}`);
+      const chunks = processTextDocument(doc);
+      for (const chunk of chunks) {
+        allChunks.push({
+          id: getChunkId(doc.sheet, chunk.metadata.type, `${doc.source}#${chunk.text}`),
+          text: chunk.text,
+          metadata: { text: chunk.text, source: doc.source, ...chunk.metadata },
+        });
+      }
+      log(`   Generated ${chunks.length} chunks`);
+      continue;
+    }
+
+    const sheetName = doc.sheet;
+    log(`\n📄 Processing sheet: ${sheetName}`);
+    const chunks = processSheet(sheetName, doc.records);
+
+    // Keep a typed copy of the rows for exact lookups
+    const { sheet, rows } = buildCatalogSheet(sheetName, doc.records);
+    catalog.sheets.push(sheet);
+    catalog.rows.push(...rows);
+    log(`   Catalogued ${rows.length} rows (${sheet.columns.map(c => `${c.name}:${c.type}`).join(', ')})`);
+
+    // Attach row attributes to row chunks so retrieval can use metadata filters,
+    // and key row chunks by their identifier (e.g. SKU) so IDs survive re-ordering
+    const rowsByNumber = new Map(rows.map(row => [row.row, row]));
+    const keyColumn = sheet.columns.find(column => column.identifier);
+    for (const chunk of chunks) {
+      const type = chunk.metadata.type || 'row';
+      const row = rowsByNumber.get(chunk.metadata.row);
+      let key = chunk.text;
+      if (row) {
+        Object.assign(chunk.metadata, getRowMetadata(sheet, row));
+        if (keyColumn && row.values[keyColumn.name] !== undefined) {
+          key = `${keyColumn.name}=${row.values[keyColumn.name]}`;
+        }
+      }
+
+      allChunks.push({
+        id: getChunkId(sheetName, type, `${doc.source}#${key}`),
+        text: chunk.text,
+        metadata: { text: chunk.text, source: doc.source, ...chunk.metadata },
+      });
+    }
+
+    log(`   Generated ${chunks.length} chunks`);
+  }
+
+  // Identical chunks share an ID; keep one of each
+  const chunks = Array.from(new Map(allChunks.map(chunk => [chunk.id, chunk])).values());
+  return { chunks, catalog };
+}
+
+/**
+ * Manifest of the last ingestion into the current vector store
+ */
+export function loadIngestManifest(target: string = getIngestTarget(), filePath: string = getManifestPath()): IngestManifest {
+  // The memory store starts empty in every process, so there is nothing to diff against
+  return getVectorStoreProvider() === 'memory'
+    ? { target, updatedAt: '', entries: {} }
+    : loadManifest(target, filePath);
+}
+
+/**
+ * Ingest `files` into the vector store: embed new and changed chunks, delete
+ * vanished ones, then publish the catalog, lexical index, manifest and a new
+ * index version, archive the sources and record the run in the history.
+ * Failing after the first vector write throws an IngestError listing the
+ * vectors to repair.
+ */
+export async function runIngest(files: string[], options: IngestOptions = {}): Promise<IngestResult> {
+  const log = options.log || (() => {});
+  const progress = options.onProgress || (() => {});
+  const startedAt = new Date().toISOString();
+
+  progress({ stage: 'reading' });
+  const documents = await loadSources(files.map(file => ({ path: file })), log);
+  log(`📊 Found ${documents.length} source(s): ${documents.map(doc => doc.sheet).join(', ')}`);
+
+  progress({ stage: 'chunking' });
+  const { chunks, catalog } = buildChunks(documents, log);
+
+  // Compare with what was ingested last time
+  progress({ stage: 'comparing' });
+  const target = getIngestTarget();
+  const manifestPath = getManifestPath();
+  const diff = diffChunks(chunks, loadIngestManifest(target, manifestPath), options.full, options.repairIds);
+
+  log(`\n📦 Total chunks: ${chunks.length}`);
+  log(`   ➕ Add:      ${diff.add.length}`);
+  log(`   ✏️  Update:   ${diff.update.length} re-embedded, ${diff.updateMetadata.length} metadata only`);
+  log(`   🗑️  Delete:   ${diff.delete.length}`);
+  log(`   ⏸️  Unchanged: ${diff.unchanged}`);
+
+  if (options.dryRun) {
+    log('\n🔍 Dry run: no changes written.');
+    return { diff, run: null };
+  }
+
+  // Vectors are written first; the catalog, lexical index and manifest only once they all succeed
+  const written: string[] = [];
+  let indexVersion: string;
+  try {
+    // Embed and upsert new and changed chunks in batches
+    const embeddingModel = getEmbeddingModel();
+    const vectorStore = getVectorStore();
+    const toEmbed = [...diff.add, ...diff.update];
+    let processed = 0;
+    progress({ stage: 'embedding', processed, total: toEmbed.length });
+
+    for (let i = 0; i < toEmbed.length; i += EMBED_BATCH_SIZE) {
+      const batch = toEmbed.slice(i, i + EMBED_BATCH_SIZE);
+      log(`\n🔄 Processing batch ${Math.floor(i / EMBED_BATCH_SIZE) + 1}/${Math.ceil(toEmbed.length / EMBED_BATCH_SIZE)}`);
+
+      // One embedding request per batch
+      const embeddings = await embeddingModel.embedBatch(batch.map(chunk => chunk.text));
+      const vectors = batch.map((chunk, idx) => ({
+        id: chunk.id,
+        values: embeddings[idx],
+        metadata: chunk.metadata,
+      }));
+
+      written.push(...vectors.map(vector => vector.id));
+      await vectorStore.upsert(vectors);
+      processed += batch.length;
+      log(`   ✅ Upserted ${batch.length} vectors (${processed}/${toEmbed.length} total)`);
+      progress({ stage: 'embedding', processed, total: toEmbed.length });
+
+      // Rate limiting - small delay between batches
+      if (i + EMBED_BATCH_SIZE < toEmbed.length) {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
+
+    progress({ stage: 'updating' });
+    for (const chunk of diff.updateMetadata) {
+      written.push(chunk.id);
+      await vectorStore.updateMetadata(chunk.id, chunk.metadata);
+    }
+    if (diff.updateMetadata.length > 0) {
+      log(`\n✏️  Updated metadata for ${diff.updateMetadata.length} vectors`);
+    }
+
+    if (diff.delete.length > 0) {
+      written.push(...diff.delete);
+      await vectorStore.delete(diff.delete);
+      log(`\n🗑️  Deleted ${diff.delete.length} vanished vectors`);
+    }
+
+    progress({ stage: 'indexing' });
+    const catalogPath = getCatalogPath();
+    saveCatalog(catalog, catalogPath);
+    log(`\n🗂️  Saved product catalog to ${catalogPath}`);
+
+    // The lexical index is cheap to build, so it always covers the full chunk set
+    const lexicalIndexPath = getLexicalIndexPath();
+    saveLexicalIndex(buildLexicalIndex(chunks), lexicalIndexPath);
+    log(`🔤 Saved lexical index to ${lexicalIndexPath}`);
+
+    progress({ stage: 'publishing' });
+    const entries = Object.fromEntries(chunks.map(chunk => [chunk.id, toManifestEntry(chunk)]));
+    saveManifest({
+      target,
+      updatedAt: new Date().toISOString(),
+      entries,
+    }, manifestPath);
+    log(`\n📝 Saved ingest manifest to ${manifestPath}`);
+
+    // Cached answers are keyed by this version, so publishing it invalidates them
+    indexVersion = computeIndexVersion(entries);
+    saveIndexVersion(indexVersion, getIndexVersionPath());
+    log(`🏷️  Published index version ${indexVersion}`);
+  } catch (error) {
+    if (written.length === 0) throw error;
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new IngestError(`${reason} (after writing ${written.length} vectors)`, written, { cause: error });
+  }
+
+  const run: IngestRun = {
+    version: indexVersion,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    files: files.map(toSourceName),
+    chunks: chunks.length,
+    added: diff.add.length,
+    updated: diff.update.length,
+    metadataUpdated: diff.updateMetadata.length,
+    deleted: diff.delete.length,
+    unchanged: diff.unchanged,
+    catalogRows: catalog.rows.length,
+  };
+
+  // The index is already published, so a failed archive only costs the rollback
+  try {
+    archiveSources(indexVersion, files);
+    log(`🗄️  Archived sources to ${path.join(getIngestArchiveDir(), indexVersion)}`);
+  } catch (error) {
+    log(`⚠️  Could not archive sources: ${error instanceof Error ? error.message : error}`);
+  }
+  appendIngestRun(run, getIngestHistoryPath());
+  pruneArchives(loadIngestHistory(getIngestHistoryPath()));
+
+  return { diff, run };
+}
+
+/**
+ * Resolve the source archive directory (INGEST_ARCHIVE_DIR, default data/ingest-archive)
+ */
+export function getIngestArchiveDir(): string {
+  return path.resolve(process.cwd(), process.env.INGEST_ARCHIVE_DIR || 'data/ingest-archive');
+}
+
+function isIndexVersion(version: string): boolean {
+  return /^[0-9a-f]{16}$/.test(version);
+}
+
+/**
+ * Copy the files a version was built from, so it can be rebuilt after later uploads replace them
+ */
+function archiveSources(version: string, files: string[], archiveDir: string = getIngestArchiveDir()): void {
+  const dir = path.join(archiveDir, version);
+  fs.rmSync(dir, { recursive: true, force: true });
+  fs.mkdirSync(dir, { recursive: true });
+
+  const sources: ArchivedSource[] = files.map((file, i) => ({
+    file: toSourceName(file),
+    archivedAs: `${i}-${path.basename(file)}`,
+  }));
+  files.forEach((file, i) => fs.copyFileSync(file, path.join(dir, sources[i].archivedAs)));
+  fs.writeFileSync(path.join(dir, 'sources.json'), JSON.stringify(sources, null, 2));
+}
+
+// Keep the archives of the most recent versions in the history
+function pruneArchives(runs: IngestRun[], archiveDir: string = getIngestArchiveDir()): void {
+  if (!fs.existsSync(archiveDir)) return;
+  const keep = new Set(Array.from(new Set(runs.map(run => run.version))).slice(0, MAX_ARCHIVED_VERSIONS));
+  for (const entry of fs.readdirSync(archiveDir)) {
+    if (isIndexVersion(entry) && !keep.has(entry)) {
+      fs.rmSync(path.join(archiveDir, entry), { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Sources archived for an index version, or null when it has no archive
+ */
+export function loadArchivedSources(version: string, archiveDir: string = getIngestArchiveDir()): ArchivedSource[] | null {
+  const listPath = path.join(archiveDir, version, 'sources.json');
+  if (!isIndexVersion(version) || !fs.existsSync(listPath)) return null;
+  return JSON.parse(fs.readFileSync(listPath, 'utf-8'));
+}
+
+/**
+ * Copy a version's archived sources back over the working files; returns their paths
+ */
+export function restoreArchivedSources(version: string, archiveDir: string = getIngestArchiveDir()): string[] {
+  const sources = loadArchivedSources(version, archiveDir);
+  if (!sources) throw new Error(`No archived sources for index version ${version}`);
+
+  return sources.map(source => {
+    const filePath = path.resolve(process.cwd(), source.file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.copyFileSync(path.join(archiveDir, version, source.archivedAs), filePath);
+    return filePath;
+  });
+}
@@ -0,0 +1,615 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AskRequestError } from './apiSchema';
+import { CatalogRow, CatalogSheet, CatalogValue, buildCatalogSheet, getCatalogPath } from './catalog';
+import { getRequestLimits } from './config';
+import { IngestError } from './errors';
+import {
+  IngestProgress,
+  IngestStage,
+  SourceDocument,
+  TableDocument,
+  buildChunks,
+  findDefaultSource,
+  isSpreadsheetFile,
+  loadArchivedSources,
+  loadIngestManifest,
+  loadSources,
+  restoreArchivedSources,
+  runIngest,
+  toSourceName,
+} from './ingest';
+import { getLexicalIndexPath } from './lexicalIndex';
+import { logger } from './logger';
+import { IngestRun, diffChunks, loadIndexVersion, loadIngestHistory } from './manifest';
+
+/** A difference between an upload's headers and the sheet it replaces; errors block re-indexing */
+export interface SchemaIssue {
+  level: 'error' | 'warning';
+  sheet?: string;
+  column?: string;
+  message: string;
+}
+
+/** A row added, removed or changed by an upload, keyed by its identifier (e.g. SKU) */
+export interface RowChange {
+  key: string;
+  row: number;
+  /** Changed cells; only for changed rows */
+  fields?: Array<{ column: string; before?: CatalogValue; after?: CatalogValue }>;
+}
+
+export interface SheetRowDiff {
+  sheet: string;
+  /** Column rows are matched by; without one they are matched by row number */
+  keyColumn?: string;
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  /** The first few rows of each kind */
+  samples: { added: RowChange[]; removed: RowChange[]; changed: RowChange[] };
+}
+
+/** What applying an upload would change, computed without embedding anything */
+export interface UploadPreview {
+  id: string;
+  createdAt: string;
+  /** Name of the uploaded file */
+  fileName: string;
+  size: number;
+  /** Knowledge base file the upload replaces, relative to the working directory */
+  target: string;
+  schema: SchemaIssue[];
+  rows: SheetRowDiff[];
+  /** Vector changes across the whole knowledge base, as `npm run ingest -- --dry-run` reports them */
+  chunks: { add: number; update: number; updateMetadata: number; delete: number; unchanged: number };
+  /** Other sources of the last ingestion that no longer exist; their chunks will be deleted */
+  missingFiles: string[];
+}
+
+export type IngestJobStatus = 'running' | 'succeeded' | 'failed';
+
+/** A background re-index, from an upload or a rollback */
+export interface IngestJob {
+  id: string;
+  kind: 'upload' | 'rollback';
+  status: IngestJobStatus;
+  createdAt: string;
+  finishedAt?: string;
+  uploadId?: string;
+  fileName?: string;
+  /** Index version being restored */
+  rollbackTo?: string;
+  /** Index version when the job started */
+  previousVersion: string;
+  publishedVersion?: string;
+  progress: IngestProgress & { percent: number };
+  /** Progress lines, as `npm run ingest` prints them */
+  log: string[];
+  error?: string;
+}
+
+export interface KnowledgeBaseStatus {
+  indexVersion: string;
+  /** Spreadsheets an upload can replace; the first is the default */
+  targets: string[];
+  maxUploadBytes: number;
+  /** Why this server cannot run uploads and jobs, when it cannot */
+  uploadsUnavailable?: string;
+  /** Most recent first; `canRollback` when the run's sources are archived */
+  runs: Array<IngestRun & { canRollback: boolean }>;
+  /** Jobs since the server started, most recent first */
+  jobs: IngestJob[];
+}
+
+type Result<T> = { value: T; error?: undefined } | { value?: undefined; error: AskRequestError };
+
+interface ParsedSheet {
+  sheet: CatalogSheet;
+  rows: CatalogRow[];
+}
+
+const SAMPLE_LIMIT = 20;
+const RUN_LIMIT = 20;
+const MAX_JOBS = 20;
+const MAX_JOB_LOG_LINES = 200;
+// Previews that are not applied within a day are deleted
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+const UPLOAD_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+// Share of the progress bar reached when each stage starts; embedding fills 15-85%
+const STAGE_PERCENT: Record<IngestStage, number> = {
+  reading: 5,
+  chunking: 10,
+  comparing: 15,
+  embedding: 15,
+  updating: 85,
+  indexing: 90,
+  publishing: 95,
+};
+
+/**
+ * Why uploads and jobs cannot run on this server, or null when they can. Jobs
+ * outlive the request that starts them and write to the working directory;
+ * serverless functions are frozen after the response, have a read-only disk
+ * and keep a separate job list per instance.
+ */
+export function getUploadsUnavailableReason(): string | null {
+  if (process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME) {
+    return 'Knowledge base uploads need a long-running server with a writable disk. On serverless deployments, run npm run ingest and redeploy.';
+  }
+  return null;
+}
+
+function checkUploadsAvailable(): AskRequestError | null {
+  const reason = getUploadsUnavailableReason();
+  return reason ? { code: 'configuration_error', message: reason } : null;
+}
+
+/**
+ * Resolve where uploads wait for review (INGEST_UPLOAD_DIR, default data/uploads)
+ */
+export function getUploadDir(): string {
+  return path.resolve(process.cwd(), process.env.INGEST_UPLOAD_DIR || 'data/uploads');
+}
+
+/**
+ * Spreadsheets of the last ingestion, or the default knowledge base file before the first one
+ */
+export function getKnowledgeBaseTargets(runs: IngestRun[] = loadIngestHistory()): string[] {
+  const spreadsheets = (runs[0]?.files || []).filter(isSpreadsheetFile);
+  if (spreadsheets.length > 0) return spreadsheets;
+  const defaultSource = findDefaultSource();
+  return [defaultSource ? toSourceName(defaultSource) : 'Products Data.xlsx'];
+}
+
+// An upload only replaces one file; the rest of the last ingestion is re-read as it is
+function getSourceFiles(runs: IngestRun[], target: string): string[] {
+  const files = runs[0]?.files || [];
+  return files.includes(target) ? files : [...files, target];
+}
+
+function resolveFile(file: string): string {
+  return path.resolve(process.cwd(), file);
+}
+
+function toSheets(documents: SourceDocument[]): Map<string, ParsedSheet> {
+  return new Map(documents
+    .filter((doc): doc is TableDocument => doc.kind === 'table')
+    .map(doc => [doc.sheet, buildCatalogSheet(doc.sheet, doc.records)]));
+}
+
+/**
+ * Compare an upload's sheets and headers with the file it replaces. Missing
+ * sheets and columns are errors, since questions and filters rely on them;
+ * new ones and changed column types are warnings.
+ */
+export function checkSchema(before: Map<string, ParsedSheet>, after: Map<string, ParsedSheet>): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  for (const [name, previous] of before) {
+    const current = after.get(name);
+    if (!current) {
+      issues.push({ level: 'error', sheet: name, message: `Sheet "${name}" is missing` });
+      continue;
+    }
+    if (current.rows.length === 0 && previous.rows.length > 0) {
+      issues.push({ level: 'error', sheet: name, message: `Sheet "${name}" has no rows` });
+    }
+
+    const columns = new Map(current.sheet.columns.map(column => [column.name, column]));
+    for (const column of previous.sheet.columns) {
+      const match = columns.get(column.name);
+      if (!match) {
+        issues.push({ level: 'error', sheet: name, column: column.name, message: `Column "${column.name}" is missing` });
+      } else if (match.type !== column.type) {
+        issues.push({
+          level: 'warning',
+          sheet: name,
+          column: column.name,
+          message: `Column "${column.name}" changed from ${column.type} to ${match.type}`,
+        });
+      }
+    }
+
+    const known = new Set(previous.sheet.columns.map(column => column.name));
+    for (const column of current.sheet.columns.filter(column => !known.has(column.name))) {
+      issues.push({ level: 'warning', sheet: name, column: column.name, message: `New column "${column.name}"` });
+    }
+  }
+
+  for (const name of after.keys()) {
+    if (!before.has(name)) issues.push({ level: 'warning', sheet: name, message: `New sheet "${name}"` });
+  }
+  return issues;
+}
+
+function getRowKey(row: CatalogRow, keyColumn: string | undefined): string {
+  return keyColumn && row.values[keyColumn] !== undefined ? String(row.values[keyColumn]) : `row ${row.row}`;
+}
+
+function getChangedFields(before: CatalogRow, after: CatalogRow): RowChange['fields'] {
+  const columns = Array.from(new Set([...Object.keys(before.values), ...Object.keys(after.values)]));
+  return columns
+    .filter(column => String(before.values[column] ?? '') !== String(after.values[column] ?? ''))
+    .map(column => ({ column, before: before.values[column], after: after.values[column] }));
+}
+
+/**
+ * Rows added, removed and changed in one sheet, matched by an identifier
+ * column both versions share (e.g. SKU) so re-ordered rows are not reported
+ */
+export function diffSheetRows(name: string, previous: ParsedSheet | undefined, current: ParsedSheet | undefined): SheetRowDiff {
+  const sharedColumns = new Set(current?.sheet.columns.map(column => column.name));
+  const keyColumn = previous && current
+    ? previous.sheet.columns.find(column => column.identifier && sharedColumns.has(column.name))?.name
+    : (previous || current)?.sheet.columns.find(column => column.identifier)?.name;
+
+  const before = new Map((previous?.rows || []).map(row => [getRowKey(row, keyColumn), row]));
+  const after = new Map((current?.rows || []).map(row => [getRowKey(row, keyColumn), row]));
+  const diff: SheetRowDiff = {
+    sheet: name,
+    ...(keyColumn ? { keyColumn } : {}),
+    added: 0,
+    removed: 0,
+    changed: 0,
+    unchanged: 0,
+    samples: { added: [], removed: [], changed: [] },
+  };
+  const sample = (kind: keyof SheetRowDiff['samples'], change: RowChange) => {
+    if (diff.samples[kind].length < SAMPLE_LIMIT) diff.samples[kind].push(change);
+  };
+
+  for (const [key, row] of after) {
+    const old = before.get(key);
+    if (!old) {
+      diff.added++;
+      sample('added', { key, row: row.row });
+      continue;
+    }
+    const fields = getChangedFields(old, row);
+    if (fields && fields.length > 0) {
+      diff.changed++;
+      sample('changed', { key, row: row.row, fields });
+    } else {
+      diff.unchanged++;
+    }
+  }
+  for (const [key, row] of before) {
+    if (!after.has(key)) {
+      diff.removed++;
+      sample('removed', { key, row: row.row });
+    }
+  }
+  return diff;
+}
+
+// Delete previews nobody applied
+function pruneUploads(uploadDir: string = getUploadDir()): void {
+  if (!fs.existsSync(uploadDir)) return;
+  for (const entry of fs.readdirSync(uploadDir)) {
+    const dir = path.join(uploadDir, entry);
+    if (Date.now() - fs.statSync(dir).mtimeMs > UPLOAD_TTL_MS) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Store an uploaded spreadsheet and preview what applying it would change:
+ * schema issues against the file it replaces, the row diff and the vector diff.
+ * Nothing in the knowledge base is touched until a job applies it.
+ */
+export async function createUpload(fileName: string, data: Buffer, target?: string): Promise<Result<UploadPreview>> {
+  const unavailable = checkUploadsAvailable();
+  if (unavailable) return { error: unavailable };
+
+  const runs = loadIngestHistory();
+  const targets = getKnowledgeBaseTargets(runs);
+  const replaces = target || targets[0];
+  if (!targets.includes(replaces)) {
+    return { error: { code: 'invalid_request', message: `"target" must be one of: ${targets.join(', ')}` } };
+  }
+  const extension = path.extname(fileName).toLowerCase();
+  if (extension !== path.extname(replaces).toLowerCase()) {
+    return { error: { code: 'invalid_request', message: `Upload a ${path.extname(replaces)} file to replace ${replaces}.` } };
+  }
+
+  pruneUploads();
+  const id = randomUUID();
+  const dir = path.join(getUploadDir(), id);
+  const uploadPath = path.join(dir, `upload${extension}`);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(uploadPath, data);
+
+  // Read the upload as if it were already in place, so chunk IDs match the ingestion it leads to
+  let uploaded: Map<string, ParsedSheet>;
+  let uploadedDocuments: SourceDocument[];
+  try {
+    uploadedDocuments = await loadSources([{ path: uploadPath, source: replaces }]);
+    uploaded = toSheets(uploadedDocuments);
+  } catch (error) {
+    fs.rmSync(dir, { recursive: true, force: true });
+    return { error: { code: 'invalid_request', message: `${fileName} could not be read as a spreadsheet.` } };
+  }
+  if (Array.from(uploaded.values()).every(sheet => sheet.rows.length === 0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+    return { error: { code: 'invalid_request', message: `${fileName} has no rows.` } };
+  }
+
+  const targetPath = resolveFile(replaces);
+  const previous = fs.existsSync(targetPath)
+    ? toSheets(await loadSources([{ path: targetPath, source: replaces }]))
+    : new Map<string, ParsedSheet>();
+  const schema = fs.existsSync(targetPath)
+    ? checkSchema(previous, uploaded)
+    : [{ level: 'warning' as const, message: `${replaces} does not exist yet, so there is no previous schema to compare against` }];
+  const sheetNames = Array.from(new Set([...previous.keys(), ...uploaded.keys()]));
+
+  const others = getSourceFiles(runs, replaces).filter(file => file !== replaces);
+  const missingFiles = others.filter(file => !fs.existsSync(resolveFile(file)));
+  const otherDocuments = await loadSources(others
+    .filter(file => !missingFiles.includes(file))
+    .map(file => ({ path: resolveFile(file) })));
+  const { chunks } = buildChunks([...otherDocuments, ...uploadedDocuments]);
+  const chunkDiff = diffChunks(chunks, loadIngestManifest());
+
+  const preview: UploadPreview = {
+    id,
+    createdAt: new Date().toISOString(),
+    fileName: path.basename(fileName),
+    size: data.length,
+    target: replaces,
+    schema,
+    rows: sheetNames.map(name => diffSheetRows(name, previous.get(name), uploaded.get(name))),
+    chunks: {
+      add: chunkDiff.add.length,
+      update: chunkDiff.update.length,
+      updateMetadata: chunkDiff.updateMetadata.length,
+      delete: chunkDiff.delete.length,
+      unchanged: chunkDiff.unchanged,
+    },
+    missingFiles,
+  };
+  fs.writeFileSync(path.join(dir, 'preview.json'), JSON.stringify(preview, null, 2));
+  return { value: preview };
+}
+
+function loadUpload(id: string): { preview: UploadPreview; dir: string; filePath: string } | null {
+  if (!UPLOAD_ID_PATTERN.test(id)) return null;
+  const dir = path.join(getUploadDir(), id);
+  const previewPath = path.join(dir, 'preview.json');
+  if (!fs.existsSync(previewPath)) return null;
+
+  const preview: UploadPreview = JSON.parse(fs.readFileSync(previewPath, 'utf-8'));
+  return { preview, dir, filePath: path.join(dir, `upload${path.extname(preview.target).toLowerCase()}`) };
+}
+
+const jobs: IngestJob[] = [];
+
+function copyJob(job: IngestJob): IngestJob {
+  return { ...job, progress: { ...job.progress }, log: [...job.log] };
+}
+
+export function listIngestJobs(): IngestJob[] {
+  return jobs.map(copyJob);
+}
+
+export function getIngestJob(id: string): IngestJob | null {
+  const job = jobs.find(existing => existing.id === id);
+  return job ? copyJob(job) : null;
+}
+
+function getRunningJob(): IngestJob | undefined {
+  return jobs.find(job => job.status === 'running');
+}
+
+function createJob(kind: IngestJob['kind'], fields: Partial<IngestJob>): IngestJob {
+  const job: IngestJob = {
+    id: randomUUID(),
+    kind,
+    status: 'running',
+    createdAt: new Date().toISOString(),
+    previousVersion: loadIndexVersion(),
+    progress: { stage: 'reading', percent: 0 },
+    log: [],
+    ...fields,
+  };
+  jobs.unshift(job);
+  jobs.splice(MAX_JOBS);
+  return job;
+}
+
+function toJobProgress(progress: IngestProgress): IngestJob['progress'] {
+  if (progress.stage !== 'embedding') return { ...progress, percent: STAGE_PERCENT[progress.stage] };
+  const embedded = progress.total ? (progress.processed || 0) / progress.total : 1;
+  return { ...progress, percent: STAGE_PERCENT.embedding + Math.round(70 * embedded) };
+}
+
+/**
+ * Snapshot the sources a job is about to overwrite, plus the catalog and
+ * lexical index ingestion rewrites once the vectors are written; the returned
+ * function puts them back
+ */
+function backupFiles(sources: string[]): () => void {
+  const saved = [...sources, getCatalogPath(), getLexicalIndexPath()].map(file => ({ file, data: fs.existsSync(file) ? fs.readFileSync(file) : null }));
+  return () => {
+    for (const { file, data } of saved) {
+      if (data) {
+        fs.writeFileSync(file, data);
+      } else {
+        fs.rmSync(file, { force: true });
+      }
+    }
+  };
+}
+
+/**
+ * Re-ingest the restored sources after a failed run, re-embedding or deleting
+ * the vectors it wrote so the store matches the manifest again
+ */
+async function repairVectors(files: string[], error: unknown, log: (message: string) => void): Promise<void> {
+  if (!(error instanceof IngestError)) return;
+  log(`🩹 Repairing ${error.vectorIds.length} vectors the failed run wrote`);
+  try {
+    await runIngest(files.filter(file => fs.existsSync(file)), { repairIds: error.vectorIds, log });
+    log('🩹 The vector store matches the previous index again');
+  } catch (repairError) {
+    const reason = repairError instanceof Error ? repairError.message : String(repairError);
+    log(`⚠️  Could not repair the vectors: ${reason}. Run npm run ingest -- --full once the cause is fixed.`);
+    logger.error('Could not repair vectors after a failed job', { error: repairError });
+  }
+}
+
+/**
+ * Run an ingestion in the background, reporting progress on the job. When it
+ * fails, the files it replaced are put back and the vectors it wrote repaired.
+ */
+async function runJob(
+  job: IngestJob,
+  steps: {
+    /** Put the new sources in place and return the files to ingest */
+    prepare: (log: (message: string) => void) => string[];
+    restore: () => void;
+    onSuccess?: (run: IngestRun, log: (message: string) => void) => void;
+  }
+): Promise<void> {
+  const log = (message: string) => {
+    job.log.push(message.replace(/^\n+/, ''));
+    job.log.splice(0, Math.max(0, job.log.length - MAX_JOB_LOG_LINES));
+  };
+
+  let files: string[] = [];
+  try {
+    files = steps.prepare(log);
+    const { run } = await runIngest(files, {
+      log,
+      onProgress: progress => { job.progress = toJobProgress(progress); },
+    });
+    job.status = 'succeeded';
+    job.publishedVersion = run?.version;
+    job.progress = { ...job.progress, percent: 100 };
+    if (run) steps.onSuccess?.(run, log);
+    log(`✨ Published index version ${run?.version}`);
+    logger.info('Knowledge base job finished', { jobId: job.id, kind: job.kind, indexVersion: run?.version });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log(`❌ ${message}`);
+    logger.error('Knowledge base job failed', { jobId: job.id, kind: job.kind, error });
+    try {
+      steps.restore();
+      log('↩️  Put the previous sources, catalog and lexical index back');
+      await repairVectors(files, error, log);
+    } catch (restoreError) {
+      logger.error('Could not restore knowledge base sources', { jobId: job.id, error: restoreError });
+    }
+    // Marked failed only now, so pollers keep following the repair
+    job.status = 'failed';
+    job.error = message;
+  } finally {
+    job.finishedAt = new Date().toISOString();
+  }
+}
+
+function conflict(running: IngestJob): AskRequestError {
+  return { code: 'conflict', message: `Job ${running.id} is still running. Wait for it to finish.` };
+}
+
+/**
+ * Replace the knowledge base file with a previewed upload and re-index in the
+ * background. Uploads with schema errors need `acceptSchemaChanges`.
+ */
+export function startUploadJob(uploadId: string, acceptSchemaChanges: boolean = false): Result<IngestJob> {
+  const unavailable = checkUploadsAvailable();
+  if (unavailable) return { error: unavailable };
+  const running = getRunningJob();
+  if (running) return { error: conflict(running) };
+
+  const upload = loadUpload(uploadId);
+  if (!upload) {
+    return { error: { code: 'not_found', message: 'No upload with that id. It may have been applied or expired; upload the file again.' } };
+  }
+  const { preview } = upload;
+  if (!acceptSchemaChanges && preview.schema.some(issue => issue.level === 'error')) {
+    return {
+      error: {
+        code: 'invalid_request',
+        message: 'The upload does not match the previous schema. Review the errors and set "acceptSchemaChanges" to apply it anyway.',
+      },
+    };
+  }
+
+  const runs = loadIngestHistory();
+  const targetPath = resolveFile(preview.target);
+  const job = createJob('upload', { uploadId, fileName: preview.fileName });
+  void runJob(job, {
+    prepare: (log) => {
+      fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+      fs.copyFileSync(upload.filePath, targetPath);
+      log(`📥 Replaced ${preview.target} with ${preview.fileName}`);
+      return getSourceFiles(runs, preview.target).map(resolveFile).filter(file => fs.existsSync(file));
+    },
+    restore: backupFiles([targetPath]),
+    // An applied upload cannot be applied again
+    onSuccess: () => fs.rmSync(upload.dir, { recursive: true, force: true }),
+  });
+  return { value: copyJob(job) };
+}
+
+/**
+ * Restore the archived sources of an earlier index version and re-index them
+ * in the background. Ingestion is content-addressed, so only chunks that
+ * differ are re-embedded and the old version ID is published again.
+ */
+export function startRollbackJob(version: string): Result<IngestJob> {
+  const unavailable = checkUploadsAvailable();
+  if (unavailable) return { error: unavailable };
+  const running = getRunningJob();
+  if (running) return { error: conflict(running) };
+
+  if (version === loadIndexVersion()) {
+    return { error: { code: 'invalid_request', message: `${version} is already the current index version.` } };
+  }
+  const sources = loadArchivedSources(version);
+  if (!sources) {
+    return { error: { code: 'not_found', message: `No archived sources for index version ${version}.` } };
+  }
+
+  const job = createJob('rollback', { rollbackTo: version });
+  void runJob(job, {
+    prepare: (log) => {
+      log(`⏪ Restoring the sources of index version ${version}: ${sources.map(source => source.file).join(', ')}`);
+      return restoreArchivedSources(version);
+    },
+    restore: backupFiles(sources.map(source => resolveFile(source.file))),
+    onSuccess: (run, log) => {
+      // e.g. the vector store changed since, so the manifest started empty
+      if (run.version !== version) {
+        log(`⚠️  Published ${run.version} instead of ${version}; the index differs from when ${version} was built`);
+      }
+    },
+  });
+  return { value: copyJob(job) };
+}
+
+/**
+ * Current index version, recent ingestions with their rollback availability, and jobs
+ */
+export function getKnowledgeBaseStatus(): KnowledgeBaseStatus {
+  const runs = loadIngestHistory();
+  const indexVersion = loadIndexVersion();
+  const uploadsUnavailable = getUploadsUnavailableReason();
+  return {
+    indexVersion,
+    targets: getKnowledgeBaseTargets(runs),
+    maxUploadBytes: getRequestLimits().maxUploadBytes,
+    ...(uploadsUnavailable ? { uploadsUnavailable } : {}),
+    runs: runs.slice(0, RUN_LIMIT).map(run => ({
+      ...run,
+      canRollback: run.version !== indexVersion && loadArchivedSources(run.version) !== null,
+    })),
+    jobs: listIngestJobs(),
+  };
+}
@@ -0,0 +1,77 @@
+import { getLatencyBudgetMs } from './config';
+import { UpstreamTimeoutError } from './errors';
+
+export type BudgetedStage = 'rewriting' | 'expanding' | 'retrieving' | 'reranking' | 'fallback';
+
+/** Longest each optional stage may take, before the overall budget caps it further */
+export const STAGE_TIMEOUTS: Record<BudgetedStage, number> = {
+  rewriting: 5000,
+  expanding: 5000,
+  retrieving: 8000,
+  reranking: 8000,
+  fallback: 6000,
+};
+
+// Always keep this much of the budget for generating the answer
+const GENERATION_RESERVE_MS = 15000;
+
+export interface LatencyBudget {
+  /** Milliseconds left before the deadline */
+  remaining(): number;
+  /** Timeout for a stage: its own limit, capped by what is left */
+  stageTimeout(stage: BudgetedStage): number;
+  /** Whether a stage can run its full timeout and still leave room for generation */
+  canAfford(stage: BudgetedStage): boolean;
+  /** Abort signal that fires when the stage (or the whole budget) runs out */
+  signal(stage?: BudgetedStage): AbortSignal;
+}
+
+/**
+ * Signal that fires as soon as any of `signals` does
+ */
+function anySignal(signals: AbortSignal[]): AbortSignal {
+  const controller = new AbortController();
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+  return controller.signal;
+}
+
+/**
+ * Start the clock for one question. With `cancel`, e.g. fired when the client
+ * disconnects, every stage signal also fires when it does.
+ */
+export function createLatencyBudget(totalMs: number = getLatencyBudgetMs(), cancel?: AbortSignal): LatencyBudget {
+  const deadline = Date.now() + totalMs;
+  const remaining = () => Math.max(0, deadline - Date.now());
+  const stageTimeout = (stage: BudgetedStage) => Math.min(STAGE_TIMEOUTS[stage], remaining());
+
+  return {
+    remaining,
+    stageTimeout,
+
+    canAfford(stage) {
+      return remaining() - STAGE_TIMEOUTS[stage] >= GENERATION_RESERVE_MS;
+    },
+
+    signal(stage) {
+      const timeout = AbortSignal.timeout(stage ? stageTimeout(stage) : remaining());
+      return cancel ? anySignal([cancel, timeout]) : timeout;
+    },
+  };
+}
+
+/**
+ * Reject if `promise` has not settled within `ms`, for calls that cannot be aborted
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new UpstreamTimeoutError(`${label} timed out after ${ms}ms.`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
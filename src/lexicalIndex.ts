@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { VectorFilter, matchesFilter } from './vectorStore';
+
+export interface LexicalDocument {
+  id: string;
+  /** Number of tokens, for BM25 length normalization */
+  length: number;
+  metadata: Record<string, any>;
+}
+
+/**
+ * BM25 inverted index over the ingested chunks
+ */
+export interface LexicalIndex {
+  generatedAt: string;
+  avgDocLength: number;
+  docs: LexicalDocument[];
+  /** term -> [document index, term frequency] pairs */
+  postings: Record<string, Array<[number, number]>>;
+}
+
+export interface LexicalMatch {
+  id: string;
+  score: number;
+  metadata: Record<string, any>;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from',
+  'has', 'have', 'how', 'i', 'in', 'is', 'it', 'its', 'me', 'of', 'on', 'or', 'that',
+  'the', 'this', 'to', 'was', 'what', 'which', 'with', 'you', 'your',
+]);
+
+/**
+ * Split text into search terms. Codes such as "1-01-093" or "HY2.0" are kept
+ * whole as well as split into their parts, so exact SKUs score highest.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.toLowerCase().match(/[a-z0-9]+(?:[-./][a-z0-9]+)*/g) || []) {
+    const parts = word.split(/[-./]/);
+    if (parts.length > 1) tokens.push(word);
+    for (const part of parts) {
+      if (!STOP_WORDS.has(part)) tokens.push(part);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Build the index from chunks; `metadata.text` is what gets indexed
+ */
+export function buildLexicalIndex(chunks: Array<{ id: string; text: string; metadata: Record<string, any> }>): LexicalIndex {
+  const docs: LexicalDocument[] = [];
+  // No prototype, so terms such as "constructor" are not mistaken for inherited properties
+  const postings: Record<string, Array<[number, number]>> = Object.create(null);
+  let totalLength = 0;
+
+  chunks.forEach((chunk, docIndex) => {
+    const tokens = tokenize(chunk.text);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+    for (const [term, frequency] of frequencies) {
+      (postings[term] = postings[term] || []).push([docIndex, frequency]);
+    }
+
+    docs.push({ id: chunk.id, length: tokens.length, metadata: chunk.metadata });
+    totalLength += tokens.length;
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    avgDocLength: docs.length > 0 ? totalLength / docs.length : 0,
+    docs,
+    postings,
+  };
+}
+
+/**
+ * Resolve the index file location (LEXICAL_INDEX_PATH, default data/lexical-index.json)
+ */
+export function getLexicalIndexPath(): string {
+  return path.resolve(process.cwd(), process.env.LEXICAL_INDEX_PATH || 'data/lexical-index.json');
+}
+
+export function saveLexicalIndex(index: LexicalIndex, filePath: string = getLexicalIndexPath()): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(index));
+}
+
+let cachedIndex: { filePath: string; mtimeMs: number; index: LexicalIndex } | null = null;
+
+/**
+ * Load the index written by ingestion, or null when none exists.
+ * Re-reads the file only when it changes on disk.
+ */
+export function loadLexicalIndex(filePath: string = getLexicalIndexPath()): LexicalIndex | null {
+  if (!fs.existsSync(filePath)) return null;
+
+  const { mtimeMs } = fs.statSync(filePath);
+  if (cachedIndex && cachedIndex.filePath === filePath && cachedIndex.mtimeMs === mtimeMs) {
+    return cachedIndex.index;
+  }
+
+  const index: LexicalIndex = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  cachedIndex = { filePath, mtimeMs, index };
+  return index;
+}
+
+/**
+ * Rank documents for a query with BM25, applying the same metadata filter as vector search
+ */
+export function searchLexicalIndex(
+  index: LexicalIndex,
+  query: string,
+  topK: number = 10,
+  filter?: VectorFilter
+): LexicalMatch[] {
+  const scores = new Map<number, number>();
+  const docCount = index.docs.length;
+
+  for (const term of new Set(tokenize(query))) {
+    // A loaded index is a plain object, so only its own keys are terms
+    if (!Object.hasOwn(index.postings, term)) continue;
+    const termPostings = index.postings[term];
+
+    const idf = Math.log(1 + (docCount - termPostings.length + 0.5) / (termPostings.length + 0.5));
+    for (const [docIndex, frequency] of termPostings) {
+      const lengthRatio = index.docs[docIndex].length / (index.avgDocLength || 1);
+      const termScore = idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * lengthRatio));
+      scores.set(docIndex, (scores.get(docIndex) || 0) + termScore);
+    }
+  }
+
+  return Array.from(scores.entries())
+    .map(([docIndex, score]) => ({ doc: index.docs[docIndex], score }))
+    .filter(({ doc }) => !filter || matchesFilter(doc.metadata, filter))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map(({ doc, score }) => ({ id: doc.id, score, metadata: doc.metadata }));
+}
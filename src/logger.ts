@@ -0,0 +1,66 @@
+import { getActiveSpan } from './tracing';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Minimum level written (LOG_LEVEL, default "info")
+ */
+function getLogLevel(): LogLevel {
+  const value = (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+  return LOG_LEVELS.includes(value) ? value : 'info';
+}
+
+/**
+ * Keep the name, message and stack of errors, which JSON.stringify drops
+ */
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      ...('code' in value ? { code: value.code } : {}),
+      stack: value.stack,
+      ...(value.cause !== undefined ? { cause: serializeValue(value.cause) } : {}),
+    };
+  }
+  return value;
+}
+
+function write(level: LogLevel, msg: string, fields: LogFields = {}): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(getLogLevel())) return;
+
+  const span = getActiveSpan();
+  const entry: Record<string, unknown> = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...(span ? { traceId: span.traceId, spanId: span.spanId } : {}),
+  };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) entry[key] = serializeValue(value);
+  }
+
+  const line = JSON.stringify(entry);
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * JSON line logger. Entries written inside a trace carry its traceId and the
+ * active spanId, so logs and spans of one request can be joined.
+ */
+export const logger = {
+  debug: (msg: string, fields?: LogFields) => write('debug', msg, fields),
+  info: (msg: string, fields?: LogFields) => write('info', msg, fields),
+  warn: (msg: string, fields?: LogFields) => write('warn', msg, fields),
+  error: (msg: string, fields?: LogFields) => write('error', msg, fields),
+};
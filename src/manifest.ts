@@ -0,0 +1,213 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface IngestChunk {
+  id: string;
+  text: string;
+  metadata: Record<string, any>;
+}
+
+export interface ManifestEntry {
+  /** Hash of the embedded text; a change means the vector must be re-embedded */
+  textHash: string;
+  /** Hash of the remaining metadata; a change only needs a metadata update */
+  metadataHash: string;
+  sheet: string;
+  row?: number;
+  type: string;
+}
+
+export interface IngestManifest {
+  /** Vector store the entries were written to, e.g. "pinecone:ragchatbot" */
+  target: string;
+  updatedAt: string;
+  entries: Record<string, ManifestEntry>;
+}
+
+export interface IngestDiff {
+  add: IngestChunk[];
+  /** Text changed: re-embed and upsert */
+  update: IngestChunk[];
+  /** Only metadata changed (e.g. the row moved): update metadata in place */
+  updateMetadata: IngestChunk[];
+  delete: string[];
+  unchanged: number;
+}
+
+export function hashContent(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function stableStringify(value: Record<string, any>): string {
+  return JSON.stringify(Object.keys(value).sort().map(key => [key, value[key]]));
+}
+
+/**
+ * Stable vector ID derived from content rather than position.
+ * `key` should identify the chunk across runs: a row's SKU when it has one,
+ * otherwise the chunk text itself.
+ */
+export function getChunkId(sheet: string, type: string, key: string): string {
+  const sheetSlug = sheet.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'sheet';
+  return `${sheetSlug}_${type}_${hashContent(`${sheet}\u0000${key}`).slice(0, 16)}`;
+}
+
+export function getManifestPath(): string {
+  return path.resolve(process.cwd(), process.env.INGEST_MANIFEST_PATH || 'data/ingest-manifest.json');
+}
+
+/**
+ * Load the manifest of the last ingestion into `target`.
+ * A manifest written for a different vector store counts as empty.
+ */
+export function loadManifest(target: string, filePath: string = getManifestPath()): IngestManifest {
+  const empty: IngestManifest = { target, updatedAt: '', entries: {} };
+  if (!fs.existsSync(filePath)) return empty;
+
+  const manifest: IngestManifest = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  return manifest.target === target ? manifest : empty;
+}
+
+export function saveManifest(manifest: IngestManifest, filePath: string = getManifestPath()): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * Build the manifest entry recorded for a chunk
+ */
+export function toManifestEntry(chunk: IngestChunk): ManifestEntry {
+  const { text, ...metadata } = chunk.metadata;
+  return {
+    textHash: hashContent(chunk.text),
+    metadataHash: hashContent(stableStringify(metadata)),
+    sheet: chunk.metadata.sheet,
+    row: chunk.metadata.row,
+    type: chunk.metadata.type || 'row',
+  };
+}
+
+/**
+ * Compare the chunks of this run with the previous manifest.
+ * With `full` set, every current chunk is re-embedded but vanished ones are still deleted.
+ * `repairIds` are vectors that may not match the manifest, e.g. written by a failed run:
+ * they are re-embedded when still current and deleted otherwise.
+ */
+export function diffChunks(
+  chunks: IngestChunk[],
+  manifest: IngestManifest,
+  full: boolean = false,
+  repairIds: string[] = []
+): IngestDiff {
+  const diff: IngestDiff = { add: [], update: [], updateMetadata: [], delete: [], unchanged: 0 };
+  const currentIds = new Set<string>();
+  const repair = new Set(repairIds);
+
+  for (const chunk of chunks) {
+    currentIds.add(chunk.id);
+    const previous = manifest.entries[chunk.id];
+    const entry = toManifestEntry(chunk);
+
+    if (!previous) {
+      diff.add.push(chunk);
+    } else if (full || repair.has(chunk.id) || previous.textHash !== entry.textHash) {
+      diff.update.push(chunk);
+    } else if (previous.metadataHash !== entry.metadataHash) {
+      diff.updateMetadata.push(chunk);
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  diff.delete = Array.from(new Set([...Object.keys(manifest.entries), ...repair])).filter(id => !currentIds.has(id));
+  return diff;
+}
+
+/**
+ * Resolve the index version file (INDEX_VERSION_PATH, default data/index-version.json)
+ */
+export function getIndexVersionPath(): string {
+  return path.resolve(process.cwd(), process.env.INDEX_VERSION_PATH || 'data/index-version.json');
+}
+
+/**
+ * Version of the knowledge base: a hash of every chunk's content and metadata,
+ * so re-ingesting unchanged data keeps the same version
+ */
+export function computeIndexVersion(entries: Record<string, ManifestEntry>): string {
+  const fingerprint = Object.keys(entries)
+    .sort()
+    .map(id => `${id}:${entries[id].textHash}:${entries[id].metadataHash}`)
+    .join('\n');
+  return hashContent(fingerprint).slice(0, 16);
+}
+
+/**
+ * Publish a new index version; caches keyed by the old version stop matching
+ */
+export function saveIndexVersion(version: string, filePath: string = getIndexVersionPath()): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify({ version, publishedAt: new Date().toISOString() }, null, 2));
+}
+
+let cachedVersion: { filePath: string; mtimeMs: number; version: string } | null = null;
+
+/**
+ * Current index version, or "unversioned" before the first ingestion.
+ * Re-reads the file only when it changes on disk. The file is local to each
+ * deployment, so an ingestion run elsewhere only takes effect after a redeploy.
+ */
+export function loadIndexVersion(filePath: string = getIndexVersionPath()): string {
+  if (!fs.existsSync(filePath)) return 'unversioned';
+
+  const { mtimeMs } = fs.statSync(filePath);
+  if (cachedVersion && cachedVersion.filePath === filePath && cachedVersion.mtimeMs === mtimeMs) {
+    return cachedVersion.version;
+  }
+
+  const { version } = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  cachedVersion = { filePath, mtimeMs, version };
+  return version;
+}
+
+/** One completed ingestion, kept for the admin dashboard */
+export interface IngestRun {
+  /** Index version published by the run */
+  version: string;
+  startedAt: string;
+  finishedAt: string;
+  /** Files that were read, relative to the working directory */
+  files: string[];
+  chunks: number;
+  added: number;
+  updated: number;
+  metadataUpdated: number;
+  deleted: number;
+  unchanged: number;
+  catalogRows: number;
+}
+
+// Enough history to see trends without the file growing forever
+const MAX_INGEST_RUNS = 100;
+
+/**
+ * Resolve the ingestion history file (INGEST_HISTORY_PATH, default data/ingest-history.json)
+ */
+export function getIngestHistoryPath(): string {
+  return path.resolve(process.cwd(), process.env.INGEST_HISTORY_PATH || 'data/ingest-history.json');
+}
+
+/**
+ * Past ingestions, most recent first
+ */
+export function loadIngestHistory(filePath: string = getIngestHistoryPath()): IngestRun[] {
+  if (!fs.existsSync(filePath)) return [];
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+export function appendIngestRun(run: IngestRun, filePath: string = getIngestHistoryPath()): void {
+  const runs = [run, ...loadIngestHistory(filePath)].slice(0, MAX_INGEST_RUNS);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(runs, null, 2));
+}
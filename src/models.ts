@@ -0,0 +1,272 @@
+import OpenAI from 'openai';
+import { getModelProvider } from './config';
+import { ConfigError, ContentBlockedError, UpstreamTimeoutError } from './errors';
+import { Span, SpanAttributes, startSpan, withSpan } from './tracing';
+import { ModelCall, recordModelUsage } from './usage';
+
+export const EMBEDDING_DIMENSIONS = 1024; // Match your Pinecone index dimensions
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  /** Cancels the request, e.g. when its pipeline stage runs out of time */
+  signal?: AbortSignal;
+}
+
+export interface ChatModel {
+  complete(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+  stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<string>;
+}
+
+export interface EmbeddingModel {
+  embed(text: string, signal?: AbortSignal): Promise<number[]>;
+  /** Embed several texts in one request; results keep the input order */
+  embedBatch(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+// Lazy initialization to check env vars only when needed
+function getOpenAIClient() {
+  const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+  if (!OPENAI_API_KEY) {
+    throw new ConfigError('OPENAI_API_KEY environment variable is not set');
+  }
+  return new OpenAI({ apiKey: OPENAI_API_KEY });
+}
+
+// Error codes OpenAI (and Azure OpenAI) use when a request breaks the content policy
+const CONTENT_POLICY_CODES = ['content_filter', 'content_policy_violation'];
+
+/**
+ * Translate OpenAI failures into typed errors the API can report safely
+ */
+function toModelError(error: unknown): unknown {
+  if (error instanceof OpenAI.APIUserAbortError || error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new UpstreamTimeoutError(undefined, { cause: error });
+  }
+  if (error instanceof OpenAI.BadRequestError && CONTENT_POLICY_CODES.includes(String(error.code))) {
+    return new ContentBlockedError(undefined, { cause: error });
+  }
+  return error;
+}
+
+/**
+ * OpenTelemetry GenAI semantic-convention attributes for a chat request
+ */
+function chatSpanAttributes(model: string, options: ChatOptions): SpanAttributes {
+  return {
+    'gen_ai.system': 'openai',
+    'gen_ai.operation.name': 'chat',
+    'gen_ai.request.model': model,
+    'gen_ai.request.temperature': options.temperature,
+    'gen_ai.request.max_tokens': options.maxTokens,
+  };
+}
+
+/**
+ * Price the call's token usage, count it toward the request and add it to the span
+ */
+function recordTokenUsage(
+  span: Span,
+  model: string,
+  operation: ModelCall['operation'],
+  usage: { prompt_tokens: number; completion_tokens?: number } | null | undefined
+): void {
+  if (!usage) return;
+  const call = recordModelUsage(model, operation, usage.prompt_tokens, usage.completion_tokens);
+  span.setAttributes({
+    'gen_ai.usage.input_tokens': call.inputTokens,
+    'gen_ai.usage.output_tokens': call.outputTokens,
+    'gen_ai.usage.cost_usd': call.costUsd,
+  });
+}
+
+/**
+ * Chat model backed by the OpenAI chat completions API
+ * (model can be changed to gpt-4.1 or gpt-5 when available)
+ */
+export function createOpenAIChatModel(model: string = 'gpt-4o'): ChatModel {
+  return {
+    async complete(messages, options = {}) {
+      const openai = getOpenAIClient();
+      return withSpan('gen_ai.chat', chatSpanAttributes(model, options), async (span) => {
+        let response;
+        try {
+          response = await openai.chat.completions.create({
+            model,
+            messages,
+            temperature: options.temperature,
+            max_tokens: options.maxTokens,
+          }, { signal: options.signal });
+        } catch (error) {
+          throw toModelError(error);
+        }
+
+        span.setAttributes({
+          'gen_ai.response.model': response.model,
+          'gen_ai.response.finish_reasons': response.choices[0]?.finish_reason || undefined,
+        });
+        recordTokenUsage(span, model, 'chat', response.usage);
+        if (response.choices[0]?.finish_reason === 'content_filter') throw new ContentBlockedError();
+        return response.choices[0]?.message?.content || '';
+      });
+    },
+
+    async *stream(messages, options = {}) {
+      const openai = getOpenAIClient();
+      const span = startSpan('gen_ai.chat', { ...chatSpanAttributes(model, options), 'gen_ai.request.stream': true });
+      try {
+        const stream = await openai.chat.completions.create({
+          model,
+          messages,
+          temperature: options.temperature,
+          max_tokens: options.maxTokens,
+          stream: true,
+          // The last chunk then carries token usage for the whole answer
+          stream_options: { include_usage: true },
+        }, { signal: options.signal });
+
+        for await (const chunk of stream) {
+          recordTokenUsage(span, model, 'chat', chunk.usage);
+          if (chunk.choices[0]?.finish_reason === 'content_filter') throw new ContentBlockedError();
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      } catch (error) {
+        const modelError = toModelError(error);
+        span.recordError(modelError);
+        throw modelError;
+      } finally {
+        span.end();
+      }
+    },
+  };
+}
+
+/**
+ * Embedding model backed by the OpenAI embeddings API
+ */
+export function createOpenAIEmbeddingModel(model: string = 'text-embedding-3-large'): EmbeddingModel {
+  const embedBatch = async (texts: string[], signal?: AbortSignal) => {
+    if (texts.length === 0) return [];
+
+    const openai = getOpenAIClient();
+    const attributes = {
+      'gen_ai.system': 'openai',
+      'gen_ai.operation.name': 'embeddings',
+      'gen_ai.request.model': model,
+      'gen_ai.request.inputs': texts.length,
+    };
+    return withSpan('gen_ai.embeddings', attributes, async (span) => {
+      let response;
+      try {
+        response = await openai.embeddings.create({
+          model,
+          input: texts,
+          dimensions: EMBEDDING_DIMENSIONS,
+        }, { signal });
+      } catch (error) {
+        throw toModelError(error);
+      }
+
+      recordTokenUsage(span, model, 'embeddings', response.usage);
+      // The API does not promise to return embeddings in input order
+      return response.data
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    });
+  };
+
+  return {
+    async embed(text, signal) {
+      const [embedding] = await embedBatch([text], signal);
+      return embedding;
+    },
+
+    embedBatch,
+  };
+}
+
+// FNV-1a, good enough to spread tokens across embedding dimensions
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic chat model for offline runs.
+ * Answers with the first Knowledge Base Context entry of the prompt, cited as [1], and returns
+ * an empty string otherwise so callers fall back to their default behaviour.
+ */
+export function createFakeChatModel(): ChatModel {
+  const complete = async (messages: ChatMessage[], options: ChatOptions = {}) => {
+    if (options.signal?.aborted) throw new UpstreamTimeoutError();
+    const prompt = messages[messages.length - 1]?.content || '';
+    const contextMatch = prompt.match(/Knowledge Base Context:\n(.+)/);
+    if (!contextMatch) return '';
+
+    return `Based on the available information: ${contextMatch[1].replace(/^\d+\.\s*/, '').trim()} [1]`;
+  };
+
+  return {
+    complete,
+
+    async *stream(messages, options) {
+      const answer = await complete(messages, options);
+      // Emit word by word so streaming clients see incremental output
+      for (const token of answer.match(/\S+\s*/g) || []) {
+        if (options?.signal?.aborted) throw new UpstreamTimeoutError();
+        yield token;
+      }
+    },
+  };
+}
+
+/**
+ * Deterministic bag-of-words embedding model for offline runs.
+ * Texts sharing words get similar vectors, so retrieval still behaves sensibly.
+ */
+export function createFakeEmbeddingModel(): EmbeddingModel {
+  const embed = async (text: string, signal?: AbortSignal) => {
+    if (signal?.aborted) throw new UpstreamTimeoutError();
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const tokens = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+    for (const token of tokens) {
+      const hash = hashToken(token);
+      vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  };
+
+  return {
+    embed,
+
+    async embedBatch(texts, signal) {
+      return Promise.all(texts.map(text => embed(text, signal)));
+    },
+  };
+}
+
+/**
+ * Chat model for the provider selected by MODEL_PROVIDER
+ */
+export function getChatModel(): ChatModel {
+  return getModelProvider() === 'fake' ? createFakeChatModel() : createOpenAIChatModel();
+}
+
+/**
+ * Embedding model for the provider selected by MODEL_PROVIDER
+ */
+export function getEmbeddingModel(): EmbeddingModel {
+  return getModelProvider() === 'fake' ? createFakeEmbeddingModel() : createOpenAIEmbeddingModel();
+}
@@ -0,0 +1,330 @@
+import {
+  Catalog,
+  CatalogColumn,
+  CatalogRow,
+  CatalogSheet,
+  CatalogValue,
+  formatCatalogValue,
+  getMetadataKey,
+  parseNumber,
+  getRowLabel,
+  headerWords,
+  normalize,
+} from './catalog';
+import { VectorFilter } from './vectorStore';
+
+export type FilterOp = 'eq' | 'in' | 'lt' | 'lte' | 'gt' | 'gte';
+export type Aggregate = 'list' | 'count' | 'min' | 'max';
+
+export interface PlanFilter {
+  column: CatalogColumn;
+  op: FilterOp;
+  value: CatalogValue | CatalogValue[];
+}
+
+export interface QueryPlan {
+  sheet: CatalogSheet;
+  filters: PlanFilter[];
+  aggregate: Aggregate;
+  /** Numeric column for min/max */
+  column?: CatalogColumn;
+  groupBy?: CatalogColumn;
+}
+
+export interface PlanResult {
+  plan: QueryPlan;
+  /** Rows that satisfy the filters (all of them, not just top-K) */
+  rows: CatalogRow[];
+  /** Plain-text result for the prompt */
+  summary: string;
+}
+
+const MAX_LISTED_ROWS = 25;
+
+const COMPARISONS: Array<{ pattern: string; op: FilterOp }> = [
+  { pattern: 'less than|under|below|cheaper than|lighter than|smaller than', op: 'lt' },
+  { pattern: 'up to|at most|no more than|maximum of', op: 'lte' },
+  { pattern: 'more than|over|above|greater than|heavier than|more expensive than|larger than', op: 'gt' },
+  { pattern: 'at least|no less than|minimum of', op: 'gte' },
+];
+
+const EXTREMES: Array<{ pattern: RegExp; aggregate: 'min' | 'max'; hint?: string }> = [
+  { pattern: /\b(cheapest|least expensive)\b/, aggregate: 'min', hint: 'price' },
+  { pattern: /\b(most expensive|priciest)\b/, aggregate: 'max', hint: 'price' },
+  { pattern: /\blightest\b/, aggregate: 'min', hint: 'weight' },
+  { pattern: /\bheaviest\b/, aggregate: 'max', hint: 'weight' },
+  { pattern: /\b(lowest|minimum|smallest)\b(?! of)/, aggregate: 'min' },
+  { pattern: /\b(highest|maximum|largest|biggest)\b(?! of)/, aggregate: 'max' },
+];
+
+const COUNT_PATTERN = /\b(how many|count|number of)\b/;
+const LIST_PATTERN = /\b(which|list|show|all|what products|what items)\b/;
+const GROUP_PATTERN = /\b(?:per|by|for each|each)\s+([a-z]+(?:\s+[a-z]+)?)/;
+const PRICE_WORDS = /\b(price|cost|cheap|cheaper|expensive|priced)\b|[£$€]/;
+
+function findColumnByWords(words: string[], columns: CatalogColumn[]): CatalogColumn | undefined {
+  return columns.find(column => headerWords(column).some(word => words.includes(word)));
+}
+
+/**
+ * Pick the numeric column a comparison refers to: by unit, currency, header words,
+ * or the only numeric column in the sheet
+ */
+function resolveNumericColumn(
+  query: string,
+  columns: CatalogColumn[],
+  unit: string = '',
+  hint?: string
+): CatalogColumn | undefined {
+  const numeric = columns.filter(column => column.type === 'number');
+  if (numeric.length === 0) return undefined;
+
+  if (unit) {
+    const byUnit = numeric.find(column => column.unit === unit);
+    if (byUnit) return byUnit;
+  }
+  if (hint) {
+    const byHint = findColumnByWords([hint], numeric);
+    if (byHint) return byHint;
+  }
+  if (PRICE_WORDS.test(query)) {
+    const byPrice = numeric.find(column => column.currency) || findColumnByWords(['price', 'cost'], numeric);
+    if (byPrice) return byPrice;
+  }
+
+  const byWords = findColumnByWords(normalize(query).split(' '), numeric);
+  return byWords || (numeric.length === 1 ? numeric[0] : undefined);
+}
+
+function parseNumericFilters(query: string, columns: CatalogColumn[]): PlanFilter[] {
+  const filters: PlanFilter[] = [];
+  const amount = '[£$€]?\\s*(\\d+(?:\\.\\d+)?)\\s*([a-z%]*)';
+
+  // Convert "700g" to the column's base unit the same way catalog values were
+  const toAmount = (num: string, unit: string) => parseNumber(`${num}${unit}`) || { value: parseFloat(num), unit };
+
+  const between = query.match(new RegExp(`\\bbetween\\s+${amount}\\s+and\\s+${amount}`));
+  if (between) {
+    const low = toAmount(between[1], between[2] || between[4]);
+    const high = toAmount(between[3], between[4] || between[2]);
+    const column = resolveNumericColumn(query, columns, high.unit);
+    if (column) {
+      filters.push({ column, op: 'gte', value: low.value });
+      filters.push({ column, op: 'lte', value: high.value });
+    }
+    return filters;
+  }
+
+  for (const { pattern, op } of COMPARISONS) {
+    const match = query.match(new RegExp(`\\b(?:${pattern})\\s+${amount}`));
+    if (!match) continue;
+
+    const { value, unit } = toAmount(match[1], match[2]);
+    const column = resolveNumericColumn(query, columns, unit);
+    if (column) {
+      filters.push({ column, op, value });
+    }
+  }
+  return filters;
+}
+
+/**
+ * Equality filters for category-like values mentioned verbatim, e.g. "Floor Care"
+ */
+function parseValueFilters(query: string, sheet: CatalogSheet, rows: CatalogRow[]): PlanFilter[] {
+  const paddedQuery = ` ${query} `;
+  const filters: PlanFilter[] = [];
+
+  for (const column of sheet.columns) {
+    if (column.type !== 'string' || column.identifier) continue;
+
+    const values = Array.from(new Set(rows.map(row => row.values[column.name]).filter(v => v !== undefined)));
+    const mentioned = values.filter(value => {
+      const normalized = normalize(String(value));
+      return normalized.length >= 3 && paddedQuery.includes(` ${normalized} `);
+    });
+
+    if (mentioned.length === 1) {
+      filters.push({ column, op: 'eq', value: mentioned[0] });
+    } else if (mentioned.length > 1) {
+      filters.push({ column, op: 'in', value: mentioned });
+    }
+  }
+  return filters;
+}
+
+/**
+ * Turn filter/aggregate questions ("which products under $50 are in Kitchen",
+ * "how many products per category") into a structured plan over the catalog.
+ * Returns null for questions that are better served by plain retrieval.
+ */
+export function planQuery(query: string, catalog: Catalog | null): QueryPlan | null {
+  if (!catalog || catalog.sheets.length === 0) return null;
+
+  const normalizedQuery = normalize(query);
+  // Numeric filters need currency symbols, which normalize() strips
+  const lowerQuery = query.toLowerCase();
+
+  // Plan against the sheet whose columns the question fits best (the first one by default)
+  let best: QueryPlan | null = null;
+  let bestScore = 0;
+
+  for (const sheet of catalog.sheets) {
+    const rows = catalog.rows.filter(row => row.sheet === sheet.name);
+    const filters = [
+      ...parseNumericFilters(lowerQuery, sheet.columns),
+      ...parseValueFilters(normalizedQuery, sheet, rows),
+    ];
+
+    let aggregate: Aggregate | null = null;
+    let column: CatalogColumn | undefined;
+    let groupBy: CatalogColumn | undefined;
+
+    const groupMatch = normalizedQuery.match(GROUP_PATTERN);
+    if (groupMatch) {
+      groupBy = findColumnByWords(
+        groupMatch[1].split(' ').map(word => word.replace(/(ies)$/, 'y').replace(/s$/, '')),
+        sheet.columns.filter(c => c.type !== 'text' && !c.identifier)
+      );
+    }
+
+    for (const extreme of EXTREMES) {
+      if (!extreme.pattern.test(normalizedQuery)) continue;
+      column = resolveNumericColumn(normalizedQuery, sheet.columns, '', extreme.hint);
+      if (column) {
+        aggregate = extreme.aggregate;
+        break;
+      }
+    }
+
+    if (!aggregate && COUNT_PATTERN.test(normalizedQuery)) {
+      aggregate = 'count';
+    } else if (!aggregate && filters.length > 0 && (LIST_PATTERN.test(normalizedQuery) || filters.some(f => f.op !== 'eq' && f.op !== 'in'))) {
+      aggregate = 'list';
+    }
+
+    if (!aggregate) continue;
+
+    const score = filters.length + (column ? 1 : 0) + (groupBy ? 1 : 0) + 1;
+    if (score > bestScore) {
+      bestScore = score;
+      best = { sheet, filters, aggregate, column, groupBy };
+    }
+  }
+
+  return best;
+}
+
+function matchesPlanFilter(row: CatalogRow, filter: PlanFilter): boolean {
+  const value = row.values[filter.column.name];
+  if (value === undefined) return false;
+
+  switch (filter.op) {
+    case 'eq': return value === filter.value;
+    case 'in': return (filter.value as CatalogValue[]).includes(value);
+    case 'lt': return value < filter.value;
+    case 'lte': return value <= filter.value;
+    case 'gt': return value > filter.value;
+    case 'gte': return value >= filter.value;
+  }
+}
+
+function describeFilter(filter: PlanFilter): string {
+  const symbols: Record<FilterOp, string> = { eq: '=', in: 'in', lt: '<', lte: '<=', gt: '>', gte: '>=' };
+  const value = Array.isArray(filter.value)
+    ? filter.value.map(v => formatCatalogValue(filter.column, v)).join(', ')
+    : formatCatalogValue(filter.column, filter.value);
+  return `${filter.column.name} ${symbols[filter.op]} ${value}`;
+}
+
+function describeRow(row: CatalogRow, sheet: CatalogSheet, column?: CatalogColumn): string {
+  const value = column && row.values[column.name] !== undefined
+    ? ` – ${column.name}: ${formatCatalogValue(column, row.values[column.name])}`
+    : '';
+  return `- ${getRowLabel(row, sheet)}${value} [Source: ${row.sheet}, Row ${row.row}]`;
+}
+
+function groupRows(rows: CatalogRow[], column: CatalogColumn): Map<string, CatalogRow[]> {
+  const groups = new Map<string, CatalogRow[]>();
+  for (const row of rows) {
+    const key = String(row.values[column.name] ?? 'Unknown');
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+  return groups;
+}
+
+function extremeRows(rows: CatalogRow[], column: CatalogColumn, aggregate: 'min' | 'max'): CatalogRow[] {
+  const withValue = rows.filter(row => typeof row.values[column.name] === 'number');
+  if (withValue.length === 0) return [];
+
+  const values = withValue.map(row => row.values[column.name] as number);
+  const target = aggregate === 'min' ? Math.min(...values) : Math.max(...values);
+  return withValue.filter(row => row.values[column.name] === target);
+}
+
+/**
+ * Run a plan over every catalog row and summarise the result for the prompt
+ */
+export function executePlan(plan: QueryPlan, catalog: Catalog): PlanResult {
+  const { sheet, filters, aggregate, column, groupBy } = plan;
+  const rows = catalog.rows.filter(row =>
+    row.sheet === sheet.name && filters.every(filter => matchesPlanFilter(row, filter))
+  );
+
+  const lines: string[] = [
+    `Computed over all ${catalog.rows.filter(row => row.sheet === sheet.name).length} rows of sheet "${sheet.name}".`,
+    `Filters: ${filters.length > 0 ? filters.map(describeFilter).join('; ') : 'none'}`,
+    `Matching rows: ${rows.length}`,
+  ];
+
+  if (aggregate === 'count' && groupBy) {
+    lines.push(`Count by ${groupBy.name}:`);
+    for (const [key, groupRowsForKey] of groupRows(rows, groupBy)) {
+      lines.push(`- ${key}: ${groupRowsForKey.length}`);
+    }
+  } else if ((aggregate === 'min' || aggregate === 'max') && column) {
+    const label = aggregate === 'min' ? 'Lowest' : 'Highest';
+    if (groupBy) {
+      lines.push(`${label} ${column.name} by ${groupBy.name}:`);
+      for (const [key, groupRowsForKey] of groupRows(rows, groupBy)) {
+        for (const row of extremeRows(groupRowsForKey, column, aggregate)) {
+          lines.push(`${key}: ${describeRow(row, sheet, column).slice(2)}`);
+        }
+      }
+    } else {
+      lines.push(`${label} ${column.name}:`);
+      for (const row of extremeRows(rows, column, aggregate)) {
+        lines.push(describeRow(row, sheet, column));
+      }
+    }
+  } else if (aggregate === 'list') {
+    const shownColumn = filters.find(filter => filter.column.type === 'number')?.column;
+    for (const row of rows.slice(0, MAX_LISTED_ROWS)) {
+      lines.push(describeRow(row, sheet, shownColumn));
+    }
+    if (rows.length > MAX_LISTED_ROWS) {
+      lines.push(`...and ${rows.length - MAX_LISTED_ROWS} more`);
+    }
+  }
+
+  return { plan, rows, summary: lines.join('\n') };
+}
+
+/**
+ * Translate plan filters into a vector metadata filter so retrieval only
+ * returns chunks for rows that satisfy them
+ */
+export function toVectorFilter(plan: QueryPlan): VectorFilter | undefined {
+  if (plan.filters.length === 0) return undefined;
+
+  const filter: VectorFilter = {};
+  for (const { column, op, value } of plan.filters) {
+    const key = getMetadataKey(column.name);
+    const condition = filter[key] || {};
+    if (op === 'eq') condition.$eq = value as CatalogValue;
+    else if (op === 'in') condition.$in = value as CatalogValue[];
+    else condition[`$${op}`] = value as number;
+    filter[key] = condition;
+  }
+  return filter;
+}
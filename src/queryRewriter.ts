@@ -0,0 +1,168 @@
+import {
+  Catalog,
+  CatalogRow,
+  findCatalogAttributes,
+  findCatalogEntities,
+  getRowLabel,
+} from './catalog';
+import { logger } from './logger';
+import { getChatModel } from './models';
+import { getActiveSpan } from './tracing';
+
+export interface TrackedEntity {
+  sheet: string;
+  row: number;
+  label: string;
+}
+
+export interface QueryRewrite {
+  original: string;
+  /** Question that can be answered without the conversation history */
+  standalone: string;
+  /** How the standalone question was produced */
+  method: 'unchanged' | 'llm' | 'entity';
+  /** Products carried over from earlier turns, most recent first */
+  entities: TrackedEntity[];
+}
+
+// References that only make sense against an earlier turn
+const PRONOUN_PATTERN = /\b(?:its|it|they|them|their|(?:this|that|these|those)\s+(?:product|one|item|model)s?)\b/gi;
+const MAX_TRACKED_ENTITIES = 3;
+const MAX_REWRITE_LENGTH = 300;
+
+function toTrackedEntity(row: CatalogRow, catalog: Catalog): TrackedEntity {
+  const sheet = catalog.sheets.find(s => s.name === row.sheet);
+  return {
+    sheet: row.sheet,
+    row: row.row,
+    label: sheet ? getRowLabel(row, sheet) : `${row.sheet} row ${row.row}`,
+  };
+}
+
+/**
+ * Products discussed most recently, found by scanning turns newest first.
+ * Turns that name more than a few products (e.g. a listing) are skipped as ambiguous.
+ */
+export function trackEntities(
+  conversationHistory: Array<{ role: string; content: string }>,
+  catalog: Catalog | null
+): TrackedEntity[] {
+  if (!catalog) return [];
+
+  for (let i = conversationHistory.length - 1; i >= 0; i--) {
+    const rows = findCatalogEntities(conversationHistory[i].content, catalog);
+    if (rows.length > 0 && rows.length <= MAX_TRACKED_ENTITIES) {
+      return rows.map(row => toTrackedEntity(row, catalog));
+    }
+  }
+  return [];
+}
+
+/**
+ * Rule-based rewrite: substitute pronouns with the tracked product, or attach it
+ * to an elliptical attribute question such as "and the weight?"
+ */
+function rewriteWithEntities(query: string, entities: TrackedEntity[], catalog: Catalog): string | null {
+  if (entities.length === 0) return null;
+  const label = entities.map(entity => entity.label).join(' and ');
+
+  if (query.match(PRONOUN_PATTERN)) {
+    return query.replace(PRONOUN_PATTERN, (match) =>
+      /^(its|their)$/i.test(match) ? `${label}'s` : label
+    );
+  }
+
+  const columns = catalog.sheets
+    .filter(sheet => entities.some(entity => entity.sheet === sheet.name))
+    .flatMap(sheet => sheet.columns);
+  if (findCatalogAttributes(query, columns).length > 0) {
+    const trimmed = query.trim().replace(/[?.!]+$/, '');
+    return `${trimmed} of ${label}?`;
+  }
+
+  return null;
+}
+
+/**
+ * Ask the chat model for a standalone version of a follow-up question
+ */
+async function rewriteWithModel(
+  query: string,
+  conversationHistory: Array<{ role: string; content: string }>,
+  entities: TrackedEntity[],
+  signal?: AbortSignal
+): Promise<string | null> {
+  const transcript = conversationHistory
+    .slice(-6)
+    .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content.substring(0, 500)}`)
+    .join('\n');
+  const entityHint = entities.length > 0
+    ? `\nProduct(s) discussed most recently: ${entities.map(entity => entity.label).join(', ')}`
+    : '';
+
+  const rewritePrompt = `Rewrite the user's latest question so it can be understood without the conversation. Replace pronouns and fill in omitted subjects (such as "it", "that one", "and the weight?") with the product or topic they refer to. If the question is already standalone, return it unchanged.
+
+Conversation:
+${transcript}${entityHint}
+
+Latest question: ${query}
+
+Return only the rewritten question:`;
+
+  try {
+    const rewritten = (await getChatModel().complete(
+      [
+        {
+          role: 'system',
+          content: 'You rewrite follow-up questions into standalone questions for a product search engine.',
+        },
+        {
+          role: 'user',
+          content: rewritePrompt,
+        },
+      ],
+      { temperature: 0, maxTokens: 100, signal }
+    )).trim().replace(/^["']|["']$/g, '');
+
+    if (!rewritten || rewritten.includes('\n') || rewritten.length > MAX_REWRITE_LENGTH) return null;
+    return rewritten;
+  } catch (error) {
+    logger.warn('Query rewriting failed', { error });
+    getActiveSpan()?.recordError(error);
+    return null;
+  }
+}
+
+/**
+ * Turn a follow-up into a standalone question using the conversation so far.
+ * Questions that name their own product, or arrive without history, pass through
+ * unchanged; otherwise the chat model rewrites them, with a rule-based
+ * substitution of the tracked product as fallback.
+ */
+export async function rewriteQuery(
+  query: string,
+  conversationHistory: Array<{ role: string; content: string }>,
+  catalog: Catalog | null,
+  signal?: AbortSignal
+): Promise<QueryRewrite> {
+  const unchanged: QueryRewrite = { original: query, standalone: query, method: 'unchanged', entities: [] };
+  if (conversationHistory.length === 0) return unchanged;
+  if (catalog && findCatalogEntities(query, catalog).length > 0) return unchanged;
+
+  const entities = trackEntities(conversationHistory, catalog);
+
+  const modelRewrite = await rewriteWithModel(query, conversationHistory, entities, signal);
+  if (modelRewrite) {
+    return {
+      original: query,
+      standalone: modelRewrite,
+      method: modelRewrite === query ? 'unchanged' : 'llm',
+      entities,
+    };
+  }
+
+  const entityRewrite = catalog ? rewriteWithEntities(query, entities, catalog) : null;
+  return entityRewrite
+    ? { original: query, standalone: entityRewrite, method: 'entity', entities }
+    : { ...unchanged, entities };
+}
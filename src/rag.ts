@@ -1,84 +1,314 @@
-import { Pinecone } from '@pinecone-database/pinecone';
-import OpenAI from 'openai';
-
-// Lazy initialization to check env vars only when needed
-function getOpenAIClient() {
-  const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-  if (!OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY environment variable is not set');
-  }
-  return new OpenAI({ apiKey: OPENAI_API_KEY });
+import {
+  Catalog,
+  CatalogRow,
+  ProductSummary,
+  answerFromCatalog,
+  formatCatalogValue,
+  getProductSummary,
+  loadCatalog,
+  normalize,
+} from './catalog';
+import { PlanResult, executePlan, planQuery, toVectorFilter } from './queryPlanner';
+import { ChatMessage, getChatModel, getEmbeddingModel } from './models';
+import { QueryRewrite, rewriteQuery } from './queryRewriter';
+import { VectorFilter, getVectorStore } from './vectorStore';
+import { loadLexicalIndex, searchLexicalIndex } from './lexicalIndex';
+import { BudgetedStage, createLatencyBudget, withTimeout } from './latencyBudget';
+import {
+  CacheStore,
+  getAnswerCacheSimilarity,
+  getAnswerCacheTtlMs,
+  getCacheStore,
+  getEmbeddingCacheTtlMs,
+} from './cache';
+import { getModelProvider } from './config';
+import { loadIndexVersion } from './manifest';
+import { cosineSimilarity } from './vectorStore';
+import { RAGError, VectorStoreUnavailableError } from './errors';
+import { logger } from './logger';
+import { getActiveSpan, withSpan } from './tracing';
+
+export {
+  ConfigError,
+  ContentBlockedError,
+  RAGError,
+  UpstreamTimeoutError,
+  VectorStoreUnavailableError,
+} from './errors';
+
+export interface RAGSource {
+  sheet: string;
+  row?: number;
+  /** Human-readable origin, e.g. "Sheet1, Row 2" or "manual.pdf, Page 3" */
+  label: string;
+  text: string;
+  /** Set when the source is a product row of the catalog */
+  product?: ProductSummary;
 }
 
-function getPineconeClient() {
-  const PINECONE_API_KEY = process.env.PINECONE_API_KEY;
-  if (!PINECONE_API_KEY) {
-    throw new Error('PINECONE_API_KEY environment variable is not set');
-  }
-  return new Pinecone({ apiKey: PINECONE_API_KEY });
+export interface ChunkScores {
+  /** Cosine similarity from the vector store */
+  dense?: number;
+  /** BM25 score from the lexical index */
+  lexical?: number;
+  /** Reciprocal rank fusion of both rankings */
+  fused: number;
 }
 
-function getPineconeIndex() {
-  const PINECONE_INDEX = process.env.PINECONE_INDEX;
-  if (!PINECONE_INDEX) {
-    throw new Error('PINECONE_INDEX environment variable is not set');
-  }
-  return PINECONE_INDEX;
+export interface RAGDebug {
+  /** Standalone form of the question used for lookup and retrieval */
+  rewrittenQuery: string;
+  rewriteMethod: QueryRewrite['method'];
+  /** Products carried over from earlier turns */
+  trackedEntities: string[];
+  /** Chunks given to the model, in prompt order, with their retrieval scores */
+  retrieval?: Array<{ id: string; label: string; scores: ChunkScores }>;
+  /** Optional stages dropped to stay within the latency budget */
+  skippedStages: BudgetedStage[];
+  /** Answer cache outcome; absent when the cache was not consulted */
+  cache?: 'exact' | 'semantic' | 'miss';
+  /** Pipeline intermediates; only with the `explain` option */
+  explain?: RAGExplanation;
+}
+
+export interface ExplainedMatch {
+  id: string;
+  label: string;
+  score: number;
+}
+
+/**
+ * What each retrieval stage saw and decided, for diagnosing wrong answers.
+ * Stages that did not run leave their fields out.
+ */
+export interface RAGExplanation {
+  /** Phrasings sent to retrieval; the first is the standalone question */
+  expandedQueries?: string[];
+  /** Raw vector store matches for each phrasing, before de-duplication */
+  vectorQueries?: Array<{ query: string; matches: ExplainedMatch[]; error?: string }>;
+  /** BM25 matches for the standalone question */
+  lexicalMatches?: ExplainedMatch[];
+  /** Dense score a chunk must exceed to be kept without a lexical match */
+  scoreThreshold?: number;
+  /** Every fused candidate, best first */
+  candidates?: Array<{ id: string; label: string; scores: ChunkScores; passedThreshold: boolean }>;
+  /** Fewer than 3 candidates passed, so the top fused candidates were kept instead */
+  thresholdRelaxed?: boolean;
+  /** Chunk IDs in the order the re-ranker returned them; absent when it did not run */
+  rerankedOrder?: string[];
+  /** Last user message sent to the chat model, with the retrieved context */
+  prompt?: string;
 }
 
-interface RAGResult {
+export interface RAGResult {
   answer: string;
-  sources?: Array<{ sheet: string; row?: number; text: string }>;
+  /** Source n is cited as [n] in the answer */
+  sources?: RAGSource[];
+  debug?: RAGDebug;
+}
+
+export type RAGStage = 'rewriting' | 'expanding' | 'retrieving' | 'reranking' | 'generating';
+
+export type RAGEvent =
+  | { type: 'progress'; stage: RAGStage }
+  | { type: 'token'; text: string };
+
+export interface RAGOptions {
+  /** Receives pipeline progress and answer token deltas as they happen */
+  onEvent?: (event: RAGEvent) => void;
+  /** Overrides RAG_LATENCY_BUDGET_MS for this call */
+  latencyBudgetMs?: number;
+  /** Return the pipeline intermediates in `debug.explain` */
+  explain?: boolean;
+  /** Stops the remaining model and vector calls, e.g. when the client disconnects */
+  signal?: AbortSignal;
+}
+
+interface RetrievedChunk {
+  id: string;
+  text: string;
+  metadata: any;
+  score: number;
+  scores?: ChunkScores;
+}
+
+// Standard RRF damping constant; keeps low ranks from dominating the fused score
+const RRF_K = 60;
+const LEXICAL_TOP_K = 5;
+// Dense hits at or below this cosine similarity need a lexical match to be kept
+const DENSE_SCORE_THRESHOLD = 0.4;
+
+/** Answer given when nothing relevant was retrieved; analytics counts it as "no answer" */
+export const NO_ANSWER_MESSAGE = "I couldn't find specific information about that in my knowledge base. Could you please provide more details or rephrase your question? I'm here to help with questions about our products and services.";
+
+interface CachedAnswer {
+  query: string;
+  /** Embedding of `query`, for semantic matching */
+  embedding?: number[];
+  result: RAGResult;
 }
 
 /**
- * Generate embedding for a query
+ * Embed queries, reusing cached embeddings and batching the misses into one request
  */
-async function generateQueryEmbedding(query: string): Promise<number[]> {
-  const openai = getOpenAIClient();
-  const response = await openai.embeddings.create({
-    model: 'text-embedding-3-large',
-    input: query,
-    dimensions: 1024, // Match your Pinecone index dimensions
+async function embedQueries(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+  return withSpan('rag.embed', { 'rag.embed.texts': texts.length }, async (span) => {
+    const cache = getCacheStore();
+    const keys = texts.map(text => `embedding:${getModelProvider()}:${text}`);
+    const embeddings: Array<number[] | null> = cache
+      ? await Promise.all(keys.map(key => cache.get<number[]>(key)))
+      : texts.map(() => null);
+
+    const missing = texts.filter((_, idx) => !embeddings[idx]);
+    span.setAttribute('rag.embed.cache_hits', texts.length - missing.length);
+    if (missing.length > 0) {
+      const fresh = await getEmbeddingModel().embedBatch(missing, signal);
+      let next = 0;
+      for (let idx = 0; idx < texts.length; idx++) {
+        if (embeddings[idx]) continue;
+        embeddings[idx] = fresh[next++];
+        await cache?.set(keys[idx], embeddings[idx], getEmbeddingCacheTtlMs());
+      }
+    }
+
+    return embeddings as number[][];
   });
+}
+
+/**
+ * Answers are keyed by the knowledge-base version, so re-ingestion invalidates them
+ */
+function getAnswerCacheKey(indexVersion: string, query: string): string {
+  return `answer:${indexVersion}:${normalize(query)}`;
+}
 
-  return response.data[0].embedding;
+/**
+ * Look up a cached answer by normalized query, then (if enabled) by embedding similarity
+ */
+async function findCachedAnswer(
+  cache: CacheStore,
+  indexVersion: string,
+  query: string,
+  signal?: AbortSignal
+): Promise<{ result: RAGResult; match: 'exact' | 'semantic' } | null> {
+  const exact = await cache.get<CachedAnswer>(getAnswerCacheKey(indexVersion, query));
+  if (exact) return { result: exact.result, match: 'exact' };
+
+  const threshold = getAnswerCacheSimilarity();
+  if (threshold === null) return null;
+
+  const [embedding] = await embedQueries([query], signal);
+  let best: { result: RAGResult; similarity: number } | null = null;
+  for (const { value } of await cache.entries<CachedAnswer>(`answer:${indexVersion}:`)) {
+    if (!value.embedding) continue;
+    const similarity = cosineSimilarity(embedding, value.embedding);
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { result: value.result, similarity };
+    }
+  }
+  return best ? { result: best.result, match: 'semantic' } : null;
+}
+
+/**
+ * Cache a generated answer; failures only cost a future cache miss
+ */
+async function cacheAnswer(
+  cache: CacheStore,
+  indexVersion: string,
+  query: string,
+  embedding: number[] | undefined,
+  result: RAGResult
+): Promise<void> {
+  try {
+    const entry: CachedAnswer = { query, embedding, result: { answer: result.answer, sources: result.sources } };
+    await cache.set(getAnswerCacheKey(indexVersion, query), entry, getAnswerCacheTtlMs());
+  } catch (error) {
+    logger.warn('Answer cache write failed', { error });
+  }
 }
 
 /**
- * Retrieve relevant chunks from Pinecone
+ * Retrieve relevant chunks from the vector store, giving up after `timeoutMs`
  */
 async function retrieveChunks(
   queryEmbedding: number[],
-  topK: number = 10
-): Promise<Array<{ text: string; metadata: any; score: number }>> {
-  const pinecone = getPineconeClient();
-  const indexName = getPineconeIndex();
-  const index = pinecone.index(indexName);
-  
-  const queryResponse = await index.query({
-    vector: queryEmbedding,
-    topK: Math.min(topK, 20), // Cap at 20 for performance
-    includeMetadata: true,
+  topK: number,
+  filter: VectorFilter | undefined,
+  timeoutMs: number,
+  label: string
+): Promise<RetrievedChunk[]> {
+  const attributes = { 'rag.vector.top_k': topK, 'rag.vector.filtered': filter !== undefined };
+  return withSpan('rag.vector_query', attributes, async (span) => {
+    const matches = await withTimeout(
+      getVectorStore().query(
+        queryEmbedding,
+        Math.min(topK, 20), // Cap at 20 for performance
+        filter
+      ),
+      timeoutMs,
+      label
+    );
+    span.setAttribute('rag.vector.matches', matches.length);
+
+    return matches.map((match) => ({
+      id: match.id,
+      text: match.metadata?.text || '',
+      metadata: match.metadata || {},
+      score: match.score || 0,
+    }));
   });
+}
 
-  return (queryResponse.matches || []).map((match: any) => ({
-    text: match.metadata?.text || '',
-    metadata: match.metadata || {},
-    score: match.score || 0,
+/**
+ * Retrieve chunks from the BM25 index built at ingestion, if there is one.
+ * Catches exact SKUs, model numbers and brand names that embeddings blur.
+ */
+function retrieveLexicalChunks(query: string, topK: number, filter?: VectorFilter): RetrievedChunk[] {
+  const index = loadLexicalIndex();
+  if (!index) return [];
+
+  return searchLexicalIndex(index, query, topK, filter).map((match) => ({
+    id: match.id,
+    text: match.metadata.text || '',
+    metadata: match.metadata,
+    score: match.score,
   }));
 }
 
+/**
+ * Merge dense and lexical rankings with reciprocal rank fusion.
+ * Each chunk's score becomes its fused score; the originals are kept in `scores`.
+ */
+export function fuseRankings(dense: RetrievedChunk[], lexical: RetrievedChunk[]): RetrievedChunk[] {
+  const fused = new Map<string, RetrievedChunk & { scores: ChunkScores }>();
+
+  const addRanking = (chunks: RetrievedChunk[], kind: 'dense' | 'lexical') => {
+    chunks.forEach((chunk, rank) => {
+      const entry = fused.get(chunk.id) || { ...chunk, scores: { fused: 0 } };
+      entry.scores[kind] = chunk.score;
+      entry.scores.fused += 1 / (RRF_K + rank + 1);
+      entry.score = entry.scores.fused;
+      fused.set(chunk.id, entry);
+    });
+  };
+
+  addRanking([...dense].sort((a, b) => b.score - a.score), 'dense');
+  addRanking(lexical, 'lexical');
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
 /**
  * Re-rank chunks by relevance using LLM
  */
 async function rerankChunks(
   query: string,
-  chunks: Array<{ text: string; metadata: any; score: number }>
-): Promise<Array<{ text: string; metadata: any; score: number }>> {
+  chunks: RetrievedChunk[],
+  signal?: AbortSignal
+): Promise<RetrievedChunk[]> {
   if (chunks.length <= 3) return chunks; // No need to re-rank small sets
 
-  const openai = getOpenAIClient();
+  const chatModel = getChatModel();
   
   const chunksText = chunks
     .map((chunk, idx) => `[${idx}] ${chunk.text.substring(0, 300)}`)
@@ -94,9 +324,8 @@ ${chunksText}
 Return only a comma-separated list of chunk indices in order of relevance (e.g., "2,0,1,3"):`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
+    const ranked = await chatModel.complete(
+      [
         {
           role: 'system',
           content: 'You are a relevance ranking expert. Rank information chunks by how well they answer the user question.',
@@ -106,11 +335,9 @@ Return only a comma-separated list of chunk indices in order of relevance (e.g.,
           content: rerankPrompt,
         },
       ],
-      temperature: 0.3,
-      max_tokens: 100,
-    });
+      { temperature: 0.3, maxTokens: 100, signal }
+    );
 
-    const ranked = response.choices[0]?.message?.content || '';
     const indices = ranked
       .split(',')
       .map(s => parseInt(s.trim()))
@@ -120,27 +347,68 @@ Return only a comma-separated list of chunk indices in order of relevance (e.g.,
       return indices.map(idx => chunks[idx]);
     }
   } catch (error) {
-    console.error('Re-ranking error:', error);
+    logger.warn('Re-ranking failed, keeping retrieval order', { error });
+    getActiveSpan()?.recordError(error);
   }
 
   // Fallback: return chunks sorted by score
   return chunks.sort((a, b) => b.score - a.score);
 }
 
+function toExplainedMatch(chunk: RetrievedChunk): ExplainedMatch {
+  return { id: chunk.id, label: formatSourceLabel(chunk.metadata) || 'Unknown', score: chunk.score };
+}
+
+/**
+ * Origin of a chunk: spreadsheet row, Markdown section or PDF page
+ */
+function formatSourceLabel(metadata: Record<string, any>): string {
+  if (!metadata.sheet) return '';
+  if (metadata.page) return `${metadata.sheet}, Page ${metadata.page}`;
+  if (metadata.section) return `${metadata.sheet}, "${metadata.section}" (Line ${metadata.row})`;
+  return `${metadata.sheet}${metadata.row ? `, Row ${metadata.row}` : ''}`;
+}
+
+/**
+ * Product card fields for a catalog row, if the row is a product
+ */
+function findProduct(catalog: Catalog | null, row: CatalogRow | undefined): ProductSummary | undefined {
+  if (!row || !catalog) return undefined;
+  const sheet = catalog.sheets.find(s => s.name === row.sheet);
+  return (sheet && getProductSummary(row, sheet)) || undefined;
+}
+
+/**
+ * Source entry for a prompt chunk, kept in the same order as the prompt numbering
+ */
+function toSource(chunk: { text: string; metadata: any }, catalog: Catalog | null): RAGSource {
+  const row = chunk.metadata.row === undefined ? undefined : catalog?.rows.find(
+    candidate => candidate.sheet === chunk.metadata.sheet && candidate.row === chunk.metadata.row
+  );
+  const product = findProduct(catalog, row);
+  return {
+    sheet: chunk.metadata.sheet || 'Unknown',
+    row: chunk.metadata.row,
+    label: formatSourceLabel(chunk.metadata) || 'Unknown',
+    text: chunk.text.substring(0, 200) + (chunk.text.length > 200 ? '...' : ''),
+    ...(product ? { product } : {}),
+  };
+}
+
 /**
  * Build RAG prompt with context and conversation history
  */
 function buildRAGPrompt(
   query: string, 
   chunks: Array<{ text: string; metadata: any }>,
-  conversationHistory: Array<{ role: string; content: string }> = []
+  conversationHistory: Array<{ role: string; content: string }> = [],
+  structuredResult?: PlanResult,
+  standaloneQuery: string = query
 ): string {
   const contextText = chunks
     .map((chunk, idx) => {
-      const source = chunk.metadata.sheet 
-        ? `[Source: ${chunk.metadata.sheet}${chunk.metadata.row ? `, Row ${chunk.metadata.row}` : ''}]`
-        : '';
-      return `${idx + 1}. ${source} ${chunk.text}`;
+      const label = formatSourceLabel(chunk.metadata);
+      return `${idx + 1}. ${label ? `[Source: ${label}] ` : ''}${chunk.text}`;
     })
     .join('\n\n');
 
@@ -158,6 +426,15 @@ function buildRAGPrompt(
       '\n\nNote: When the user asks follow-up questions (like "tell me the category", "what about the price", etc.), they are referring to the topic discussed in the previous conversation. Use the conversation history to understand what they are asking about.';
   }
 
+  // Exact results computed over the whole product table, not just the retrieved chunks
+  const structuredContext = structuredResult
+    ? `\n\nStructured Query Result (computed over the full product table; use it for counts, filters, minimums and maximums):\n${structuredResult.summary}`
+    : '';
+
+  const interpretation = standaloneQuery !== query
+    ? `\n(Understood as: ${standaloneQuery})`
+    : '';
+
   return `You are Nick, an expert AI assistant specializing in product information. Your goal is to provide 100% accurate answers based on the provided context.
 
 CRITICAL INSTRUCTIONS:
@@ -167,27 +444,30 @@ CRITICAL INSTRUCTIONS:
 4. PRODUCT-SPECIFIC: When answering about products, include all relevant details: name, category, price, features, specifications, etc. from the context.
 5. UNCERTAINTY: If the exact information is not in the context, say "Based on the available information, [partial answer]. However, [specific detail] is not available in my knowledge base."
 6. FORMAT: Be friendly, professional, and comprehensive. Structure your answer clearly.
+7. CITATIONS: After each fact, cite the numbered Knowledge Base Context entry it came from as [n], e.g. "weighs 1.6kg [2]". Cite several entries as [1][3]. Only use numbers that appear in the context.
 
 Knowledge Base Context:
-${contextText}${conversationContext}
+${contextText}${structuredContext}${conversationContext}
 
 Current User Question:
-${query}
+${query}${interpretation}
 
 Provide a complete, accurate answer based ONLY on the Knowledge Base Context above:`;
 }
 
 /**
- * Generate answer using OpenAI LLM with conversation history
+ * Generate answer using the chat model with conversation history
  */
 async function generateAnswer(
   prompt: string,
-  conversationHistory: Array<{ role: string; content: string }> = []
+  conversationHistory: Array<{ role: string; content: string }> = [],
+  onToken?: (text: string) => void,
+  signal?: AbortSignal
 ): Promise<string> {
-  const openai = getOpenAIClient();
+  const chatModel = getChatModel();
   
   // Build messages array with conversation history
-  const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
+  const messages: ChatMessage[] = [
     {
       role: 'system',
       content: `You are Nick, an expert AI assistant with 100% accuracy requirements. Your responses must be:
@@ -218,14 +498,36 @@ When users ask follow-up questions, use the conversation history to understand w
     content: prompt,
   });
 
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o', // Can be changed to gpt-4.1 or gpt-5 when available
-    messages: messages,
-    temperature: 0.3,
-    max_tokens: 500,
+  const chatOptions = { temperature: 0.3, maxTokens: 500, signal };
+  const attributes = { 'rag.generate.history_messages': recentHistory.length, 'rag.generate.streaming': !!onToken };
+
+  return withSpan('rag.generate', attributes, async () => {
+    if (!onToken) {
+      const answer = await chatModel.complete(messages, chatOptions);
+      return answer || 'Unable to generate answer.';
+    }
+
+    // Stream tokens to the caller while accumulating the full answer
+    let answer = '';
+    for await (const token of chatModel.stream(messages, chatOptions)) {
+      answer += token;
+      onToken(token);
+    }
+
+    if (!answer) {
+      answer = 'Unable to generate answer.';
+      onToken(answer);
+    }
+    return answer;
   });
+}
 
-  return response.choices[0]?.message?.content || 'Unable to generate answer.';
+/**
+ * Check for a whole-word phrase, so "hi" does not match "which" or "machine"
+ */
+function containsPhrase(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z'])${escaped}($|[^a-z'])`).test(text);
 }
 
 /**
@@ -244,8 +546,8 @@ function isGreetingOrConversational(query: string): boolean {
     'what can you do', 'help', 'who are you', 'what are you'
   ];
 
-  return greetings.some(greeting => lowerQuery.includes(greeting)) ||
-         conversational.some(phrase => lowerQuery.includes(phrase)) ||
+  return greetings.some(greeting => containsPhrase(lowerQuery, greeting)) ||
+         conversational.some(phrase => containsPhrase(lowerQuery, phrase)) ||
          lowerQuery.length < 10 && /^[a-z\s]+$/.test(lowerQuery);
 }
 
@@ -255,7 +557,7 @@ function isGreetingOrConversational(query: string): boolean {
 async function handleConversationalQuery(query: string): Promise<string> {
   const lowerQuery = query.toLowerCase().trim();
   
-  if (lowerQuery.includes('hello') || lowerQuery.includes('hi') || lowerQuery.includes('hey')) {
+  if (containsPhrase(lowerQuery, 'hello') || containsPhrase(lowerQuery, 'hi') || containsPhrase(lowerQuery, 'hey')) {
     return "Hello! I'm Nick, your AI assistant. I'm here to help you with questions about our products and services. What would you like to know?";
   }
   
@@ -263,7 +565,7 @@ async function handleConversationalQuery(query: string): Promise<string> {
     return "You're welcome! Is there anything else I can help you with?";
   }
   
-  if (lowerQuery.includes('bye') || lowerQuery.includes('goodbye')) {
+  if (containsPhrase(lowerQuery, 'bye') || containsPhrase(lowerQuery, 'goodbye')) {
     return "Goodbye! Feel free to come back if you have any questions. Have a great day!";
   }
   
@@ -271,7 +573,7 @@ async function handleConversationalQuery(query: string): Promise<string> {
     return "I'm doing great, thank you for asking! I'm here and ready to help you with any questions about our products. What can I assist you with today?";
   }
   
-  if (lowerQuery.includes('what can you do') || lowerQuery.includes('help')) {
+  if (lowerQuery.includes('what can you do') || containsPhrase(lowerQuery, 'help')) {
     return "I can help you find information about our products and services. Just ask me questions like 'What products do you have?', 'Tell me about product X', or any other questions about our offerings. What would you like to know?";
   }
   
@@ -284,34 +586,23 @@ async function handleConversationalQuery(query: string): Promise<string> {
 }
 
 /**
- * Expand and rewrite query using LLM for better retrieval
+ * Expand a standalone query into alternative phrasings for better retrieval
  */
-async function expandQuery(query: string, conversationHistory: Array<{ role: string; content: string }>): Promise<string[]> {
-  const openai = getOpenAIClient();
-  
-  // Build context from conversation history
-  const contextSummary = conversationHistory.length > 0
-    ? `Previous conversation context: ${conversationHistory
-        .slice(-4)
-        .map(msg => `${msg.role}: ${msg.content}`)
-        .join(' | ')}`
-    : '';
+async function expandQuery(query: string, signal?: AbortSignal): Promise<string[]> {
+  const chatModel = getChatModel();
 
-  const expansionPrompt = `Given the user's question and conversation context, generate 3-5 alternative phrasings and expanded queries that would help find relevant information in a product database. Include:
+  const expansionPrompt = `Given the user's question, generate 3-5 alternative phrasings and expanded queries that would help find relevant information in a product database. Include:
 1. The original query
 2. Synonyms and related terms
 3. Product-specific variations
-4. Context-aware expansions if there's conversation history
 
 User question: ${query}
-${contextSummary}
 
 Return only the expanded queries, one per line, without numbering or bullets:`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
+    const expanded = await chatModel.complete(
+      [
         {
           role: 'system',
           content: 'You are a query expansion expert. Generate alternative phrasings of user queries to improve information retrieval.',
@@ -321,11 +612,8 @@ Return only the expanded queries, one per line, without numbering or bullets:`;
           content: expansionPrompt,
         },
       ],
-      temperature: 0.7,
-      max_tokens: 200,
-    });
-
-    const expanded = response.choices[0]?.message?.content || query;
+      { temperature: 0.7, maxTokens: 200, signal }
+    ) || query;
     const queries = expanded
       .split('\n')
       .map(q => q.trim())
@@ -335,63 +623,42 @@ Return only the expanded queries, one per line, without numbering or bullets:`;
     // Always include original query
     return [query, ...queries.filter(q => q !== query)].slice(0, 5);
   } catch (error) {
-    console.error('Query expansion error:', error);
+    logger.warn('Query expansion failed, using the original query', { error });
+    getActiveSpan()?.recordError(error);
     return [query]; // Fallback to original query
   }
 }
 
 /**
- * Extract product/entity context from conversation history
+ * Main RAG function with conversation history - Enhanced for maximum accuracy.
+ * Runs in a `rag.run` span with a child span per stage.
  */
-function extractContextFromHistory(conversationHistory: Array<{ role: string; content: string }>): string {
-  if (conversationHistory.length === 0) return '';
-
-  // Get all recent messages
-  const recentMessages = conversationHistory.slice(-6);
-  
-  // Extract from user messages (product names, entities)
-  const userMessages = recentMessages
-    .filter(msg => msg.role === 'user')
-    .map(msg => msg.content)
-    .join(' ');
-
-  // Extract from assistant messages (might contain product info)
-  const assistantMessages = recentMessages
-    .filter(msg => msg.role === 'assistant')
-    .map(msg => msg.content)
-    .join(' ');
-
-  // Combine all context
-  const allContext = [userMessages, assistantMessages]
-    .filter(s => s.length > 0)
-    .join(' ');
-  
-  return allContext;
-}
-
-/**
- * Check if query is a follow-up question
- */
-function isFollowUpQuestion(query: string): boolean {
-  const lowerQuery = query.toLowerCase();
-  const followUpPatterns = [
-    'tell me', 'what about', 'what is', 'what are', 'how much', 'how many',
-    'what\'s the', 'what are the', 'give me', 'show me', 'can you tell',
-    'category', 'price', 'cost', 'description', 'details', 'specification',
-    'features', 'benefits', 'about it', 'about that', 'more about',
-    'the same', 'that product', 'this product', 'it', 'they', 'them'
-  ];
-  
-  return followUpPatterns.some(pattern => lowerQuery.includes(pattern));
+export async function runRAG(
+  query: string,
+  conversationHistory: Array<{ role: string; content: string }> = [],
+  options: RAGOptions = {}
+): Promise<RAGResult> {
+  return withSpan('rag.run', { 'rag.history_messages': conversationHistory.length }, async (span) => {
+    const result = await answerQuestion(query, conversationHistory, options);
+    span.setAttributes({
+      'rag.rewrite_method': result.debug?.rewriteMethod,
+      'rag.cache': result.debug?.cache,
+      'rag.skipped_stages': result.debug?.skippedStages.join(',') || undefined,
+      'rag.sources': result.sources?.length ?? 0,
+    });
+    return result;
+  });
 }
 
-/**
- * Main RAG function with conversation history - Enhanced for maximum accuracy
- */
-export async function runRAG(
+async function answerQuestion(
   query: string,
-  conversationHistory: Array<{ role: string; content: string }> = []
+  conversationHistory: Array<{ role: string; content: string }>,
+  options: RAGOptions
 ): Promise<RAGResult> {
+  const emit = options.onEvent || (() => {});
+  const onToken = options.onEvent ? (text: string) => emit({ type: 'token', text }) : undefined;
+  const budget = createLatencyBudget(options.latencyBudgetMs, options.signal);
+
   try {
     // Handle greetings and conversational queries (only if no conversation history)
     if (conversationHistory.length === 0 && isGreetingOrConversational(query)) {
@@ -401,127 +668,263 @@ export async function runRAG(
       };
     }
 
-    // Step 1: Expand query for better retrieval
-    const expandedQueries = await expandQuery(query, conversationHistory);
-    
-    // Step 2: Extract context from conversation history
-    const contextFromHistory = extractContextFromHistory(conversationHistory);
-    const isFollowUp = isFollowUpQuestion(query);
+    // Step 0: Resolve follow-ups ("what about its weight?") into a standalone question
+    const catalog = loadCatalog();
+    if (conversationHistory.length > 0) {
+      emit({ type: 'progress', stage: 'rewriting' });
+    }
+    const rewrite = await withSpan('rag.rewrite', {}, async (span) => {
+      const result = await rewriteQuery(query, conversationHistory, catalog, budget.signal('rewriting'));
+      span.setAttributes({ 'rag.rewrite.method': result.method, 'rag.rewrite.entities': result.entities.length });
+      return result;
+    });
+    const searchQuery = rewrite.standalone;
+    const debug: RAGDebug = {
+      rewrittenQuery: rewrite.standalone,
+      rewriteMethod: rewrite.method,
+      trackedEntities: rewrite.entities.map(entity => entity.label),
+      skippedStages: [],
+      ...(options.explain ? { explain: {} } : {}),
+    };
+    const explain = debug.explain;
 
-    // Step 3: Try multiple retrieval strategies
-    let allChunks: Array<{ text: string; metadata: any; score: number }> = [];
-    const seenTexts = new Set<string>();
+    // Step 1: Answer exact product/attribute questions from the catalog
+    const catalogMatch = answerFromCatalog(searchQuery, catalog);
+    if (catalogMatch) {
+      return {
+        answer: catalogMatch.answer,
+        sources: catalogMatch.rows.map((row) => ({
+          sheet: row.sheet,
+          row: row.row,
+          label: `${row.sheet}, Row ${row.row}`,
+          text: catalogMatch.columns
+            .map((column) => {
+              const value = row.values[column.name];
+              return `${column.name}: ${value === undefined ? 'N/A' : formatCatalogValue(column, value)}`;
+            })
+            .join(' | '),
+          product: findProduct(catalog, row),
+        })),
+        debug,
+      };
+    }
 
-    // Strategy 1: Try each expanded query
-    for (const expandedQuery of expandedQueries.slice(0, 3)) { // Limit to 3 to avoid too many API calls
+    // Reuse answers to first-turn questions; follow-up answers depend on the history
+    const answerCache = conversationHistory.length === 0 ? getCacheStore() : null;
+    const indexVersion = loadIndexVersion();
+    if (answerCache) {
       try {
-        const embedding = await generateQueryEmbedding(expandedQuery);
-        const chunks = await retrieveChunks(embedding, 10);
-        
-        // Add unique chunks
-        for (const chunk of chunks) {
-          const chunkKey = chunk.text.substring(0, 100);
-          if (!seenTexts.has(chunkKey)) {
-            seenTexts.add(chunkKey);
-            allChunks.push(chunk);
-          }
+        const cached = await withSpan('rag.cache_lookup', {}, async (span) => {
+          const match = await findCachedAnswer(answerCache, indexVersion, searchQuery, budget.signal('retrieving'));
+          span.setAttribute('rag.cache.result', match ? match.match : 'miss');
+          return match;
+        });
+        debug.cache = cached ? cached.match : 'miss';
+        if (cached) {
+          onToken?.(cached.result.answer);
+          return { ...cached.result, debug };
         }
       } catch (error) {
-        console.error('Retrieval error for expanded query:', error);
+        logger.warn('Answer cache lookup failed', { error });
       }
     }
 
-    // Strategy 2: If follow-up, try with context-enhanced query
-    if (isFollowUp && contextFromHistory && allChunks.length < 5) {
-      try {
-        const contextQuery = `${contextFromHistory} ${query}`;
-        const embedding = await generateQueryEmbedding(contextQuery);
-        const chunks = await retrieveChunks(embedding, 10);
-        
-        for (const chunk of chunks) {
-          const chunkKey = chunk.text.substring(0, 100);
-          if (!seenTexts.has(chunkKey)) {
-            seenTexts.add(chunkKey);
-            allChunks.push(chunk);
-          }
+    // Plan filter/aggregate questions over the full product table
+    const plan = planQuery(searchQuery, catalog);
+    const structuredResult = plan && catalog ? executePlan(plan, catalog) : undefined;
+    const vectorFilter = plan ? toVectorFilter(plan) : undefined;
+
+    // Step 2: Expand query for better retrieval, unless the budget is running out
+    let expandedQueries = [searchQuery];
+    if (budget.canAfford('expanding')) {
+      emit({ type: 'progress', stage: 'expanding' });
+      expandedQueries = await withSpan('rag.expand', {}, async (span) => {
+        const queries = await expandQuery(searchQuery, budget.signal('expanding'));
+        span.setAttribute('rag.expand.queries', queries.length);
+        return queries;
+      });
+    } else {
+      debug.skippedStages.push('expanding');
+    }
+    if (explain) explain.expandedQueries = expandedQueries;
+
+    // Step 3: Retrieve chunks for each phrasing
+    emit({ type: 'progress', stage: 'retrieving' });
+    const retrievalQueries = expandedQueries.slice(0, 3); // Limit to 3 to keep vector queries cheap
+    let queryEmbeddings: number[][] = [];
+    let embeddingError: unknown;
+    try {
+      // One embedding request for all phrasings not already cached
+      queryEmbeddings = await embedQueries(retrievalQueries, budget.signal('retrieving'));
+    } catch (error) {
+      logger.error('Query embedding failed', { error });
+      embeddingError = error;
+    }
+
+    // Query the vector store for every phrasing at once
+    const vectorErrors = new Map<number, unknown>();
+    const retrievedLists = await Promise.all(
+      queryEmbeddings.map((embedding, idx) =>
+        retrieveChunks(embedding, 10, vectorFilter, budget.stageTimeout('retrieving'), 'Vector query')
+          .catch((error) => {
+            logger.error('Vector query failed for expanded query', { error });
+            vectorErrors.set(idx, error);
+            return [] as RetrievedChunk[];
+          })
+      )
+    );
+    if (explain) {
+      explain.vectorQueries = retrievedLists.map((chunks, idx) => {
+        const error = vectorErrors.get(idx);
+        return {
+          query: retrievalQueries[idx],
+          matches: chunks.map(toExplainedMatch),
+          ...(error !== undefined ? { error: error instanceof Error ? error.message : String(error) } : {}),
+        };
+      });
+    }
+
+    const allChunks: RetrievedChunk[] = [];
+    const seenTexts = new Set<string>();
+    for (const chunks of retrievedLists) {
+      // Add unique chunks
+      for (const chunk of chunks) {
+        const chunkKey = chunk.text.substring(0, 100);
+        if (!seenTexts.has(chunkKey)) {
+          seenTexts.add(chunkKey);
+          allChunks.push(chunk);
         }
-      } catch (error) {
-        console.error('Context-enhanced retrieval error:', error);
       }
     }
 
-    // Step 4: Filter and re-rank chunks
-    const scoreThreshold = isFollowUp ? 0.25 : 0.4; // Lower threshold for better recall
-    let relevantChunks = allChunks.filter(chunk => chunk.score > scoreThreshold);
+    // Step 4: Fuse with lexical matches, then keep confident dense hits and every lexical hit
+    const lexicalChunks = await withSpan('rag.lexical', { 'rag.lexical.top_k': LEXICAL_TOP_K }, async (span) => {
+      const chunks = retrieveLexicalChunks(searchQuery, LEXICAL_TOP_K, vectorFilter);
+      span.setAttribute('rag.lexical.matches', chunks.length);
+      return chunks;
+    });
+    const fusedChunks = fuseRankings(allChunks, lexicalChunks);
+    if (explain) explain.lexicalMatches = lexicalChunks.map(toExplainedMatch);
+    // With nothing else to answer from, failed retrieval must not look like "no results"
+    const vectorStoreFailed = vectorErrors.size > 0 && vectorErrors.size === queryEmbeddings.length;
+    if (fusedChunks.length === 0 && !structuredResult && (embeddingError !== undefined || vectorStoreFailed)) {
+      const error = embeddingError ?? vectorErrors.values().next().value;
+      throw error instanceof RAGError || embeddingError !== undefined
+        ? error
+        : new VectorStoreUnavailableError(undefined, { cause: error });
+    }
+    const passesThreshold = (chunk: RetrievedChunk) =>
+      (chunk.scores?.dense ?? 0) > DENSE_SCORE_THRESHOLD || chunk.scores?.lexical !== undefined;
+    let relevantChunks = fusedChunks.filter(passesThreshold);
     
     // If still not enough chunks, lower threshold further
-    if (relevantChunks.length < 3 && allChunks.length > 0) {
-      relevantChunks = allChunks
-        .sort((a, b) => b.score - a.score)
-        .slice(0, 10);
+    const thresholdRelaxed = relevantChunks.length < 3 && fusedChunks.length > 0;
+    if (thresholdRelaxed) {
+      relevantChunks = fusedChunks.slice(0, 10);
+    }
+    if (explain) {
+      explain.scoreThreshold = DENSE_SCORE_THRESHOLD;
+      explain.candidates = fusedChunks.map((chunk) => ({
+        id: chunk.id,
+        label: formatSourceLabel(chunk.metadata) || 'Unknown',
+        scores: chunk.scores || { fused: chunk.score },
+        passedThreshold: passesThreshold(chunk),
+      }));
+      explain.thresholdRelaxed = thresholdRelaxed;
     }
 
-    // Step 5: Re-rank chunks by relevance using LLM
-    if (relevantChunks.length > 3) {
-      relevantChunks = await rerankChunks(query, relevantChunks);
+    // Step 5: Re-rank chunks by relevance using LLM, unless the budget is running out
+    if (relevantChunks.length > 3 && budget.canAfford('reranking')) {
+      emit({ type: 'progress', stage: 'reranking' });
+      relevantChunks = await withSpan(
+        'rag.rerank',
+        { 'rag.rerank.chunks': relevantChunks.length },
+        () => rerankChunks(searchQuery, relevantChunks, budget.signal('reranking'))
+      );
+      if (explain) explain.rerankedOrder = relevantChunks.map(chunk => chunk.id);
     } else {
+      if (relevantChunks.length > 3) debug.skippedStages.push('reranking');
       relevantChunks = relevantChunks.sort((a, b) => b.score - a.score);
     }
 
     // Step 6: Take top chunks (limit to 8 for prompt size)
     const finalChunks = relevantChunks.slice(0, 8);
+    debug.retrieval = finalChunks.map((chunk) => ({
+      id: chunk.id,
+      label: formatSourceLabel(chunk.metadata) || 'Unknown',
+      scores: chunk.scores || { dense: chunk.score, fused: chunk.score },
+    }));
 
-    if (finalChunks.length === 0) {
-      // Last resort: try original query with very low threshold
-      try {
-        const originalEmbedding = await generateQueryEmbedding(query);
-        const originalChunks = await retrieveChunks(originalEmbedding, 15);
-        const lowThresholdChunks = originalChunks
-          .filter(chunk => chunk.score > 0.2)
-          .sort((a, b) => b.score - a.score)
-          .slice(0, 5);
-        
-        if (lowThresholdChunks.length > 0) {
-          const prompt = buildRAGPrompt(query, lowThresholdChunks, conversationHistory);
-          const answer = await generateAnswer(prompt, conversationHistory);
-          return {
-            answer,
-            sources: lowThresholdChunks.map((chunk) => ({
-              sheet: chunk.metadata.sheet || 'Unknown',
-              row: chunk.metadata.row,
-              text: chunk.text.substring(0, 200) + (chunk.text.length > 200 ? '...' : ''),
-            })),
-          };
+    // A structured result is enough context on its own
+    if (finalChunks.length === 0 && !structuredResult) {
+      if (budget.canAfford('fallback')) {
+        // Last resort: try original query with very low threshold
+        try {
+          const originalEmbedding = queryEmbeddings[0] ||
+            (await embedQueries([searchQuery], budget.signal('fallback')))[0];
+          const originalChunks = await retrieveChunks(
+            originalEmbedding,
+            15,
+            vectorFilter,
+            budget.stageTimeout('fallback'),
+            'Fallback vector query'
+          );
+          const lowThresholdChunks = originalChunks
+            .filter(chunk => chunk.score > 0.2)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, 5);
+
+          if (lowThresholdChunks.length > 0) {
+            const prompt = buildRAGPrompt(query, lowThresholdChunks, conversationHistory, structuredResult, searchQuery);
+            if (explain) explain.prompt = prompt;
+            emit({ type: 'progress', stage: 'generating' });
+            const answer = await generateAnswer(prompt, conversationHistory, onToken, budget.signal());
+            const result = { answer, sources: lowThresholdChunks.map(chunk => toSource(chunk, catalog)), debug };
+            if (answerCache && debug.skippedStages.length === 0) {
+              await cacheAnswer(answerCache, indexVersion, searchQuery, originalEmbedding, result);
+            }
+            return result;
+          }
+        } catch (error) {
+          logger.error('Fallback retrieval failed', { error });
         }
-      } catch (error) {
-        console.error('Fallback retrieval error:', error);
+      } else {
+        debug.skippedStages.push('fallback');
       }
 
       return {
-        answer: "I couldn't find specific information about that in my knowledge base. Could you please provide more details or rephrase your question? I'm here to help with questions about our products and services.",
+        answer: NO_ANSWER_MESSAGE,
+        debug,
       };
     }
 
     // Step 7: Build enhanced prompt with all context
-    const prompt = buildRAGPrompt(query, finalChunks, conversationHistory);
+    const prompt = buildRAGPrompt(query, finalChunks, conversationHistory, structuredResult, searchQuery);
+    if (explain) explain.prompt = prompt;
 
     // Step 8: Generate answer with conversation history
-    const answer = await generateAnswer(prompt, conversationHistory);
+    emit({ type: 'progress', stage: 'generating' });
+    const answer = await generateAnswer(prompt, conversationHistory, onToken, budget.signal());
 
-    // Step 9: Extract sources
-    const sources = finalChunks.map((chunk) => ({
-      sheet: chunk.metadata.sheet || 'Unknown',
-      row: chunk.metadata.row,
-      text: chunk.text.substring(0, 200) + (chunk.text.length > 200 ? '...' : ''),
-    }));
+    // Step 9: Extract sources in prompt order so [n] markers line up
+    const sources = finalChunks.map(chunk => toSource(chunk, catalog));
+
+    // Degraded answers are not cached, so a later request can do better
+    if (answerCache && debug.skippedStages.length === 0) {
+      await cacheAnswer(answerCache, indexVersion, searchQuery, queryEmbeddings[0], { answer, sources });
+    }
 
     return {
       answer,
       sources,
+      debug,
     };
   } catch (error) {
-    console.error('RAG error:', error);
-    throw new Error(`RAG processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    // A client that went away is not a failure; the caller logs the disconnect
+    if (!options.signal?.aborted) logger.error('RAG failed', { error });
+    // Typed errors keep their code so the API can report them precisely
+    if (error instanceof RAGError) throw error;
+    throw new Error(`RAG processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
 
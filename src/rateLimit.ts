@@ -0,0 +1,225 @@
+import { ApiErrorCode, ApiErrorResponse, createApiError } from './apiSchema';
+import { getRequestLimits } from './config';
+import { PayloadTooLargeError } from './errors';
+
+export interface TokenBucketLimit {
+  /** Requests that can be made in a burst */
+  capacity: number;
+  /** Tokens added back per minute */
+  refillPerMinute: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until a token is available again; 0 when allowed */
+  retryAfterSeconds: number;
+}
+
+export interface RateLimitStore {
+  /** Take one token from the bucket at `key` */
+  take(key: string, limit: TokenBucketLimit): Promise<RateLimitDecision>;
+}
+
+/**
+ * Rejection produced by the request guards, in a framework-neutral shape
+ * that each handler turns into its own response
+ */
+export interface GuardRejection {
+  status: number;
+  body: ApiErrorResponse;
+  headers: Record<string, string>;
+}
+
+/** Reads a request header by lower-case name */
+export type HeaderGetter = (name: string) => string | null | undefined;
+
+// Idle buckets are refilled anyway, so they can be dropped once the map grows
+const MAX_TRACKED_BUCKETS = 10000;
+
+/**
+ * Token buckets kept in process memory. On serverless platforms each instance
+ * counts separately, so the effective limit is per instance.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  const prune = (now: number, limit: TokenBucketLimit) => {
+    const fullAfterMs = (limit.capacity / limit.refillPerMinute) * 60000;
+    for (const [key, bucket] of buckets) {
+      if (now - bucket.updatedAt > fullAfterMs) buckets.delete(key);
+    }
+  };
+
+  return {
+    async take(key, limit) {
+      const now = Date.now();
+      if (buckets.size > MAX_TRACKED_BUCKETS) prune(now, limit);
+
+      const bucket = buckets.get(key) || { tokens: limit.capacity, updatedAt: now };
+      const refilled = Math.min(
+        limit.capacity,
+        bucket.tokens + ((now - bucket.updatedAt) / 60000) * limit.refillPerMinute
+      );
+
+      if (refilled < 1) {
+        buckets.set(key, { tokens: refilled, updatedAt: now });
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterSeconds: Math.ceil(((1 - refilled) / limit.refillPerMinute) * 60),
+        };
+      }
+
+      buckets.set(key, { tokens: refilled - 1, updatedAt: now });
+      return { allowed: true, remaining: Math.floor(refilled - 1), retryAfterSeconds: 0 };
+    },
+  };
+}
+
+function getNumberEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Per-client-IP limit (RATE_LIMIT_IP_BURST, default 20; RATE_LIMIT_IP_PER_MINUTE, default 10)
+ */
+export function getIpLimit(): TokenBucketLimit {
+  return {
+    capacity: getNumberEnv('RATE_LIMIT_IP_BURST', 20),
+    refillPerMinute: getNumberEnv('RATE_LIMIT_IP_PER_MINUTE', 10),
+  };
+}
+
+/**
+ * Per-API-key limit (RATE_LIMIT_KEY_BURST, default 120; RATE_LIMIT_KEY_PER_MINUTE, default 60)
+ */
+export function getApiKeyLimit(): TokenBucketLimit {
+  return {
+    capacity: getNumberEnv('RATE_LIMIT_KEY_BURST', 120),
+    refillPerMinute: getNumberEnv('RATE_LIMIT_KEY_PER_MINUTE', 60),
+  };
+}
+
+let rateLimitStore: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Replace the bucket store, e.g. with one shared across instances
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimitStore = store;
+}
+
+/**
+ * Number of reverse proxies in front of the app that append the client
+ * address to X-Forwarded-For (TRUSTED_PROXY_HOPS). Defaults to 1 on Vercel,
+ * whose edge sets the header itself, and 0 elsewhere.
+ */
+function getTrustedProxyHops(): number {
+  const value = parseInt(process.env.TRUSTED_PROXY_HOPS || '', 10);
+  if (Number.isFinite(value) && value >= 0) return value;
+  return process.env.VERCEL ? 1 : 0;
+}
+
+/**
+ * Client IP for the per-IP bucket. Clients can put anything at the start of
+ * X-Forwarded-For, so only the entry added by the outermost trusted proxy is
+ * used; without trusted proxies, the platform or socket address (`fallback`).
+ */
+export function getClientIp(getHeader: HeaderGetter, fallback?: string): string {
+  const hops = getTrustedProxyHops();
+  const forwarded = (getHeader('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  if (hops > 0 && forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - hops)];
+  }
+  return fallback || 'unknown';
+}
+
+/**
+ * Rejection with the standard JSON error body for `code`
+ */
+export function createRejection(
+  code: ApiErrorCode,
+  message: string,
+  headers: Record<string, string> = {}
+): GuardRejection {
+  return { ...createApiError(code, message), headers };
+}
+
+/**
+ * Reject a body whose declared or actual size exceeds MAX_BODY_BYTES
+ */
+export function checkBodySize(bytes: number | undefined): GuardRejection | null {
+  const { maxBodyBytes } = getRequestLimits();
+  return bytes !== undefined && bytes > maxBodyBytes
+    ? createRejection('payload_too_large', `Request body must be at most ${maxBodyBytes} bytes.`)
+    : null;
+}
+
+/**
+ * Apply the per-IP bucket, and the per-key bucket for authenticated requests.
+ * Runs before the body is read so rejected clients cost nothing.
+ */
+export async function checkRateLimit(ip: string, apiKeyId?: string): Promise<GuardRejection | null> {
+  const checks: Array<[string, TokenBucketLimit]> = [[`ip:${ip}`, getIpLimit()]];
+  if (apiKeyId) {
+    checks.push([`key:${apiKeyId}`, getApiKeyLimit()]);
+  }
+
+  for (const [bucketKey, limit] of checks) {
+    const decision = await rateLimitStore.take(bucketKey, limit);
+    if (!decision.allowed) {
+      return createRejection('rate_limited', `Rate limit exceeded. Retry in ${decision.retryAfterSeconds} seconds.`, {
+        'Retry-After': String(decision.retryAfterSeconds),
+        'X-RateLimit-Limit': String(limit.capacity),
+        'X-RateLimit-Remaining': '0',
+      });
+    }
+  }
+  return null;
+}
+
+/**
+ * Read a request body stream, cancelling it as soon as it passes `maxBytes`.
+ * Content-Length is optional with chunked bodies, so the declared size alone
+ * cannot bound memory. Throws PayloadTooLargeError when the body is too large.
+ */
+export async function readLimitedBody(
+  body: ReadableStream<Uint8Array> | null,
+  maxBytes: number = getRequestLimits().maxBodyBytes
+): Promise<Buffer> {
+  if (!body) return Buffer.alloc(0);
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new PayloadTooLargeError(maxBytes);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Guards that run before an /api/ask or /api/feedback body is read: rate
+ * limits and declared size. Callers apply them whatever the authentication
+ * result, so failed attempts are throttled too.
+ */
+export async function guardAskRequest(
+  getHeader: HeaderGetter,
+  fallbackIp?: string,
+  apiKeyId?: string
+): Promise<GuardRejection | null> {
+  const contentLength = parseInt(getHeader('content-length') || '', 10);
+  return await checkRateLimit(getClientIp(getHeader, fallbackIp), apiKeyId) ||
+    checkBodySize(Number.isFinite(contentLength) ? contentLength : undefined);
+}
@@ -0,0 +1,344 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getSessionStoreProvider } from './config';
+import { logger } from './logger';
+import type { RAGResult, RAGSource } from './rag';
+import type { HeaderGetter } from './rateLimit';
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  sources?: RAGSource[];
+  /** Trace of the request that produced an assistant message, for feedback and log lookup */
+  traceId?: string;
+  createdAt: string;
+}
+
+export interface Conversation {
+  id: string;
+  /** First question of the conversation, shortened */
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ConversationMessage[];
+  /** API key the conversation was started with, for usage attribution */
+  apiKeyId?: string;
+  /** Hash of the owner cookie of an anonymous conversation; never sent to clients */
+  ownerHash?: string;
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  apiKeyId?: string;
+}
+
+/**
+ * Who a request acts for: its API key, or for anonymous callers the hash of
+ * the secret in their owner cookie
+ */
+export interface ConversationOwner {
+  apiKeyId?: string;
+  ownerHash?: string;
+}
+
+export interface SessionStore {
+  get(id: string): Promise<Conversation | null>;
+  /** The owner's conversations, most recently updated first */
+  list(owner: ConversationOwner): Promise<ConversationSummary[]>;
+  save(conversation: Conversation): Promise<void>;
+  /** Returns false when the conversation did not exist */
+  delete(id: string): Promise<boolean>;
+}
+
+// Older messages are dropped so a long conversation cannot grow without bound
+const MAX_STORED_MESSAGES = 100;
+const MAX_TITLE_LENGTH = 60;
+const CONVERSATION_ID_PATTERN = /^[a-zA-Z0-9-]{1,64}$/;
+const OWNER_COOKIE = 'nick_owner';
+const OWNER_COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+const OWNER_SECRET_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * Check a client-supplied conversation ID before it reaches a store.
+ * Also keeps file-backed stores from being pointed outside their directory.
+ */
+export function isValidConversationId(id: unknown): id is string {
+  return typeof id === 'string' && CONVERSATION_ID_PATTERN.test(id);
+}
+
+function hashOwnerSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function readOwnerSecret(getHeader: HeaderGetter): string | null {
+  for (const part of (getHeader('cookie') || '').split(';')) {
+    const [name, value] = part.trim().split('=');
+    if (name === OWNER_COOKIE && value && OWNER_SECRET_PATTERN.test(value)) return value;
+  }
+  return null;
+}
+
+/**
+ * Resolve who a request acts for. Requests with an API key own the key's
+ * conversations; anonymous requests own those started with their owner
+ * cookie. With `issue`, an anonymous request without a cookie is given a new
+ * secret, returned as the `Set-Cookie` header to send back.
+ */
+export function resolveConversationOwner(
+  getHeader: HeaderGetter,
+  apiKeyId: string | undefined,
+  options: { issue?: boolean; secure?: boolean } = {}
+): { owner: ConversationOwner; setCookie?: string } {
+  if (apiKeyId) return { owner: { apiKeyId } };
+
+  const secret = readOwnerSecret(getHeader);
+  if (secret) return { owner: { ownerHash: hashOwnerSecret(secret) } };
+  if (!options.issue) return { owner: {} };
+
+  const issued = randomBytes(32).toString('base64url');
+  const attributes = ['Path=/api', 'HttpOnly', 'SameSite=Lax', `Max-Age=${OWNER_COOKIE_MAX_AGE_SECONDS}`];
+  if (options.secure) attributes.push('Secure');
+  return {
+    owner: { ownerHash: hashOwnerSecret(issued) },
+    setCookie: [`${OWNER_COOKIE}=${issued}`, ...attributes].join('; '),
+  };
+}
+
+/**
+ * Conversations started with an API key belong to that key; anonymous ones
+ * only to the cookie they were started with
+ */
+export function isConversationOwner(conversation: Pick<Conversation, 'apiKeyId' | 'ownerHash'>, owner: ConversationOwner): boolean {
+  if (conversation.apiKeyId || owner.apiKeyId) return conversation.apiKeyId === owner.apiKeyId;
+  return !!owner.ownerHash && conversation.ownerHash === owner.ownerHash;
+}
+
+/**
+ * The conversation as returned to its owner, without the owner hash
+ */
+export function toPublicConversation(conversation: Conversation): Conversation {
+  const { ownerHash, ...rest } = conversation;
+  return rest;
+}
+
+function toSummary(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.messages.length,
+    ...(conversation.apiKeyId ? { apiKeyId: conversation.apiKeyId } : {}),
+  };
+}
+
+function byMostRecent(a: ConversationSummary, b: ConversationSummary): number {
+  return b.updatedAt.localeCompare(a.updatedAt);
+}
+
+// Anonymous conversations are created on every first question, so memory is bounded by count and idle time
+const MAX_MEMORY_CONVERSATIONS = 5000;
+const MEMORY_CONVERSATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface StoredConversation {
+  /** Serialized so callers cannot mutate saved conversations */
+  json: string;
+  summary: ConversationSummary;
+  owner: Pick<Conversation, 'apiKeyId' | 'ownerHash'>;
+  expiresAt: number;
+}
+
+/**
+ * Session store kept in process memory; conversations are lost on restart.
+ * A conversation expires `ttlMs` after its last turn, and the least recently
+ * updated ones are evicted once `maxConversations` is reached.
+ */
+export function createMemorySessionStore(
+  maxConversations: number = MAX_MEMORY_CONVERSATIONS,
+  ttlMs: number = MEMORY_CONVERSATION_TTL_MS
+): SessionStore {
+  const conversations = new Map<string, StoredConversation>();
+
+  const live = (id: string): StoredConversation | null => {
+    const stored = conversations.get(id);
+    if (!stored) return null;
+    if (stored.expiresAt <= Date.now()) {
+      conversations.delete(id);
+      return null;
+    }
+    return stored;
+  };
+
+  return {
+    async get(id) {
+      const stored = live(id);
+      return stored ? JSON.parse(stored.json) : null;
+    },
+
+    async list(owner) {
+      return Array.from(conversations.keys())
+        .map(live)
+        .filter((stored): stored is StoredConversation => stored !== null && isConversationOwner(stored.owner, owner))
+        .map(stored => ({ ...stored.summary }))
+        .sort(byMostRecent);
+    },
+
+    async save(conversation) {
+      // Re-inserting moves the conversation to the end of the Map's insertion order
+      conversations.delete(conversation.id);
+      conversations.set(conversation.id, {
+        json: JSON.stringify(conversation),
+        summary: toSummary(conversation),
+        owner: { apiKeyId: conversation.apiKeyId, ownerHash: conversation.ownerHash },
+        expiresAt: Date.now() + ttlMs,
+      });
+      while (conversations.size > maxConversations) {
+        conversations.delete(conversations.keys().next().value as string);
+      }
+    },
+
+    async delete(id) {
+      return conversations.delete(id);
+    },
+  };
+}
+
+/**
+ * Session store writing one JSON file per conversation into `directory`
+ */
+export function createFileSessionStore(directory: string): SessionStore {
+  const filePath = (id: string) => path.join(directory, `${id}.json`);
+
+  const read = (file: string): Conversation | null => {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+      return null;
+    }
+  };
+
+  return {
+    async get(id) {
+      if (!isValidConversationId(id)) return null;
+      return read(filePath(id));
+    },
+
+    async list(owner) {
+      if (!fs.existsSync(directory)) return [];
+      return fs.readdirSync(directory)
+        .filter(file => file.endsWith('.json'))
+        .map(file => read(path.join(directory, file)))
+        .filter((conversation): conversation is Conversation =>
+          conversation !== null && isConversationOwner(conversation, owner))
+        .map(toSummary)
+        .sort(byMostRecent);
+    },
+
+    async save(conversation) {
+      if (!isValidConversationId(conversation.id)) {
+        throw new Error(`Invalid conversation ID: ${conversation.id}`);
+      }
+      fs.mkdirSync(directory, { recursive: true });
+      fs.writeFileSync(filePath(conversation.id), JSON.stringify(conversation, null, 2));
+    },
+
+    async delete(id) {
+      if (!isValidConversationId(id) || !fs.existsSync(filePath(id))) return false;
+      fs.unlinkSync(filePath(id));
+      return true;
+    },
+  };
+}
+
+let memorySessionStore: SessionStore | null = null;
+
+/**
+ * Session store for the provider selected by SESSION_STORE
+ */
+export function getSessionStore(): SessionStore {
+  if (getSessionStoreProvider() === 'file') {
+    return createFileSessionStore(
+      path.resolve(process.cwd(), process.env.SESSION_STORE_PATH || 'data/sessions')
+    );
+  }
+  if (!memorySessionStore) {
+    // Serverless instances each keep their own memory; clients then fall back to sending history
+    if (process.env.VERCEL) {
+      logger.warn('SESSION_STORE=memory keeps conversations per instance; follow-ups on another instance rely on client history');
+    }
+    memorySessionStore = createMemorySessionStore();
+  }
+  return memorySessionStore;
+}
+
+/**
+ * Keep only well-formed user/assistant turns from client-supplied history
+ */
+export function sanitizeHistory(value: unknown): Array<{ role: 'user' | 'assistant'; content: string }> {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(msg =>
+      msg && (msg.role === 'user' || msg.role === 'assistant') &&
+      typeof msg.content === 'string' && msg.content.trim().length > 0
+    )
+    .slice(-MAX_STORED_MESSAGES)
+    .map(msg => ({ role: msg.role, content: msg.content }));
+}
+
+/**
+ * Start a conversation, optionally seeded with earlier turns
+ */
+export function createConversation(
+  firstQuestion: string,
+  history: Array<{ role: 'user' | 'assistant'; content: string }> = [],
+  owner: ConversationOwner = {}
+): Conversation {
+  const now = new Date().toISOString();
+  const title = firstQuestion.length > MAX_TITLE_LENGTH
+    ? `${firstQuestion.substring(0, MAX_TITLE_LENGTH - 3)}...`
+    : firstQuestion;
+
+  return {
+    id: randomUUID(),
+    title,
+    createdAt: now,
+    updatedAt: now,
+    messages: history.map(msg => ({ ...msg, createdAt: now })),
+    ...(owner.apiKeyId ? { apiKeyId: owner.apiKeyId } : {}),
+    ...(owner.ownerHash ? { ownerHash: owner.ownerHash } : {}),
+  };
+}
+
+/**
+ * Conversation history in the shape runRAG expects
+ */
+export function toHistory(conversation: Conversation): Array<{ role: string; content: string }> {
+  return conversation.messages.map(msg => ({
+    role: msg.role,
+    // Citation numbers only refer to the sources of their own answer
+    content: msg.role === 'assistant' ? msg.content.replace(/\s?\[\d+\]/g, '') : msg.content,
+  }));
+}
+
+/**
+ * Record a question and its answer, returning the updated conversation
+ */
+export function appendTurn(conversation: Conversation, query: string, result: RAGResult, traceId?: string): Conversation {
+  const now = new Date().toISOString();
+  const messages: ConversationMessage[] = [
+    ...conversation.messages,
+    { role: 'user', content: query, createdAt: now },
+    { role: 'assistant', content: result.answer, sources: result.sources, ...(traceId ? { traceId } : {}), createdAt: now },
+  ];
+
+  return {
+    ...conversation,
+    updatedAt: now,
+    messages: messages.slice(-MAX_STORED_MESSAGES),
+  };
+}
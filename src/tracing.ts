@@ -0,0 +1,233 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * A finished span, carrying the fields of an OpenTelemetry ReadableSpan:
+ * W3C trace/span IDs, parent, timings, attributes and status
+ */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** Epoch milliseconds */
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+  attributes: Record<string, SpanAttributeValue>;
+  status: { code: 'UNSET' | 'OK' | 'ERROR'; message?: string };
+}
+
+export interface Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  setAttribute(key: string, value: SpanAttributeValue | undefined): void;
+  setAttributes(attributes: SpanAttributes): void;
+  /** Mark the span failed; the message is kept, the stack is not */
+  recordError(error: unknown): void;
+}
+
+/**
+ * Receives every span of a trace once its root span ends. Mirrors the
+ * OpenTelemetry SpanExporter contract, so an adapter can forward spans to an
+ * OTLP collector.
+ */
+export interface SpanExporter {
+  export(spans: SpanData[]): Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+/**
+ * One request's trace. The root span stays open until `end`, so a streamed
+ * response can keep adding spans after the handler has returned.
+ */
+export interface Trace {
+  readonly traceId: string;
+  readonly root: Span;
+  /** Run `fn` with the root span as the parent of any span it starts */
+  run<T>(fn: () => T): T;
+  /** End the root span and export every span of the trace */
+  end(): Promise<void>;
+}
+
+interface TraceState {
+  traceId: string;
+  finished: SpanData[];
+}
+
+interface OpenSpan extends Span {
+  data: SpanData;
+  trace: TraceState;
+  end(): void;
+}
+
+const activeSpan = new AsyncLocalStorage<OpenSpan>();
+
+const NOOP_SPAN: Span = {
+  traceId: '',
+  spanId: '',
+  setAttribute() {},
+  setAttributes() {},
+  recordError() {},
+};
+
+function randomId(bytes: number): string {
+  return randomBytes(bytes).toString('hex');
+}
+
+function openSpan(name: string, trace: TraceState, parentSpanId?: string, attributes: SpanAttributes = {}): OpenSpan {
+  const data: SpanData = {
+    traceId: trace.traceId,
+    spanId: randomId(8),
+    ...(parentSpanId ? { parentSpanId } : {}),
+    name,
+    startTime: Date.now(),
+    endTime: 0,
+    durationMs: 0,
+    attributes: {},
+    status: { code: 'UNSET' },
+  };
+
+  const span: OpenSpan = {
+    traceId: data.traceId,
+    spanId: data.spanId,
+    data,
+    trace,
+
+    setAttribute(key, value) {
+      if (value !== undefined) data.attributes[key] = value;
+    },
+
+    setAttributes(values) {
+      for (const [key, value] of Object.entries(values)) span.setAttribute(key, value);
+    },
+
+    recordError(error) {
+      data.status = { code: 'ERROR', message: error instanceof Error ? error.message : String(error) };
+      if (error instanceof Error) data.attributes['exception.type'] = error.name;
+    },
+
+    end() {
+      if (data.endTime) return;
+      data.endTime = Date.now();
+      data.durationMs = data.endTime - data.startTime;
+      if (data.status.code === 'UNSET') data.status = { code: 'OK' };
+      trace.finished.push(data);
+    },
+  };
+  span.setAttributes(attributes);
+  return span;
+}
+
+/**
+ * Exporter selected by TRACE_EXPORTER: "console" prints each span as a JSON
+ * line, "none" (default) drops them. Replace with setSpanExporter.
+ */
+let spanExporter: SpanExporter | null | undefined;
+
+export function createConsoleSpanExporter(): SpanExporter {
+  return {
+    async export(spans) {
+      for (const span of spans) {
+        console.log(JSON.stringify({ type: 'span', ...span }));
+      }
+    },
+  };
+}
+
+export function setSpanExporter(exporter: SpanExporter | null): void {
+  spanExporter = exporter;
+}
+
+function getSpanExporter(): SpanExporter | null {
+  if (spanExporter === undefined) {
+    spanExporter = (process.env.TRACE_EXPORTER || 'none').toLowerCase() === 'console'
+      ? createConsoleSpanExporter()
+      : null;
+  }
+  return spanExporter;
+}
+
+/**
+ * Read the trace ID and parent span ID from a W3C `traceparent` header, so
+ * traces continue across services
+ */
+export function parseTraceparent(header: string | null | undefined): { traceId: string; parentSpanId: string } | null {
+  const match = header?.trim().match(/^[0-9a-f]{2}-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/);
+  if (!match || /^0+$/.test(match[1])) return null;
+  return { traceId: match[1], parentSpanId: match[2] };
+}
+
+/**
+ * Start a trace for one request, continuing the caller's trace when a
+ * `traceparent` header is given
+ */
+export function startTrace(name: string, attributes: SpanAttributes = {}, traceparent?: string | null): Trace {
+  const parent = parseTraceparent(traceparent);
+  const state: TraceState = { traceId: parent?.traceId || randomId(16), finished: [] };
+  const root = openSpan(name, state, parent?.parentSpanId, attributes);
+
+  return {
+    traceId: state.traceId,
+    root,
+
+    run(fn) {
+      return activeSpan.run(root, fn);
+    },
+
+    async end() {
+      root.end();
+      const exporter = getSpanExporter();
+      if (!exporter || state.finished.length === 0) return;
+      try {
+        await exporter.export(state.finished.splice(0));
+      } catch (error) {
+        console.error('Span export failed:', error);
+      }
+    },
+  };
+}
+
+/**
+ * Run `fn` in a child span of the active span. Outside a trace (e.g. in
+ * scripts) `fn` runs with a span that records nothing.
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const parent = activeSpan.getStore();
+  if (!parent) return fn(NOOP_SPAN);
+
+  const span = openSpan(name, parent.trace, parent.spanId, attributes);
+  try {
+    return await activeSpan.run(span, () => fn(span));
+  } catch (error) {
+    span.recordError(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Start a child span of the active span that the caller ends, for work that
+ * does not fit in one callback, such as an async generator. The span does not
+ * become the parent of spans started while it is open.
+ */
+export function startSpan(name: string, attributes: SpanAttributes = {}): Span & { end(): void } {
+  const parent = activeSpan.getStore();
+  if (!parent) return { ...NOOP_SPAN, end() {} };
+  return openSpan(name, parent.trace, parent.spanId, attributes);
+}
+
+/**
+ * The innermost open span, for adding attributes from deep in a call
+ */
+export function getActiveSpan(): Span | undefined {
+  return activeSpan.getStore();
+}
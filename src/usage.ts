@@ -0,0 +1,321 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDailySpendLimits, getUsageStoreProvider } from './config';
+import { ConfigError } from './errors';
+import { logger } from './logger';
+import { GuardRejection, createRejection } from './rateLimit';
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** One model call and what it cost */
+export interface ModelCall {
+  model: string;
+  operation: 'chat' | 'embeddings';
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/** Every model call made while answering one request */
+export interface RequestUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  calls: ModelCall[];
+}
+
+/** Totals for one API key or conversation on one UTC day */
+export interface DailyUsage {
+  /** YYYY-MM-DD, UTC */
+  date: string;
+  /** "key:<id>", "key:anonymous" or "session:<conversationId>" */
+  subject: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageStore {
+  get(subject: string, date?: string): Promise<DailyUsage | null>;
+  /** Every subject's totals for a day, most expensive first */
+  list(date?: string): Promise<DailyUsage[]>;
+  add(subject: string, usage: RequestUsage, date?: string): Promise<void>;
+}
+
+/**
+ * OpenAI list prices. Override or extend with MODEL_PRICES, e.g.
+ * {"gpt-4o": {"input": 2.5, "output": 10}}
+ */
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+};
+
+// Daily totals older than this are dropped from file stores
+const RETENTION_DAYS = 31;
+
+/**
+ * Price table: the defaults merged with MODEL_PRICES (JSON, USD per million tokens)
+ */
+export function getModelPrices(): Record<string, ModelPrice> {
+  const raw = process.env.MODEL_PRICES;
+  if (!raw) return DEFAULT_MODEL_PRICES;
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(raw);
+  } catch (error) {
+    throw new ConfigError('MODEL_PRICES must be JSON, e.g. {"gpt-4o": {"input": 2.5, "output": 10}}');
+  }
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new ConfigError('MODEL_PRICES must map model names to {"input", "output"} prices');
+  }
+  for (const [model, price] of Object.entries(overrides as Record<string, any>)) {
+    if (typeof price?.input !== 'number' || typeof price?.output !== 'number') {
+      throw new ConfigError(`MODEL_PRICES["${model}"] needs numeric "input" and "output" prices`);
+    }
+  }
+  return { ...DEFAULT_MODEL_PRICES, ...(overrides as Record<string, ModelPrice>) };
+}
+
+/**
+ * Price for a model, matching dated snapshots such as "gpt-4o-2024-08-06" to
+ * the longest priced name they start with
+ */
+function findPrice(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  if (prices[model]) return prices[model];
+  const match = Object.keys(prices)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : null;
+}
+
+/**
+ * Cost in USD of a model call, or 0 for models missing from the price table
+ */
+export function calculateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = findPrice(model, getModelPrices());
+  if (!price) {
+    logger.warn('No price for model, counting its cost as 0', { model });
+    return 0;
+  }
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+// Sub-microdollar precision is float noise, not spend
+function roundUsd(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+function emptyUsage(): RequestUsage {
+  return { inputTokens: 0, outputTokens: 0, costUsd: 0, calls: [] };
+}
+
+const activeUsage = new AsyncLocalStorage<RequestUsage>();
+
+/**
+ * Collects the model calls made while answering one request
+ */
+export interface UsageMeter {
+  /** Run `fn`, counting every model call it makes */
+  run<T>(fn: () => Promise<T>): Promise<T>;
+  /** Calls counted so far, including those of a run that failed */
+  summary(): RequestUsage;
+}
+
+export function createUsageMeter(): UsageMeter {
+  const usage = emptyUsage();
+  return {
+    run: (fn) => activeUsage.run(usage, fn),
+    summary: () => ({ ...usage, costUsd: roundUsd(usage.costUsd), calls: [...usage.calls] }),
+  };
+}
+
+/**
+ * Price a model call and count it toward the active meter, if any
+ */
+export function recordModelUsage(
+  model: string,
+  operation: ModelCall['operation'],
+  inputTokens: number,
+  outputTokens: number = 0
+): ModelCall {
+  const call: ModelCall = {
+    model,
+    operation,
+    inputTokens,
+    outputTokens,
+    costUsd: roundUsd(calculateCost(model, inputTokens, outputTokens)),
+  };
+
+  const usage = activeUsage.getStore();
+  if (usage) {
+    usage.calls.push(call);
+    usage.inputTokens += inputTokens;
+    usage.outputTokens += outputTokens;
+    usage.costUsd += call.costUsd;
+  }
+  return call;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Daily totals kept in process memory; each serverless instance counts separately
+ */
+export function createMemoryUsageStore(): UsageStore {
+  const totals = new Map<string, DailyUsage>();
+
+  return {
+    async get(subject, date = today()) {
+      const saved = totals.get(`${date}|${subject}`);
+      return saved ? { ...saved } : null;
+    },
+
+    async list(date = today()) {
+      return Array.from(totals.values())
+        .filter(entry => entry.date === date)
+        .sort((a, b) => b.costUsd - a.costUsd)
+        .map(entry => ({ ...entry }));
+    },
+
+    async add(subject, usage, date = today()) {
+      const key = `${date}|${subject}`;
+      const entry = totals.get(key) ||
+        { date, subject, requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+      entry.requests += 1;
+      entry.inputTokens += usage.inputTokens;
+      entry.outputTokens += usage.outputTokens;
+      entry.costUsd = roundUsd(entry.costUsd + usage.costUsd);
+      totals.set(key, entry);
+    },
+  };
+}
+
+/**
+ * Daily totals persisted to a JSON file, for a single long-running server and
+ * for reading with `npm run usage`
+ */
+export function createFileUsageStore(filePath: string): UsageStore {
+  const read = (): DailyUsage[] =>
+    fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : [];
+
+  const write = (entries: DailyUsage[]) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(entries, null, 2));
+  };
+
+  return {
+    async get(subject, date = today()) {
+      return read().find(entry => entry.date === date && entry.subject === subject) || null;
+    },
+
+    async list(date = today()) {
+      return read()
+        .filter(entry => entry.date === date)
+        .sort((a, b) => b.costUsd - a.costUsd);
+    },
+
+    async add(subject, usage, date = today()) {
+      const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      const entries = read().filter(entry => entry.date >= cutoff);
+      let entry = entries.find(existing => existing.date === date && existing.subject === subject);
+      if (!entry) {
+        entry = { date, subject, requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+        entries.push(entry);
+      }
+      entry.requests += 1;
+      entry.inputTokens += usage.inputTokens;
+      entry.outputTokens += usage.outputTokens;
+      entry.costUsd = roundUsd(entry.costUsd + usage.costUsd);
+      write(entries);
+    },
+  };
+}
+
+let sharedUsageStore: UsageStore | null = null;
+
+/**
+ * Usage store for the provider selected by USAGE_STORE, or null when usage is not kept
+ */
+export function getUsageStore(): UsageStore | null {
+  const provider = getUsageStoreProvider();
+  if (provider === 'none') return null;
+
+  sharedUsageStore = sharedUsageStore || (provider === 'file'
+    ? createFileUsageStore(path.resolve(process.cwd(), process.env.USAGE_STORE_PATH || 'data/usage.json'))
+    : createMemoryUsageStore());
+  return sharedUsageStore;
+}
+
+export function getKeySubject(apiKeyId?: string): string {
+  return `key:${apiKeyId || 'anonymous'}`;
+}
+
+export function getSessionSubject(conversationId: string): string {
+  return `session:${conversationId}`;
+}
+
+function secondsUntilTomorrow(): number {
+  const midnight = new Date();
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.max(1, Math.ceil((midnight.getTime() - Date.now()) / 1000));
+}
+
+/**
+ * Reject the request when the key's or the conversation's spend today has
+ * reached its cap (DAILY_SPEND_LIMIT_USD, DAILY_SESSION_SPEND_LIMIT_USD)
+ */
+export async function checkSpendLimit(apiKeyId: string | undefined, conversationId: string): Promise<GuardRejection | null> {
+  const { perKeyUsd, perSessionUsd } = getDailySpendLimits();
+  const store = getUsageStore();
+  if (!store || (perKeyUsd === null && perSessionUsd === null)) return null;
+
+  const headers = { 'Retry-After': String(secondsUntilTomorrow()) };
+  if (perKeyUsd !== null && ((await store.get(getKeySubject(apiKeyId)))?.costUsd ?? 0) >= perKeyUsd) {
+    return createRejection(
+      'spend_limit_exceeded',
+      apiKeyId ? 'This API key has reached its daily spend limit.' : 'The daily spend limit has been reached.',
+      headers
+    );
+  }
+  if (perSessionUsd !== null && ((await store.get(getSessionSubject(conversationId)))?.costUsd ?? 0) >= perSessionUsd) {
+    return createRejection(
+      'spend_limit_exceeded',
+      'This conversation has reached its daily spend limit. Start a new conversation or try again tomorrow.',
+      headers
+    );
+  }
+  return null;
+}
+
+/**
+ * Add a request's usage to the daily totals of its API key and conversation.
+ * Failures are logged, not thrown: the answer has already been paid for.
+ */
+export async function recordRequestUsage(
+  usage: RequestUsage,
+  apiKeyId: string | undefined,
+  conversationId: string
+): Promise<void> {
+  const store = getUsageStore();
+  if (!store) return;
+  try {
+    await store.add(getKeySubject(apiKeyId), usage);
+    await store.add(getSessionSubject(conversationId), usage);
+  } catch (error) {
+    logger.warn('Could not record request usage', { conversationId, error: error instanceof Error ? error.message : error });
+  }
+}
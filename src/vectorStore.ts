@@ -0,0 +1,245 @@
+import { Pinecone } from '@pinecone-database/pinecone';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getVectorStoreProvider } from './config';
+import { ConfigError, VectorStoreUnavailableError } from './errors';
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: Record<string, any>;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata: Record<string, any>;
+}
+
+type FilterValue = string | number | boolean;
+
+/**
+ * Pinecone-style metadata filter; conditions on different fields are ANDed
+ */
+export type VectorFilter = Record<string, {
+  $eq?: FilterValue;
+  $in?: FilterValue[];
+  $lt?: number;
+  $lte?: number;
+  $gt?: number;
+  $gte?: number;
+}>;
+
+export interface VectorStore {
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(vector: number[], topK: number, filter?: VectorFilter): Promise<VectorMatch[]>;
+  delete(ids: string[]): Promise<void>;
+  /** Merge metadata fields into an existing record without re-sending its vector */
+  updateMetadata(id: string, metadata: Record<string, any>): Promise<void>;
+}
+
+function getPineconeClient() {
+  const PINECONE_API_KEY = process.env.PINECONE_API_KEY;
+  if (!PINECONE_API_KEY) {
+    throw new ConfigError('PINECONE_API_KEY environment variable is not set');
+  }
+  return new Pinecone({ apiKey: PINECONE_API_KEY });
+}
+
+function getPineconeIndex() {
+  const PINECONE_INDEX = process.env.PINECONE_INDEX;
+  if (!PINECONE_INDEX) {
+    throw new ConfigError('PINECONE_INDEX environment variable is not set');
+  }
+  return PINECONE_INDEX;
+}
+
+/**
+ * Vector store backed by a Pinecone index
+ */
+export function createPineconeVectorStore(): VectorStore {
+  const index = () => getPineconeClient().index(getPineconeIndex());
+
+  return {
+    async upsert(records) {
+      await index().upsert(records);
+    },
+
+    async delete(ids) {
+      // Pinecone limits deletes to 1000 IDs per request
+      for (let i = 0; i < ids.length; i += 1000) {
+        await index().deleteMany(ids.slice(i, i + 1000));
+      }
+    },
+
+    async updateMetadata(id, metadata) {
+      await index().update({ id, metadata });
+    },
+
+    async query(vector, topK, filter) {
+      const pineconeIndex = index();
+      let queryResponse;
+      try {
+        queryResponse = await pineconeIndex.query({
+          vector,
+          topK,
+          includeMetadata: true,
+          ...(filter && Object.keys(filter).length > 0 ? { filter } : {}),
+        });
+      } catch (error) {
+        throw new VectorStoreUnavailableError(undefined, { cause: error });
+      }
+
+      return (queryResponse.matches || []).map((match: any) => ({
+        id: match.id,
+        score: match.score || 0,
+        metadata: match.metadata || {},
+      }));
+    },
+  };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Evaluate a metadata filter locally, for stores without native filtering
+ */
+export function matchesFilter(metadata: Record<string, any>, filter: VectorFilter): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    const value = metadata[field];
+    if (value === undefined) return false;
+    if (condition.$eq !== undefined && value !== condition.$eq) return false;
+    if (condition.$in !== undefined && !condition.$in.includes(value)) return false;
+    if (condition.$lt !== undefined && !(value < condition.$lt)) return false;
+    if (condition.$lte !== undefined && !(value <= condition.$lte)) return false;
+    if (condition.$gt !== undefined && !(value > condition.$gt)) return false;
+    if (condition.$gte !== undefined && !(value >= condition.$gte)) return false;
+    return true;
+  });
+}
+
+// Ingestion updates metadata one chunk at a time, so rewrites of the file are batched
+const LOCAL_SAVE_DELAY_MS = 1000;
+
+/**
+ * Brute-force cosine vector store kept in memory.
+ * When a file path is given, records are loaded from and saved to that JSON file
+ * so ingestion and the API can share an index without any network access.
+ * Changes are written at most every `saveDelayMs`, and before the process exits.
+ */
+export function createLocalVectorStore(filePath?: string, saveDelayMs: number = LOCAL_SAVE_DELAY_MS): VectorStore {
+  const records = new Map<string, VectorRecord>();
+  let loadedMtimeMs = 0;
+  let saveTimer: NodeJS.Timeout | null = null;
+
+  // Re-read the file when another process, such as `npm run ingest`, has rewritten it
+  const load = () => {
+    if (!filePath || saveTimer || !fs.existsSync(filePath)) return;
+    const { mtimeMs } = fs.statSync(filePath);
+    if (mtimeMs === loadedMtimeMs) return;
+
+    const saved: VectorRecord[] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    records.clear();
+    for (const record of saved) {
+      records.set(record.id, record);
+    }
+    loadedMtimeMs = mtimeMs;
+  };
+
+  const save = () => {
+    if (!filePath) return;
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = null;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(Array.from(records.values())));
+    loadedMtimeMs = fs.statSync(filePath).mtimeMs;
+  };
+
+  const scheduleSave = () => {
+    if (!filePath || saveTimer) return;
+    saveTimer = setTimeout(save, saveDelayMs);
+    // Pending writes do not keep a script alive; they are flushed before it exits instead
+    saveTimer.unref();
+  };
+
+  if (filePath) {
+    load();
+    process.on('beforeExit', () => {
+      if (saveTimer) save();
+    });
+  }
+
+  return {
+    async upsert(newRecords) {
+      load();
+      for (const record of newRecords) {
+        records.set(record.id, record);
+      }
+      scheduleSave();
+    },
+
+    async delete(ids) {
+      load();
+      for (const id of ids) {
+        records.delete(id);
+      }
+      scheduleSave();
+    },
+
+    async updateMetadata(id, metadata) {
+      load();
+      const record = records.get(id);
+      if (!record) return;
+      records.set(id, { ...record, metadata: { ...record.metadata, ...metadata } });
+      scheduleSave();
+    },
+
+    async query(vector, topK, filter) {
+      load();
+      return Array.from(records.values())
+        .filter(record => !filter || matchesFilter(record.metadata, filter))
+        .map(record => ({
+          id: record.id,
+          score: cosineSimilarity(vector, record.values),
+          metadata: record.metadata,
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    },
+  };
+}
+
+let memoryStore: VectorStore | null = null;
+const localStores = new Map<string, VectorStore>();
+
+/**
+ * Vector store for the provider selected by VECTOR_STORE
+ */
+export function getVectorStore(): VectorStore {
+  switch (getVectorStoreProvider()) {
+    case 'local': {
+      // One store per file, so queries do not re-read it and writes share one batch
+      const filePath = path.resolve(process.cwd(), process.env.LOCAL_VECTOR_STORE_PATH || 'data/vectors.json');
+      if (!localStores.has(filePath)) {
+        localStores.set(filePath, createLocalVectorStore(filePath));
+      }
+      return localStores.get(filePath)!;
+    }
+    case 'memory':
+      // Shared per process so ingestion and queries in one run see the same records
+      memoryStore = memoryStore || createLocalVectorStore();
+      return memoryStore;
+    default:
+      return createPineconeVectorStore();
+  }
+}
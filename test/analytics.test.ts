@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { AskEvent, getWindowStart, normalizeQuery, summarizeAnalytics } from '../src/analytics';
+import type { FeedbackRecord } from '../src/feedback';
+
+const NOW = new Date('2026-03-10T15:00:00Z');
+
+function event(time: string, query: string, outcome: AskEvent['outcome'], latencyMs: number, costUsd: number): AskEvent {
+  return { time, conversationId: 'conv', query, outcome, latencyMs, costUsd, inputTokens: 0, outputTokens: 0 };
+}
+
+function rating(updatedAt: string, value: FeedbackRecord['rating']): FeedbackRecord {
+  return {
+    id: updatedAt,
+    createdAt: updatedAt,
+    updatedAt,
+    rating: value,
+    conversationId: 'conv',
+    traceId: 'trace',
+    query: '',
+    answer: '',
+    sources: [],
+    history: [],
+  };
+}
+
+test('the window starts at midnight UTC of the oldest day', () => {
+  assert.equal(getWindowStart(1, NOW), '2026-03-10T00:00:00.000Z');
+  assert.equal(getWindowStart(7, NOW), '2026-03-04T00:00:00.000Z');
+  assert.equal(normalizeQuery('  What is   the SW01?? '), 'what is the sw01');
+});
+
+test('daily rows and totals leave errors out of the no-answer rate', () => {
+  const summary = summarizeAnalytics(
+    [
+      event('2026-03-02T10:00:00Z', 'too old', 'answered', 9999, 9),
+      event('2026-03-09T10:00:00Z', 'What is the SW01?', 'answered', 100, 0.01),
+      event('2026-03-09T11:00:00Z', 'what is the sw01', 'no_answer', 300, 0.02),
+      event('2026-03-10T09:00:00Z', 'Opening hours?', 'error', 200, 0),
+      event('2026-03-10T10:00:00Z', 'Opening hours', 'no_answer', 400, 0.03),
+    ],
+    [rating('2026-03-09T12:00:00Z', 'up'), rating('2026-03-10T12:00:00Z', 'up'), rating('2026-03-10T13:00:00Z', 'down')],
+    [],
+    'abc',
+    3,
+    NOW
+  );
+
+  assert.deepEqual(summary.daily.map(day => [day.date, day.requests]), [
+    ['2026-03-08', 0],
+    ['2026-03-09', 2],
+    ['2026-03-10', 2],
+  ]);
+  const [, monday, tuesday] = summary.daily;
+  assert.equal(monday.noAnswerRate, 0.5);
+  assert.equal(monday.avgLatencyMs, 200);
+  assert.equal(tuesday.noAnswerRate, 1, 'the error is not a completed request');
+
+  assert.equal(summary.totals.requests, 4);
+  assert.equal(summary.totals.noAnswerRate, 0.6667);
+  assert.equal(summary.totals.costUsd, 0.06);
+  assert.equal(summary.totals.positiveRate, 0.6667);
+});
+
+test('top queries group rephrasings and keep their no-answer counts', () => {
+  const summary = summarizeAnalytics(
+    [
+      event('2026-03-10T08:00:00Z', 'Opening hours?', 'no_answer', 0, 0),
+      event('2026-03-10T09:00:00Z', 'What is the SW01?', 'answered', 0, 0),
+      event('2026-03-10T10:00:00Z', 'opening  HOURS', 'no_answer', 0, 0),
+    ],
+    [],
+    [],
+    'abc',
+    1,
+    NOW
+  );
+
+  assert.deepEqual(summary.topQueries.map(({ query, count, noAnswer }) => ({ query, count, noAnswer })), [
+    { query: 'opening hours', count: 2, noAnswer: 2 },
+    { query: 'what is the sw01', count: 1, noAnswer: 0 },
+  ]);
+  assert.equal(summary.totals.positiveRate, null);
+});
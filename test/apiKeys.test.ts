@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after, before, test } from 'node:test';
+import {
+  ApiKeyStore,
+  authenticateAdminRequest,
+  authenticateRequest,
+  createFileApiKeyStore,
+  getPreflightOrigins,
+  hashApiKey,
+  isDebugAllowed,
+  issueApiKey,
+  revokeApiKey,
+} from '../src/apiKeys';
+
+const METHODS = 'POST, OPTIONS';
+let dir = '';
+let store: ApiKeyStore;
+
+function headers(values: Record<string, string>) {
+  return (name: string) => values[name] ?? null;
+}
+
+before(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nick-keys-'));
+  store = createFileApiKeyStore(path.join(dir, 'api-keys.json'));
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('only the hash of an issued key is stored', async () => {
+  const { key, record } = await issueApiKey('Partner A', ['https://a.example'], {}, store);
+  const saved = fs.readFileSync(path.join(dir, 'api-keys.json'), 'utf-8');
+
+  assert.equal(record.hash, hashApiKey(key));
+  assert.ok(!saved.includes(key));
+  assert.equal(await store.findByHash(hashApiKey(key)).then(found => found?.id), record.id);
+});
+
+test('a key is accepted from its own origins and gets CORS headers for them', async () => {
+  const { key, record } = await issueApiKey('Partner B', ['https://b.example'], {}, store);
+  const auth = await authenticateRequest(
+    headers({ authorization: `Bearer ${key}`, origin: 'https://b.example' }),
+    METHODS,
+    store
+  );
+
+  assert.equal(auth.rejection, null);
+  assert.equal(auth.apiKey?.id, record.id);
+  assert.equal(auth.corsHeaders['Access-Control-Allow-Origin'], 'https://b.example');
+
+  const elsewhere = await authenticateRequest(
+    headers({ authorization: `Bearer ${key}`, origin: 'https://evil.example' }),
+    METHODS,
+    store
+  );
+  assert.equal(elsewhere.rejection?.status, 403);
+  assert.equal(elsewhere.corsHeaders['Access-Control-Allow-Origin'], undefined);
+});
+
+test('unknown and revoked keys are rejected; missing keys only when required', async () => {
+  const { key, record } = await issueApiKey('Partner C', ['*'], {}, store);
+  await revokeApiKey(record.id, store);
+
+  const revoked = await authenticateRequest(headers({ authorization: `Bearer ${key}` }), METHODS, store);
+  assert.equal(revoked.rejection?.body.code, 'unauthorized');
+  const unknown = await authenticateRequest(headers({ authorization: 'Bearer nick_nope' }), METHODS, store);
+  assert.equal(unknown.rejection?.status, 401);
+
+  assert.equal((await authenticateRequest(headers({}), METHODS, store)).rejection, null);
+  process.env.REQUIRE_API_KEY = 'true';
+  try {
+    assert.equal((await authenticateRequest(headers({}), METHODS, store)).rejection?.status, 401);
+  } finally {
+    delete process.env.REQUIRE_API_KEY;
+  }
+});
+
+test('preflights are granted for the origins of active keys', async () => {
+  const origins = await getPreflightOrigins(store);
+  assert.ok(origins.includes('https://b.example'));
+  assert.ok(!origins.includes('*'), 'revoked keys do not count');
+});
+
+test('debug output needs a key with debug access', async () => {
+  const { record } = await issueApiKey('Developer', ['*'], { debug: true }, store);
+  assert.equal(isDebugAllowed(record), true);
+  assert.equal(isDebugAllowed({ ...record, debug: undefined }), false);
+
+  process.env.ALLOW_DEBUG_WITHOUT_KEY = 'false';
+  try {
+    assert.equal(isDebugAllowed(null), false);
+  } finally {
+    delete process.env.ALLOW_DEBUG_WITHOUT_KEY;
+  }
+});
+
+test('admin routes need a key with admin access', async () => {
+  const { key: plainKey } = await issueApiKey('Partner D', ['*'], {}, store);
+  const { key: adminKey } = await issueApiKey('Admin', ['*'], { admin: true }, store);
+
+  assert.equal((await authenticateAdminRequest(headers({}), METHODS, store)).rejection?.status, 401);
+  assert.equal((await authenticateAdminRequest(headers({ authorization: `Bearer ${plainKey}` }), METHODS, store)).rejection?.status, 403);
+  assert.equal((await authenticateAdminRequest(headers({ authorization: `Bearer ${adminKey}` }), METHODS, store)).rejection, null);
+});
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { API_VERSION, createApiError, parseAskRequest, parseFeedbackRequest } from '../src/apiSchema';
+import { ContentBlockedError, PayloadTooLargeError, UpstreamTimeoutError, VectorStoreUnavailableError } from '../src/errors';
+
+test('a valid ask request is trimmed and given defaults', () => {
+  const { request, error } = parseAskRequest({ version: API_VERSION, query: '  What is the SW01?  ', conversationId: null });
+  assert.equal(error, undefined);
+  assert.deepEqual(request, {
+    query: 'What is the SW01?',
+    conversationId: undefined,
+    conversationHistory: undefined,
+    includeSources: false,
+    debug: false,
+  });
+});
+
+test('every invalid field is listed in the details', () => {
+  const { error } = parseAskRequest({
+    query: '',
+    conversationId: 'not/an/id',
+    conversationHistory: [{ role: 'system', content: 'hi' }, 'text'],
+    includeSources: 'yes',
+    extra: 1,
+  });
+  assert.equal(error?.code, 'invalid_request');
+  assert.deepEqual(error?.details?.map(issue => issue.field), [
+    'query',
+    'conversationId',
+    'conversationHistory[0].role',
+    'conversationHistory[1]',
+    'includeSources',
+    'extra',
+  ]);
+});
+
+test('limits and versions have their own error codes', () => {
+  assert.equal(parseAskRequest({ version: 2, query: 'hi' }).error?.code, 'unsupported_version');
+  assert.equal(parseAskRequest({ query: 'x'.repeat(1001) }).error?.code, 'query_too_long');
+  const history = Array.from({ length: 21 }, () => ({ role: 'user', content: 'hi' }));
+  assert.equal(parseAskRequest({ query: 'hi', conversationHistory: history }).error?.code, 'history_too_long');
+  assert.equal(parseAskRequest([]).error?.code, 'invalid_request');
+});
+
+test('feedback requests need a conversation, a trace ID and a rating', () => {
+  const traceId = 'a'.repeat(32);
+  const { request } = parseFeedbackRequest({ conversationId: 'conv-1', traceId, rating: 'down', correction: ' 2.4kg ' });
+  assert.deepEqual(request, { conversationId: 'conv-1', traceId, rating: 'down', correction: '2.4kg' });
+
+  const { error } = parseFeedbackRequest({ conversationId: 'conv-1', traceId: 'abc', rating: 'meh' });
+  assert.deepEqual(error?.details?.map(issue => issue.field), ['traceId', 'rating']);
+});
+
+test('error codes map to their HTTP status and a stable body', () => {
+  const statuses = Object.fromEntries(
+    [
+      new PayloadTooLargeError(10),
+      new ContentBlockedError(),
+      new VectorStoreUnavailableError(),
+      new UpstreamTimeoutError(),
+    ].map(error => [error.code, createApiError(error.code, error.message).status])
+  );
+  assert.deepEqual(statuses, {
+    payload_too_large: 413,
+    content_blocked: 422,
+    vector_store_unavailable: 503,
+    upstream_timeout: 504,
+  });
+
+  assert.deepEqual(createApiError('rate_limited', 'Slow down.'), {
+    status: 429,
+    body: { version: API_VERSION, code: 'rate_limited', error: 'Too many requests', message: 'Slow down.' },
+  });
+});
@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ApiErrorResponse } from '../src/apiSchema';
+import { AskHttpRequest, handleAskRequest } from '../src/askHandler';
+import { runIngest } from '../src/ingest';
+
+Object.assign(process.env, {
+  MODEL_PROVIDER: 'fake',
+  VECTOR_STORE: 'memory',
+  SESSION_STORE: 'memory',
+  CACHE_STORE: 'none',
+  ANALYTICS_STORE: 'none',
+  USAGE_STORE: 'memory',
+  REQUIRE_API_KEY: 'false',
+  LOG_LEVEL: 'error',
+});
+
+const originalCwd = process.cwd();
+let workDir = '';
+let clients = 0;
+
+function ask(body: unknown, overrides: Partial<AskHttpRequest> = {}, headers: Record<string, string> = {}) {
+  return handleAskRequest({
+    method: 'POST',
+    url: '/api/ask',
+    getHeader: name => headers[name] ?? null,
+    readBody: async () => JSON.stringify(body),
+    // Each test gets its own rate limit bucket
+    clientIp: `10.0.0.${++clients}`,
+    ...overrides,
+  });
+}
+
+function errorCode(body: unknown): string {
+  return (body as ApiErrorResponse).code;
+}
+
+before(async () => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nick-ask-'));
+  process.chdir(workDir);
+  const productsPath = path.join(workDir, 'products.csv');
+  fs.writeFileSync(productsPath, [
+    'SKU,Product Name,Product_Weight,Product Category',
+    'SW01,Spin Mop,1.6kg,Floor Care',
+    'KT01,Electric Kettle,1.1kg,Kitchen',
+  ].join('\n'));
+  await runIngest([productsPath]);
+});
+
+after(() => {
+  process.chdir(originalCwd);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test('malformed requests get their error codes', async () => {
+  const wrongMethod = await ask({}, { method: 'GET' });
+  assert.equal(wrongMethod.status, 405);
+  assert.equal(wrongMethod.headers['Allow'], 'POST, OPTIONS');
+
+  const badJson = await ask(null, { readBody: async () => '{"query":' });
+  assert.equal(errorCode(badJson.body), 'invalid_json');
+
+  const invalid = await ask({ query: 42 });
+  assert.equal(invalid.status, 400);
+  assert.deepEqual((invalid.body as ApiErrorResponse).details?.map(issue => issue.field), ['query']);
+});
+
+test('missing provider settings are reported as a configuration error', async () => {
+  process.env.VECTOR_STORE = 'pinecone';
+  try {
+    const response = await ask({ query: 'Tell me about the Spin Mop' });
+    assert.equal(response.status, 500);
+    assert.equal(errorCode(response.body), 'configuration_error');
+  } finally {
+    process.env.VECTOR_STORE = 'memory';
+  }
+});
+
+test('answers stream as progress, token and done events', async () => {
+  const response = await ask({ query: 'Tell me about the Electric Kettle' }, { url: '/api/ask?stream=1' });
+  assert.equal(response.headers['Content-Type'], 'text/event-stream');
+
+  const events: Array<[string, any]> = [];
+  await response.stream!((event, data) => events.push([event, data]));
+  const names = events.map(([event]) => event);
+  assert.ok(names.includes('token'));
+  assert.equal(names[names.length - 1], 'done');
+  const streamed = events.filter(([event]) => event === 'token').map(([, data]) => data.text).join('');
+  assert.equal(streamed, events[events.length - 1][1].answer);
+});
+
+test('a disconnect stops the stream without an error event', async () => {
+  const disconnect = new AbortController();
+  const response = await ask(
+    { query: 'Tell me about the Electric Kettle' },
+    { url: '/api/ask?stream=1', signal: disconnect.signal }
+  );
+
+  const events: string[] = [];
+  await response.stream!((event) => {
+    events.push(event);
+    if (event === 'token') disconnect.abort();
+  });
+  assert.deepEqual(events.filter(event => event === 'token'), ['token']);
+  assert.ok(!events.includes('done'));
+  assert.ok(!events.includes('error'));
+});
+
+test('failed authentication still takes from the IP bucket', async () => {
+  process.env.RATE_LIMIT_IP_BURST = '2';
+  try {
+    const headers = { authorization: 'Bearer nick_wrong' };
+    const request = { clientIp: '192.0.2.1' };
+    assert.equal((await ask({ query: 'hi' }, request, headers)).status, 401);
+    assert.equal((await ask({ query: 'hi' }, request, headers)).status, 401);
+
+    const limited = await ask({ query: 'hi' }, request, headers);
+    assert.equal(limited.status, 429);
+    assert.ok(limited.headers['Retry-After']);
+  } finally {
+    delete process.env.RATE_LIMIT_IP_BURST;
+  }
+});
+
+test('debug output is refused without debug access', async () => {
+  process.env.ALLOW_DEBUG_WITHOUT_KEY = 'false';
+  try {
+    const response = await ask({ query: 'Tell me about the Spin Mop', debug: true });
+    assert.equal(response.status, 403);
+    assert.equal(errorCode(response.body), 'forbidden');
+  } finally {
+    delete process.env.ALLOW_DEBUG_WITHOUT_KEY;
+  }
+});
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createFileCacheStore, createMemoryCacheStore } from '../src/cache';
+import { runIngest } from '../src/ingest';
+import { runRAG } from '../src/rag';
+
+Object.assign(process.env, {
+  MODEL_PROVIDER: 'fake',
+  VECTOR_STORE: 'memory',
+  CACHE_STORE: 'memory',
+  LOG_LEVEL: 'error',
+});
+
+const originalCwd = process.cwd();
+let workDir = '';
+let productsPath = '';
+
+function writeProducts(kettleWeight: string) {
+  fs.writeFileSync(productsPath, [
+    'SKU,Product Name,Product_Weight,Product Category',
+    'SW01,Spin Mop,1.6kg,Floor Care',
+    `KT01,Electric Kettle,${kettleWeight},Kitchen`,
+  ].join('\n'));
+}
+
+before(() => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nick-cache-'));
+  process.chdir(workDir);
+  productsPath = path.join(workDir, 'products.csv');
+});
+
+after(() => {
+  process.chdir(originalCwd);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test('memory cache expires entries and evicts the oldest', async () => {
+  const cache = createMemoryCacheStore(2);
+  await cache.set('a', 1, 60000);
+  await cache.set('b', 2, 60000);
+  await cache.set('c', 3, 60000);
+  assert.equal(await cache.get('a'), null);
+  assert.deepEqual((await cache.entries<number>('')).map(entry => entry.value), [2, 3]);
+
+  await cache.set('short', 4, -1);
+  assert.equal(await cache.get('short'), null);
+});
+
+test('file cache writes changes in one batch and reloads them', async () => {
+  const filePath = path.join(workDir, 'cache.json');
+  const cache = createFileCacheStore(filePath, 10, 20);
+  await cache.set('answer:x', 'first', 60000);
+  await cache.set('answer:y', 'second', 60000);
+  assert.equal(fs.existsSync(filePath), false, 'nothing written before the delay');
+
+  await new Promise(resolve => setTimeout(resolve, 100));
+  const reloaded = createFileCacheStore(filePath, 10, 20);
+  assert.equal(await reloaded.get('answer:y'), 'second');
+});
+
+test('cached answers are reused until the index version changes', async () => {
+  const question = 'Tell me about the Electric Kettle';
+  writeProducts('1.1kg');
+  await runIngest([productsPath]);
+
+  assert.equal((await runRAG(question)).debug?.cache, 'miss');
+  assert.equal((await runRAG(question)).debug?.cache, 'exact');
+
+  writeProducts('1.3kg');
+  await runIngest([productsPath]);
+  assert.equal((await runRAG(question)).debug?.cache, 'miss');
+});
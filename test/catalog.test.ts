@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Catalog, answerFromCatalog, buildCatalogSheet, parseNumber } from '../src/catalog';
+
+function buildCatalog(): Catalog {
+  const { sheet, rows } = buildCatalogSheet('Products', [
+    { SKU: 'SW01', 'Product Name': 'Spin Mop', Product_Weight: '1.6kg', Price: '$24.99' },
+    { SKU: 'SW02', 'Product Name': 'Steam Cleaner', Product_Weight: '2.4kg', Price: '$89.00' },
+    { SKU: 'KT01', 'Product Name': 'Electric Kettle', Product_Weight: '700gram', Price: '$1,299.99' },
+  ]);
+  return { generatedAt: '', sheets: [sheet], rows };
+}
+
+test('parseNumber reads currencies, thousands separators and units', () => {
+  assert.deepEqual(parseNumber('$1,299.99'), { value: 1299.99, currency: '$', unit: '' });
+  assert.deepEqual(parseNumber('700gram'), { value: 0.7, currency: '', unit: 'kg' });
+  assert.equal(parseNumber('Floor Care'), null);
+});
+
+test('buildCatalogSheet types columns and marks identifiers', () => {
+  const { sheets, rows } = buildCatalog();
+  const byName = Object.fromEntries(sheets[0].columns.map(column => [column.name, column]));
+
+  assert.equal(byName.SKU.identifier, true);
+  assert.equal(byName.Product_Weight.type, 'number');
+  assert.equal(byName.Product_Weight.unit, 'kg');
+  assert.equal(byName.Price.currency, '$');
+  assert.equal(rows[2].values.Product_Weight, 0.7);
+  assert.equal(rows[0].row, 2);
+});
+
+test('answerFromCatalog answers attribute questions and cites the row', () => {
+  const match = answerFromCatalog('What is the weight of the SW02?', buildCatalog());
+  assert.ok(match);
+  assert.equal(match.answer, 'The Product_Weight of Steam Cleaner is 2.4kg. [1]');
+  assert.deepEqual(match.rows.map(row => row.row), [3]);
+});
+
+test('answerFromCatalog leaves questions without a product or attribute to retrieval', () => {
+  assert.equal(answerFromCatalog('Which mop is best for tiles?', buildCatalog()), null);
+  assert.equal(answerFromCatalog('Tell me about the SW01', buildCatalog()), null);
+});
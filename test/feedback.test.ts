@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NextRequest } from 'next/server';
+import { POST } from '../app/api/feedback/route';
+import type { AskResponse } from '../src/apiSchema';
+import { handleAskRequest } from '../src/askHandler';
+import { getFeedbackStore } from '../src/feedback';
+import { runIngest } from '../src/ingest';
+
+Object.assign(process.env, {
+  MODEL_PROVIDER: 'fake',
+  VECTOR_STORE: 'memory',
+  SESSION_STORE: 'memory',
+  FEEDBACK_STORE: 'memory',
+  CACHE_STORE: 'none',
+  ANALYTICS_STORE: 'none',
+  USAGE_STORE: 'none',
+  REQUIRE_API_KEY: 'false',
+  LOG_LEVEL: 'error',
+});
+
+const originalCwd = process.cwd();
+let workDir = '';
+let answer: { conversationId: string; traceId: string; cookie: string };
+
+function sendFeedback(body: unknown, headers: Record<string, string> = {}) {
+  return POST(new NextRequest('http://localhost/api/feedback', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'content-type': 'application/json', ...headers },
+  }));
+}
+
+before(async () => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nick-feedback-'));
+  process.chdir(workDir);
+  const productsPath = path.join(workDir, 'products.csv');
+  fs.writeFileSync(productsPath, 'SKU,Product Name,Product_Weight\nSW02,Steam Cleaner,2.4kg\n');
+  await runIngest([productsPath]);
+
+  const response = await handleAskRequest({
+    method: 'POST',
+    url: '/api/ask',
+    getHeader: () => null,
+    readBody: async () => JSON.stringify({ query: 'What is the weight of the SW02?' }),
+  });
+  answer = {
+    conversationId: (response.body as AskResponse).conversationId,
+    traceId: response.headers['X-Trace-Id'],
+    cookie: response.headers['Set-Cookie'].split(';')[0],
+  };
+});
+
+after(() => {
+  process.chdir(originalCwd);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test('the owner can rate an answer, and rating again replaces it', async () => {
+  const { conversationId, traceId, cookie } = answer;
+  const first = await sendFeedback({ conversationId, traceId, rating: 'up' }, { cookie });
+  assert.equal(first.status, 200);
+  const { id } = await first.json();
+
+  const second = await sendFeedback({ conversationId, traceId, rating: 'down', correction: 'It is 2.5kg.' }, { cookie });
+  assert.equal((await second.json()).id, id);
+
+  const [record, ...rest] = await getFeedbackStore().list();
+  assert.equal(rest.length, 0);
+  assert.equal(record.rating, 'down');
+  assert.equal(record.query, 'What is the weight of the SW02?');
+  assert.match(record.answer, /2\.4kg/);
+});
+
+test('feedback on someone else\'s conversation is treated as not found', async () => {
+  const { conversationId, traceId } = answer;
+  const stranger = await sendFeedback({ conversationId, traceId, rating: 'down' });
+  assert.equal(stranger.status, 404);
+
+  const wrongTrace = await sendFeedback({ conversationId, traceId: 'f'.repeat(32), rating: 'up' }, { cookie: answer.cookie });
+  assert.equal(wrongTrace.status, 404);
+});
+
+test('invalid feedback is rejected with field details', async () => {
+  const response = await sendFeedback({ conversationId: answer.conversationId, rating: 'meh' });
+  assert.equal(response.status, 400);
+  const body = await response.json();
+  assert.deepEqual(body.details.map((issue: { field: string }) => issue.field), ['traceId', 'rating']);
+});
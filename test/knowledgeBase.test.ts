@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { after, before, mock, test } from 'node:test';
+import fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getCatalogPath } from '../src/catalog';
+import { runIngest } from '../src/ingest';
+import { IngestJob, createUpload, getIngestJob, startRollbackJob, startUploadJob } from '../src/knowledgeBase';
+import { loadIndexVersion, loadManifest } from '../src/manifest';
+import { getEmbeddingModel } from '../src/models';
+import { getVectorStore } from '../src/vectorStore';
+
+// A local vector store keeps a manifest, so uploads and rollbacks only re-embed what changed
+Object.assign(process.env, { MODEL_PROVIDER: 'fake', VECTOR_STORE: 'local', LOG_LEVEL: 'error' });
+
+const HEADER = 'SKU,Product Name,Product_Weight,Product Category';
+const ORIGINAL = [HEADER, 'SW01,Spin Mop,1.6kg,Floor Care', 'SW02,Steam Cleaner,2.4kg,Floor Care'].join('\n');
+const UPDATED = [HEADER, 'SW01,Spin Mop,1.6kg,Floor Care', 'SW02,Steam Cleaner,2.6kg,Floor Care', 'KT01,Electric Kettle,1.1kg,Kitchen'].join('\n');
+
+const originalCwd = process.cwd();
+let workDir = '';
+let firstVersion = '';
+
+async function finished(job: IngestJob): Promise<IngestJob> {
+  for (;;) {
+    const current = getIngestJob(job.id)!;
+    if (current.status !== 'running') return current;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+async function storedVectorIds(): Promise<string[]> {
+  const probe = await getEmbeddingModel().embed('product');
+  return (await getVectorStore().query(probe, 1000)).map(match => match.id).sort();
+}
+
+before(async () => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nick-kb-'));
+  process.chdir(workDir);
+  fs.writeFileSync('products.csv', ORIGINAL);
+  firstVersion = (await runIngest(['products.csv'])).run!.version;
+});
+
+after(() => {
+  process.chdir(originalCwd);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test('an upload is previewed without touching the knowledge base', async () => {
+  const { value: preview } = await createUpload('products-v2.csv', Buffer.from(UPDATED));
+  assert.ok(preview);
+  assert.equal(preview.target, 'products.csv');
+  assert.deepEqual(preview.schema, []);
+  assert.deepEqual(
+    [preview.rows[0].keyColumn, preview.rows[0].added, preview.rows[0].changed, preview.rows[0].unchanged],
+    ['SKU', 1, 1, 1]
+  );
+  assert.deepEqual(preview.rows[0].samples.changed[0].fields, [{ column: 'Product_Weight', before: 2.4, after: 2.6 }]);
+  assert.equal(fs.readFileSync('products.csv', 'utf-8'), ORIGINAL);
+});
+
+test('uploads missing a column need the schema change accepted', async () => {
+  const { value: preview } = await createUpload('products.csv', Buffer.from('SKU,Product Name\nSW01,Spin Mop\n'));
+  assert.deepEqual(preview?.schema.filter(issue => issue.level === 'error').map(issue => issue.column), ['Product_Weight', 'Product Category']);
+  assert.equal(startUploadJob(preview!.id).error?.code, 'invalid_request');
+  assert.equal((await createUpload('products.xlsx', Buffer.from('x'))).error?.code, 'invalid_request');
+});
+
+test('applying an upload re-indexes it, and rolling back restores the old version', async () => {
+  const { value: preview } = await createUpload('products-v2.csv', Buffer.from(UPDATED));
+  const applied = await finished(startUploadJob(preview!.id).value!);
+  assert.equal(applied.status, 'succeeded');
+  assert.notEqual(applied.publishedVersion, firstVersion);
+  assert.equal(fs.readFileSync('products.csv', 'utf-8'), UPDATED);
+  assert.equal(startUploadJob(preview!.id).error?.code, 'not_found', 'an upload is applied once');
+
+  const rolledBack = await finished(startRollbackJob(firstVersion).value!);
+  assert.equal(rolledBack.status, 'succeeded');
+  assert.equal(rolledBack.publishedVersion, firstVersion);
+  assert.equal(loadIndexVersion(), firstVersion);
+  assert.equal(fs.readFileSync('products.csv', 'utf-8'), ORIGINAL);
+  assert.equal(startRollbackJob(firstVersion).error?.code, 'invalid_request');
+});
+
+test('a job that fails after writing vectors puts the sources back and repairs the store', async () => {
+  const readCatalogRows = () => JSON.parse(fs.readFileSync(getCatalogPath(), 'utf-8')).rows;
+  const catalogRows = readCatalogRows();
+  const { value: preview } = await createUpload('products-v2.csv', Buffer.from(UPDATED));
+
+  // Fail once, after the vectors are written but before the catalog is published.
+  // The default import is the module object the source files read from.
+  let failed = false;
+  const writeFileSync = fs.writeFileSync;
+  const writes = mock.method(fs, 'writeFileSync', (...args: Parameters<typeof fs.writeFileSync>) => {
+    if (!failed && args[0] === getCatalogPath()) {
+      failed = true;
+      throw new Error('disk full');
+    }
+    return writeFileSync(...args);
+  });
+  let job: IngestJob;
+  try {
+    job = await finished(startUploadJob(preview!.id).value!);
+  } finally {
+    writes.mock.restore();
+  }
+
+  assert.equal(job.status, 'failed');
+  assert.match(job.error || '', /disk full \(after writing \d+ vectors\)/);
+  assert.ok(job.log.some(line => line.includes('matches the previous index again')));
+  assert.equal(fs.readFileSync('products.csv', 'utf-8'), ORIGINAL);
+  assert.deepEqual(readCatalogRows(), catalogRows);
+  assert.deepEqual(await storedVectorIds(), Object.keys(loadManifest(`local:${path.resolve('data/vectors.json')}`).entries).sort());
+});
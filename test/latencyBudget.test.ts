@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { UpstreamTimeoutError } from '../src/errors';
+import { STAGE_TIMEOUTS, createLatencyBudget, withTimeout } from '../src/latencyBudget';
+
+test('stage timeouts are capped by what is left of the budget', () => {
+  const roomy = createLatencyBudget(60000);
+  assert.equal(roomy.stageTimeout('reranking'), STAGE_TIMEOUTS.reranking);
+  assert.equal(roomy.canAfford('reranking'), true);
+
+  const tight = createLatencyBudget(20000);
+  assert.ok(tight.stageTimeout('reranking') <= STAGE_TIMEOUTS.reranking);
+  assert.equal(tight.canAfford('reranking'), false, 'generation keeps its reserve');
+  assert.ok(createLatencyBudget(3000).stageTimeout('retrieving') <= 3000);
+});
+
+test('stage signals fire on their timeout or when the request is cancelled', async () => {
+  const expired = createLatencyBudget(1).signal('retrieving');
+  await new Promise(resolve => setTimeout(resolve, 20));
+  assert.equal(expired.aborted, true);
+
+  const cancel = new AbortController();
+  const signal = createLatencyBudget(60000, cancel.signal).signal('rewriting');
+  assert.equal(signal.aborted, false);
+  cancel.abort();
+  assert.equal(signal.aborted, true);
+  assert.equal(createLatencyBudget(60000, cancel.signal).signal().aborted, true, 'already cancelled');
+});
+
+test('withTimeout rejects calls that cannot be aborted', async () => {
+  assert.equal(await withTimeout(Promise.resolve('done'), 50, 'Rewrite'), 'done');
+  await assert.rejects(
+    withTimeout(new Promise(() => {}), 10, 'Rewrite'),
+    (error: unknown) => error instanceof UpstreamTimeoutError && error.message === 'Rewrite timed out after 10ms.'
+  );
+});
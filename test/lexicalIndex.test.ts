@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { test } from 'node:test';
+import { buildLexicalIndex, loadLexicalIndex, saveLexicalIndex, searchLexicalIndex, tokenize } from '../src/lexicalIndex';
+import { fuseRankings } from '../src/rag';
+
+const CHUNKS = [
+  { id: 'mop', text: 'Spin Mop HY-2.0 with a microfibre head for tiles', metadata: { sheet: 'Products', attr_category: 'Floor Care' } },
+  { id: 'steam', text: 'Steam Cleaner for tiles and grout, tiles dry fast', metadata: { sheet: 'Products', attr_category: 'Floor Care' } },
+  { id: 'kettle', text: 'Electric Kettle with a constructor-grade steel body', metadata: { sheet: 'Products', attr_category: 'Kitchen' } },
+];
+
+test('tokenize keeps codes whole as well as their parts, without stop words', () => {
+  assert.deepEqual(tokenize('What is the HY-2.0?'), ['hy-2.0', 'hy', '2', '0']);
+});
+
+test('BM25 ranks exact codes and repeated terms first', () => {
+  const index = buildLexicalIndex(CHUNKS);
+  assert.equal(searchLexicalIndex(index, 'hy-2.0')[0].id, 'mop');
+
+  const tiles = searchLexicalIndex(index, 'tiles');
+  assert.deepEqual(tiles.map(match => match.id), ['steam', 'mop']);
+  assert.ok(tiles[0].score > tiles[1].score);
+});
+
+test('search applies the vector metadata filter', () => {
+  const index = buildLexicalIndex(CHUNKS);
+  const matches = searchLexicalIndex(index, 'tiles steel', 10, { attr_category: { $eq: 'Kitchen' } });
+  assert.deepEqual(matches.map(match => match.id), ['kettle']);
+});
+
+test('a term named like an Object.prototype property is indexed and searched', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nick-lexical-'));
+  try {
+    const filePath = path.join(dir, 'lexical-index.json');
+    saveLexicalIndex(buildLexicalIndex(CHUNKS), filePath);
+    const index = loadLexicalIndex(filePath);
+    assert.ok(index);
+
+    assert.deepEqual(searchLexicalIndex(index, 'constructor').map(match => match.id), ['kettle']);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('reciprocal rank fusion favours chunks found by both retrievers', () => {
+  const chunk = (id: string, score: number) => ({ id, text: id, metadata: {}, score });
+  const fused = fuseRankings(
+    [chunk('a', 0.9), chunk('b', 0.8)],
+    [chunk('b', 7.5), chunk('c', 3.2)]
+  );
+
+  assert.deepEqual(fused.map(match => match.id), ['b', 'a', 'c']);
+  assert.equal(fused[0].scores?.fused, 1 / 62 + 1 / 61);
+  assert.equal(fused[0].scores?.dense, 0.8);
+  assert.equal(fused[0].scores?.lexical, 7.5);
+});
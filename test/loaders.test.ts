@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildChunks, isSupportedFile, loadSources } from '../src/ingest';
+
+let workDir = '';
+
+function write(name: string, content: string): string {
+  const filePath = path.join(workDir, name);
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+before(() => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nick-loaders-'));
+});
+
+after(() => {
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test('loaders are picked by extension', () => {
+  assert.deepEqual(['a.CSV', 'b.json', 'c.md', 'd.pdf', 'e.docx'].map(isSupportedFile), [true, true, true, true, false]);
+});
+
+test('CSV cells stay text and the sheet is named after the file', async () => {
+  const [doc] = await loadSources([{ path: write('parts.csv', 'SKU,Name\n1-01-093,Filter\n'), source: 'parts.csv' }]);
+  assert.equal(doc.kind, 'table');
+  assert.equal(doc.sheet, 'parts.csv');
+  assert.deepEqual(doc.kind === 'table' && doc.records, [{ SKU: '1-01-093', Name: 'Filter' }]);
+});
+
+test('JSON arrays of records become tables, one per key of an object', async () => {
+  const docs = await loadSources([
+    { path: write('faq.json', JSON.stringify([{ question: 'Returns?', answer: '30 days' }])), source: 'faq.json' },
+    { path: write('info.json', JSON.stringify({ stores: [{ city: 'Leeds' }], prices: [{ sku: 'SW01' }] })), source: 'info.json' },
+    { path: write('settings.json', JSON.stringify({ currency: 'GBP' })), source: 'settings.json' },
+  ]);
+  assert.deepEqual(docs.map(doc => [doc.kind, doc.sheet]), [
+    ['table', 'faq.json'],
+    ['table', 'info.json stores'],
+    ['table', 'info.json prices'],
+    ['text', 'settings.json'],
+  ]);
+});
+
+test('Markdown is split into sections that cite their heading and line', async () => {
+  const source = 'care.md';
+  const docs = await loadSources([{ path: write(source, 'Intro line\n\n# Cleaning\nRinse the mop.\n\n## Storage\nKeep it dry.\n'), source }]);
+  const { chunks } = buildChunks(docs);
+
+  assert.deepEqual(chunks.map(chunk => [chunk.metadata.section, chunk.metadata.row]), [
+    [undefined, 1],
+    ['Cleaning', 3],
+    ['Storage', 6],
+  ]);
+  assert.ok(chunks.every(chunk => chunk.metadata.source === source));
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildChunks } from '../src/ingest';
+import { IngestChunk, IngestManifest, computeIndexVersion, diffChunks, getChunkId, toManifestEntry } from '../src/manifest';
+
+function chunk(id: string, text: string, row: number): IngestChunk {
+  return { id, text, metadata: { text, sheet: 'Products', row, type: 'row' } };
+}
+
+function manifestOf(chunks: IngestChunk[]): IngestManifest {
+  return { target: 'memory', updatedAt: '', entries: Object.fromEntries(chunks.map(c => [c.id, toManifestEntry(c)])) };
+}
+
+test('chunk IDs depend on the sheet and key, not on position', () => {
+  assert.equal(getChunkId('Products', 'row', 'SKU=SW01'), getChunkId('Products', 'row', 'SKU=SW01'));
+  assert.match(getChunkId('Products Data', 'row', 'SKU=SW01'), /^products-data_row_[0-9a-f]{16}$/);
+  assert.notEqual(getChunkId('Products', 'row', 'SKU=SW01'), getChunkId('Archive', 'row', 'SKU=SW01'));
+});
+
+test('row chunks keep their IDs when rows are re-ordered', () => {
+  const records = [
+    { SKU: 'SW01', 'Product Name': 'Spin Mop' },
+    { SKU: 'SW02', 'Product Name': 'Steam Cleaner' },
+  ];
+  const ids = (rows: typeof records) => buildChunks([{ kind: 'table', sheet: 'Products', source: 'products.csv', records: rows }])
+    .chunks.filter(c => c.metadata.type === 'row')
+    .map(c => c.id)
+    .sort();
+  assert.deepEqual(ids(records), ids([...records].reverse()));
+});
+
+test('the diff separates new, re-embedded, metadata-only, unchanged and vanished chunks', () => {
+  const previous = [chunk('a', 'Spin Mop 1.6kg', 2), chunk('b', 'Steam Cleaner 2.4kg', 3), chunk('c', 'Kettle', 4), chunk('d', 'Gone', 5)];
+  const current = [chunk('a', 'Spin Mop 1.6kg', 2), chunk('b', 'Steam Cleaner 2.6kg', 3), chunk('c', 'Kettle', 9), chunk('e', 'New', 6)];
+
+  const diff = diffChunks(current, manifestOf(previous));
+  assert.deepEqual(diff.add.map(c => c.id), ['e']);
+  assert.deepEqual(diff.update.map(c => c.id), ['b']);
+  assert.deepEqual(diff.updateMetadata.map(c => c.id), ['c']);
+  assert.deepEqual(diff.delete, ['d']);
+  assert.equal(diff.unchanged, 1);
+
+  assert.deepEqual(diffChunks(current, manifestOf(previous), true).update.map(c => c.id), ['a', 'b', 'c']);
+  const repair = diffChunks(current, manifestOf(current), false, ['a', 'x']);
+  assert.deepEqual([repair.update.map(c => c.id), repair.delete], [['a'], ['x']]);
+});
+
+test('the index version only changes with the content', () => {
+  const chunks = [chunk('a', 'Spin Mop', 2), chunk('b', 'Kettle', 3)];
+  const version = computeIndexVersion(manifestOf(chunks).entries);
+  assert.equal(computeIndexVersion(manifestOf([...chunks].reverse()).entries), version);
+  assert.notEqual(computeIndexVersion(manifestOf([chunk('a', 'Spin Mop', 2), chunk('b', 'Kettle!', 3)]).entries), version);
+});
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import Markdown from '../components/Markdown';
+
+function render(text: string): string {
+  return renderToStaticMarkup(createElement(Markdown, { text }));
+}
+
+test('http(s) and mailto links become anchors', () => {
+  assert.equal(
+    render('See [the manual](https://example.com/manual.pdf).'),
+    '<div class="markdown"><p>See <a href="https://example.com/manual.pdf" target="_blank" rel="noopener noreferrer">the manual</a>.</p></div>'
+  );
+  assert.match(render('[Email us](mailto:help@example.com)'), /<a href="mailto:help@example.com"/);
+});
+
+test('links with other schemes stay plain text', () => {
+  for (const url of ['javascript:alert(1)', 'JavaScript:alert(1)', 'data:text/html,hi', 'vbscript:x', '//evil.example']) {
+    const html = render(`[click](${url})`);
+    assert.ok(!html.includes('<a'), url);
+    assert.ok(html.includes('[click]'), url);
+  }
+});
+
+test('HTML in an answer is escaped, not injected', () => {
+  const html = render('**<img src=x onerror=alert(1)>** and <script>x</script>');
+  assert.ok(!html.includes('<img'));
+  assert.ok(!html.includes('<script'));
+  assert.match(html, /<strong>&lt;img/);
+});
+
+test('block elements render from Markdown', () => {
+  const html = render('# Care\n\n- Rinse\n- Dry\n\n| SKU | Weight |\n| --- | --- |\n| SW01 | 1.6kg |');
+  assert.match(html, /<h3>Care<\/h3>/);
+  assert.match(html, /<ul><li>Rinse<\/li><li>Dry<\/li><\/ul>/);
+  assert.match(html, /<td>SW01<\/td><td>1.6kg<\/td>/);
+});
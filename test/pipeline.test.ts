@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AskResponse } from '../src/apiSchema';
+import { AskHttpRequest, handleAskRequest } from '../src/askHandler';
+import { runIngest } from '../src/ingest';
+import { loadIndexVersion } from '../src/manifest';
+import { readLimitedBody } from '../src/rateLimit';
+
+// Offline: fake models, in-memory vectors and conversations, files in a scratch directory
+Object.assign(process.env, {
+  MODEL_PROVIDER: 'fake',
+  VECTOR_STORE: 'memory',
+  SESSION_STORE: 'memory',
+  CACHE_STORE: 'none',
+  ANALYTICS_STORE: 'none',
+  USAGE_STORE: 'memory',
+  REQUIRE_API_KEY: 'false',
+  LOG_LEVEL: 'error',
+});
+
+const PRODUCTS_CSV = [
+  'SKU,Product Name,Product_Weight,Product Category',
+  'SW01,Spin Mop,1.6kg,Floor Care',
+  'SW02,Steam Cleaner,2.4kg,Floor Care',
+  'KT01,Electric Kettle,1.1kg,Kitchen',
+].join('\n');
+
+const originalCwd = process.cwd();
+let workDir = '';
+let productsPath = '';
+
+function ask(body: unknown, headers: Record<string, string> = {}) {
+  const request: AskHttpRequest = {
+    method: 'POST',
+    url: '/api/ask',
+    getHeader: name => headers[name] ?? null,
+    readBody: async () => JSON.stringify(body),
+  };
+  return handleAskRequest(request);
+}
+
+before(() => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nick-test-'));
+  process.chdir(workDir);
+  productsPath = path.join(workDir, 'products.csv');
+  fs.writeFileSync(productsPath, PRODUCTS_CSV);
+});
+
+after(() => {
+  process.chdir(originalCwd);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test('ingestion publishes a content-addressed index version', async () => {
+  const { run } = await runIngest([productsPath]);
+  assert.ok(run);
+  assert.equal(run.catalogRows, 3);
+  assert.match(run.version, /^[0-9a-f]{16}$/);
+  assert.equal(loadIndexVersion(), run.version);
+
+  const { run: again } = await runIngest([productsPath]);
+  assert.equal(again?.version, run.version);
+});
+
+test('ask answers from the ingested rows and cites them', async () => {
+  const response = await ask({ query: 'What is the weight of the SW02?', includeSources: true });
+  assert.equal(response.status, 200);
+
+  // Exact product and attribute questions are answered from the catalog
+  const body = response.body as AskResponse;
+  assert.match(body.answer, /2\.4kg/);
+  assert.deepEqual(body.sources?.map(source => source.label), ['products.csv, Row 3']);
+  assert.ok(response.headers['X-Trace-Id']);
+});
+
+test('ask retrieves ingested chunks for open questions', async () => {
+  const response = await ask({ query: 'Tell me about the Electric Kettle', includeSources: true });
+  assert.equal(response.status, 200);
+
+  const body = response.body as AskResponse;
+  assert.match(body.answer, /Electric Kettle \| Product_Weight: 1\.1kg/);
+  assert.deepEqual(body.sources?.map(source => source.sheet), ['products.csv']);
+});
+
+test('anonymous conversations continue only with their owner cookie', async () => {
+  const first = await ask({ query: 'Tell me about the Spin Mop' });
+  const { conversationId } = first.body as AskResponse;
+  const cookie = first.headers['Set-Cookie']?.split(';')[0];
+  assert.ok(cookie);
+
+  const owner = await ask({ query: 'How much does it weigh?', conversationId }, { cookie });
+  assert.equal((owner.body as AskResponse).conversationId, conversationId);
+  assert.equal(owner.headers['Set-Cookie'], undefined);
+
+  const stranger = await ask({ query: 'How much does it weigh?', conversationId });
+  assert.notEqual((stranger.body as AskResponse).conversationId, conversationId);
+});
+
+test('bodies past MAX_BODY_BYTES are refused while they are read', async () => {
+  let sent = 0;
+  const chunked = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent >= 1024 * 1024) return controller.close();
+      sent += 16384;
+      controller.enqueue(new Uint8Array(16384).fill(32));
+    },
+  });
+
+  const response = await handleAskRequest({
+    method: 'POST',
+    url: '/api/ask',
+    getHeader: () => null,
+    readBody: async () => (await readLimitedBody(chunked)).toString('utf-8'),
+  });
+  assert.equal(response.status, 413);
+  assert.ok(sent < 1024 * 1024, 'stopped reading early');
+});
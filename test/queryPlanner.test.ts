@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Catalog, buildCatalogSheet } from '../src/catalog';
+import { executePlan, planQuery, toVectorFilter } from '../src/queryPlanner';
+
+function buildCatalog(): Catalog {
+  const { sheet, rows } = buildCatalogSheet('Products', [
+    { SKU: 'SW01', 'Product Name': 'Spin Mop', Product_Weight: '1.6kg', 'Product Category': 'Floor Care' },
+    { SKU: 'SW02', 'Product Name': 'Steam Cleaner', Product_Weight: '2.4kg', 'Product Category': 'Floor Care' },
+    { SKU: 'KT01', 'Product Name': 'Electric Kettle', Product_Weight: '1.1kg', 'Product Category': 'Kitchen' },
+  ]);
+  return { generatedAt: '', sheets: [sheet], rows };
+}
+
+test('numeric comparisons become filters over every row', () => {
+  const catalog = buildCatalog();
+  const plan = planQuery('Which products weigh less than 2kg?', catalog);
+  assert.ok(plan);
+  assert.equal(plan.aggregate, 'list');
+  assert.deepEqual(plan.filters.map(filter => [filter.column.name, filter.op, filter.value]), [['Product_Weight', 'lt', 2]]);
+  assert.deepEqual(executePlan(plan, catalog).rows.map(row => row.values.SKU), ['SW01', 'KT01']);
+  assert.deepEqual(toVectorFilter(plan), { attr_product_weight: { $lt: 2 } });
+});
+
+test('category values mentioned verbatim filter by equality', () => {
+  const catalog = buildCatalog();
+  const plan = planQuery('How many products are in Floor Care?', catalog);
+  assert.ok(plan);
+  assert.equal(plan.aggregate, 'count');
+  assert.match(executePlan(plan, catalog).summary, /Matching rows: 2/);
+  assert.deepEqual(toVectorFilter(plan), { attr_product_category: { $eq: 'Floor Care' } });
+});
+
+test('count questions can be grouped by a column', () => {
+  const catalog = buildCatalog();
+  const plan = planQuery('How many products per category?', catalog);
+  assert.ok(plan);
+  assert.equal(plan.groupBy?.name, 'Product Category');
+  assert.match(executePlan(plan, catalog).summary, /- Floor Care: 2\n- Kitchen: 1/);
+});
+
+test('extremes pick the numeric column from the wording', () => {
+  const catalog = buildCatalog();
+  const plan = planQuery('What is the heaviest product?', catalog);
+  assert.ok(plan);
+  assert.equal(plan.aggregate, 'max');
+  assert.equal(plan.column?.name, 'Product_Weight');
+  assert.match(executePlan(plan, catalog).summary, /Steam Cleaner – Product_Weight: 2\.4kg/);
+});
+
+test('a "total" attribute question is not planned as a count', () => {
+  assert.equal(planQuery('What is the total weight of the SW02?', buildCatalog()), null);
+  assert.equal(planQuery('What is the total number of products in Kitchen?', buildCatalog())?.aggregate, 'count');
+});
+
+test('questions without filters or aggregates are left to retrieval', () => {
+  assert.equal(planQuery('Tell me about the Spin Mop', buildCatalog()), null);
+  assert.equal(planQuery('Which products are there?', null), null);
+});
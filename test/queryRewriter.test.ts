@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Catalog, buildCatalogSheet } from '../src/catalog';
+import { rewriteQuery, trackEntities } from '../src/queryRewriter';
+
+// The fake chat model returns no rewrite, so the rule-based fallback is what runs
+process.env.MODEL_PROVIDER = 'fake';
+
+function buildCatalog(): Catalog {
+  const { sheet, rows } = buildCatalogSheet('Products', [
+    { SKU: 'SW01', 'Product Name': 'Spin Mop', Product_Weight: '1.6kg' },
+    { SKU: 'SW02', 'Product Name': 'Steam Cleaner', Product_Weight: '2.4kg' },
+  ]);
+  return { generatedAt: '', sheets: [sheet], rows };
+}
+
+const HISTORY = [
+  { role: 'user', content: 'Tell me about the Steam Cleaner' },
+  { role: 'assistant', content: 'The Steam Cleaner (SW02) is a floor care product.' },
+];
+
+test('the most recently discussed product is tracked', () => {
+  const entities = trackEntities(
+    [{ role: 'user', content: 'Tell me about the Spin Mop' }, ...HISTORY],
+    buildCatalog()
+  );
+  assert.deepEqual(entities.map(entity => entity.label), ['Steam Cleaner']);
+});
+
+test('pronouns are replaced with the tracked product', async () => {
+  const rewrite = await rewriteQuery('How much does it weigh?', HISTORY, buildCatalog());
+  assert.equal(rewrite.method, 'entity');
+  assert.equal(rewrite.standalone, 'How much does Steam Cleaner weigh?');
+});
+
+test('elliptical attribute questions get the product attached', async () => {
+  const rewrite = await rewriteQuery('And the weight?', HISTORY, buildCatalog());
+  assert.equal(rewrite.standalone, 'And the weight of Steam Cleaner?');
+});
+
+test('questions that name a product or have no history pass through', async () => {
+  assert.equal((await rewriteQuery('How heavy is the Spin Mop?', HISTORY, buildCatalog())).method, 'unchanged');
+  assert.equal((await rewriteQuery('How much does it weigh?', [], buildCatalog())).standalone, 'How much does it weigh?');
+});
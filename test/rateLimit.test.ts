@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { PayloadTooLargeError } from '../src/errors';
+import {
+  createMemoryRateLimitStore,
+  getClientIp,
+  guardAskRequest,
+  readLimitedBody,
+  setRateLimitStore,
+} from '../src/rateLimit';
+
+const LIMIT = { capacity: 2, refillPerMinute: 6 };
+
+test('a bucket allows a burst, then refills over time', async (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const store = createMemoryRateLimitStore();
+
+  assert.equal((await store.take('ip:a', LIMIT)).allowed, true);
+  assert.equal((await store.take('ip:a', LIMIT)).remaining, 0);
+  const rejected = await store.take('ip:a', LIMIT);
+  assert.equal(rejected.allowed, false);
+  assert.equal(rejected.retryAfterSeconds, 10);
+  assert.equal((await store.take('ip:b', LIMIT)).allowed, true);
+
+  now += 10_000;
+  assert.equal((await store.take('ip:a', LIMIT)).allowed, true);
+  assert.equal((await store.take('ip:a', LIMIT)).allowed, false);
+});
+
+test('the client IP ignores X-Forwarded-For entries the client could have sent', (t) => {
+  const headers: Record<string, string> = { 'x-forwarded-for': '203.0.113.9, 198.51.100.7, 10.0.0.2' };
+  const getHeader = (name: string) => headers[name];
+  t.after(() => {
+    delete process.env.TRUSTED_PROXY_HOPS;
+  });
+
+  process.env.TRUSTED_PROXY_HOPS = '0';
+  assert.equal(getClientIp(getHeader, '192.0.2.1'), '192.0.2.1');
+  assert.equal(getClientIp(getHeader), 'unknown');
+
+  process.env.TRUSTED_PROXY_HOPS = '1';
+  assert.equal(getClientIp(getHeader, '192.0.2.1'), '10.0.0.2');
+  process.env.TRUSTED_PROXY_HOPS = '2';
+  assert.equal(getClientIp(getHeader, '192.0.2.1'), '198.51.100.7');
+});
+
+test('guards reject rate-limited clients and oversized declared bodies', async () => {
+  setRateLimitStore(createMemoryRateLimitStore());
+  process.env.RATE_LIMIT_IP_BURST = '1';
+  const getHeader = (name: string) => (name === 'content-length' ? '10' : null);
+
+  assert.equal(await guardAskRequest(getHeader, '192.0.2.1'), null);
+  const limited = await guardAskRequest(getHeader, '192.0.2.1');
+  assert.equal(limited?.status, 429);
+  assert.equal(limited?.body.code, 'rate_limited');
+  assert.ok(limited?.headers['Retry-After']);
+
+  const tooLarge = await guardAskRequest(name => (name === 'content-length' ? '999999' : null), '192.0.2.2');
+  assert.equal(tooLarge?.status, 413);
+  delete process.env.RATE_LIMIT_IP_BURST;
+});
+
+test('bodies are read only up to the cap', async () => {
+  let pulled = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      pulled++;
+      controller.enqueue(new Uint8Array(1024));
+    },
+  });
+
+  await assert.rejects(readLimitedBody(body, 4096), PayloadTooLargeError);
+  assert.ok(pulled <= 6);
+  assert.equal((await readLimitedBody(new Response('{"query":"hi"}').body)).toString('utf-8'), '{"query":"hi"}');
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  appendTurn,
+  createConversation,
+  createFileSessionStore,
+  createMemorySessionStore,
+  isConversationOwner,
+  resolveConversationOwner,
+  toHistory,
+} from '../src/sessions';
+
+function answered(question: string, owner = {}) {
+  return appendTurn(createConversation(question, [], owner), question, { answer: 'It weighs 1.6kg. [1]' }, 'a'.repeat(32));
+}
+
+test('turns are stored with citations left out of the model history', () => {
+  const conversation = answered('How heavy is the Spin Mop?');
+  assert.equal(conversation.messages[1].traceId, 'a'.repeat(32));
+  assert.deepEqual(toHistory(conversation), [
+    { role: 'user', content: 'How heavy is the Spin Mop?' },
+    { role: 'assistant', content: 'It weighs 1.6kg.' },
+  ]);
+});
+
+test('anonymous callers own their conversations through the owner cookie', () => {
+  const issued = resolveConversationOwner(() => null, undefined, { issue: true, secure: true });
+  assert.match(issued.setCookie || '', /^nick_owner=[\w-]{43}; Path=\/api; HttpOnly; SameSite=Lax; Max-Age=\d+; Secure$/);
+
+  const cookie = issued.setCookie!.split(';')[0];
+  const returning = resolveConversationOwner(name => (name === 'cookie' ? `theme=dark; ${cookie}` : null), undefined);
+  assert.equal(returning.owner.ownerHash, issued.owner.ownerHash);
+  assert.equal(returning.setCookie, undefined);
+
+  const conversation = createConversation('hi', [], issued.owner);
+  assert.equal(isConversationOwner(conversation, returning.owner), true);
+  assert.equal(isConversationOwner(conversation, {}), false);
+  assert.equal(isConversationOwner(conversation, { apiKeyId: 'key-1' }), false);
+  assert.equal(isConversationOwner(createConversation('hi', [], { apiKeyId: 'key-1' }), issued.owner), false);
+});
+
+test('stores list only the owner\'s conversations', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nick-sessions-'));
+  try {
+    for (const store of [createMemorySessionStore(), createFileSessionStore(dir)]) {
+      const mine = answered('Mine', { apiKeyId: 'key-1' });
+      await store.save(mine);
+      await store.save(answered('Theirs', { apiKeyId: 'key-2' }));
+
+      assert.deepEqual((await store.list({ apiKeyId: 'key-1' })).map(summary => [summary.title, summary.messageCount]), [['Mine', 2]]);
+      assert.equal((await store.get(mine.id))?.title, 'Mine');
+      assert.equal(await store.delete(mine.id), true);
+      assert.equal(await store.get(mine.id), null);
+    }
+    assert.equal(await createFileSessionStore(dir).get('../api-keys'), null);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('the memory store expires idle conversations and evicts the least recently updated', async () => {
+  const store = createMemorySessionStore(2, 60000);
+  const [first, second, third] = ['First', 'Second', 'Third'].map(title => answered(title, { apiKeyId: 'key-1' }));
+  await store.save(first);
+  await store.save(second);
+  await store.save(first);
+  await store.save(third);
+  assert.equal(await store.get(second.id), null);
+  assert.deepEqual((await store.list({ apiKeyId: 'key-1' })).map(summary => summary.title).sort(), ['First', 'Third']);
+
+  const expiring = createMemorySessionStore(10, -1);
+  await expiring.save(first);
+  assert.equal(await expiring.get(first.id), null);
+  assert.deepEqual(await expiring.list({ apiKeyId: 'key-1' }), []);
+});
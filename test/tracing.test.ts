@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { SpanData, getActiveSpan, parseTraceparent, setSpanExporter, startTrace, withSpan } from '../src/tracing';
+
+test('traceparent headers continue the caller\'s trace', () => {
+  const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+  assert.deepEqual(parseTraceparent(`00-${traceId}-00f067aa0ba902b7-01`), { traceId, parentSpanId: '00f067aa0ba902b7' });
+  assert.equal(parseTraceparent(`00-${'0'.repeat(32)}-00f067aa0ba902b7-01`), null);
+  assert.equal(parseTraceparent('garbage'), null);
+
+  const trace = startTrace('ask', {}, `00-${traceId}-00f067aa0ba902b7-01`);
+  assert.equal(trace.traceId, traceId);
+});
+
+test('spans nest under the active span and are exported when the trace ends', async () => {
+  const exported: SpanData[] = [];
+  setSpanExporter({ async export(spans) { exported.push(...spans); } });
+  try {
+    const trace = startTrace('ask', { 'url.path': '/api/ask' });
+    await trace.run(() => withSpan('rag.run', {}, async () => {
+      getActiveSpan()?.setAttribute('rag.sources', 2);
+      await withSpan('rag.retrieve', {}, async () => {
+        throw new Error('index down');
+      }).catch(() => {});
+    }));
+    assert.equal(exported.length, 0, 'nothing is exported before the root ends');
+    await trace.end();
+
+    const byName = Object.fromEntries(exported.map(span => [span.name, span]));
+    assert.deepEqual(Object.keys(byName).sort(), ['ask', 'rag.retrieve', 'rag.run']);
+    assert.ok(exported.every(span => span.traceId === trace.traceId));
+    assert.equal(byName['rag.run'].parentSpanId, byName.ask.spanId);
+    assert.equal(byName['rag.retrieve'].parentSpanId, byName['rag.run'].spanId);
+    assert.equal(byName['rag.run'].attributes['rag.sources'], 2);
+    assert.deepEqual(byName['rag.retrieve'].status, { code: 'ERROR', message: 'index down' });
+  } finally {
+    setSpanExporter(null);
+  }
+});
+
+test('outside a trace, spans record nothing', async () => {
+  assert.equal(await withSpan('script', {}, async (span) => {
+    span.setAttribute('ignored', true);
+    return getActiveSpan();
+  }), undefined);
+});
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  calculateCost,
+  checkSpendLimit,
+  createUsageMeter,
+  getKeySubject,
+  getUsageStore,
+  recordModelUsage,
+  recordRequestUsage,
+} from '../src/usage';
+
+Object.assign(process.env, { USAGE_STORE: 'memory', LOG_LEVEL: 'error' });
+
+function usageOf(costUsd: number) {
+  return { inputTokens: 1000, outputTokens: 100, costUsd, calls: [] };
+}
+
+test('dated model snapshots are priced like their base model', () => {
+  assert.equal(calculateCost('gpt-4o', 1_000_000, 1_000_000), 12.5);
+  assert.equal(calculateCost('gpt-4o-mini-2024-07-18', 1_000_000, 0), 0.15);
+  assert.equal(calculateCost('unknown-model', 1000, 1000), 0);
+
+  process.env.MODEL_PRICES = '{"gpt-4o": {"input": 5, "output": 20}}';
+  try {
+    assert.equal(calculateCost('gpt-4o-2024-08-06', 1_000_000, 0), 5);
+  } finally {
+    delete process.env.MODEL_PRICES;
+  }
+});
+
+test('a meter counts the model calls made inside its run', async () => {
+  const meter = createUsageMeter();
+  await meter.run(async () => {
+    recordModelUsage('text-embedding-3-large', 'embeddings', 1000);
+    recordModelUsage('gpt-4o', 'chat', 2000, 500);
+  });
+  recordModelUsage('gpt-4o', 'chat', 9999, 9999);
+
+  const usage = meter.summary();
+  assert.equal(usage.calls.length, 2);
+  assert.equal(usage.inputTokens, 3000);
+  assert.equal(usage.costUsd, 0.01013);
+});
+
+test('keys and conversations are refused once they reach their daily cap', async () => {
+  process.env.DAILY_SPEND_LIMIT_USD = '1';
+  process.env.DAILY_SESSION_SPEND_LIMIT_USD = '0.5';
+  try {
+    assert.equal(await checkSpendLimit('key-a', 'conv-a'), null);
+
+    await recordRequestUsage(usageOf(0.6), 'key-a', 'conv-a');
+    const session = await checkSpendLimit('key-a', 'conv-a');
+    assert.equal(session?.status, 429);
+    assert.equal(session?.body.code, 'spend_limit_exceeded');
+    assert.match(session?.body.message || '', /conversation/);
+    assert.equal(await checkSpendLimit('key-a', 'conv-b'), null, 'a new conversation may continue');
+
+    await recordRequestUsage(usageOf(0.6), 'key-a', 'conv-b');
+    const key = await checkSpendLimit('key-a', 'conv-c');
+    assert.match(key?.body.message || '', /API key/);
+    assert.ok(Number(key?.headers['Retry-After']) > 0);
+    assert.equal(await checkSpendLimit('key-b', 'conv-d'), null, 'other keys are not affected');
+  } finally {
+    delete process.env.DAILY_SPEND_LIMIT_USD;
+    delete process.env.DAILY_SESSION_SPEND_LIMIT_USD;
+  }
+});
+
+test('daily totals add up per subject', async () => {
+  await recordRequestUsage(usageOf(0.25), 'key-totals', 'conv-totals');
+  await recordRequestUsage(usageOf(0.25), 'key-totals', 'conv-totals-2');
+  const totals = await getUsageStore()!.get(getKeySubject('key-totals'));
+  assert.equal(totals?.requests, 2);
+  assert.equal(totals?.costUsd, 0.5);
+});
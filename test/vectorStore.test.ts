@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createLocalVectorStore, getVectorStore, matchesFilter } from '../src/vectorStore';
+
+let workDir = '';
+
+before(() => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nick-vectors-'));
+});
+
+after(() => {
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+const records = [
+  { id: 'mop', values: [1, 0], metadata: { category: 'Floor Care', weight: 1.6 } },
+  { id: 'steam', values: [0.8, 0.6], metadata: { category: 'Floor Care', weight: 2.4 } },
+  { id: 'kettle', values: [0, 1], metadata: { category: 'Kitchen', weight: 1.1 } },
+];
+
+test('metadata filters combine their conditions', () => {
+  assert.equal(matchesFilter(records[1].metadata, { category: { $eq: 'Floor Care' }, weight: { $gt: 2 } }), true);
+  assert.equal(matchesFilter(records[0].metadata, { category: { $in: ['Kitchen'] } }), false);
+  assert.equal(matchesFilter(records[2].metadata, { weight: { $gte: 1.1, $lt: 1.2 } }), true);
+  assert.equal(matchesFilter(records[2].metadata, { sku: { $eq: 'KT01' } }), false, 'missing fields never match');
+});
+
+test('queries rank by cosine similarity within the filter', async () => {
+  const store = createLocalVectorStore();
+  await store.upsert(records);
+  assert.deepEqual((await store.query([1, 0], 2)).map(match => match.id), ['mop', 'steam']);
+  assert.deepEqual((await store.query([1, 0], 5, { category: { $eq: 'Kitchen' } })).map(match => match.id), ['kettle']);
+
+  await store.updateMetadata('kettle', { category: 'Floor Care' });
+  await store.delete(['mop']);
+  assert.deepEqual((await store.query([1, 0], 5, { category: { $eq: 'Floor Care' } })).map(match => match.id), ['steam', 'kettle']);
+});
+
+test('the local store writes its file in batches', async () => {
+  const filePath = path.join(workDir, 'batched.json');
+  const store = createLocalVectorStore(filePath, 20);
+  await store.upsert(records.slice(0, 1));
+  await store.upsert(records.slice(1));
+  assert.equal(fs.existsSync(filePath), false, 'nothing written before the delay');
+
+  await new Promise(resolve => setTimeout(resolve, 100));
+  const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  assert.deepEqual(saved.map((record: { id: string }) => record.id), ['mop', 'steam', 'kettle']);
+  assert.equal((await createLocalVectorStore(filePath).query([0, 1], 1))[0].id, 'kettle');
+});
+
+test('the local store is shared per file and picks up rewrites by other processes', async () => {
+  const filePath = path.join(workDir, 'shared.json');
+  process.env.VECTOR_STORE = 'local';
+  process.env.LOCAL_VECTOR_STORE_PATH = filePath;
+  try {
+    assert.equal(getVectorStore(), getVectorStore());
+
+    fs.writeFileSync(filePath, JSON.stringify(records.slice(2)));
+    assert.deepEqual((await getVectorStore().query([1, 0], 5)).map(match => match.id), ['kettle']);
+  } finally {
+    delete process.env.VECTOR_STORE;
+    delete process.env.LOCAL_VECTOR_STORE_PATH;
+  }
+});
@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import NickChatbot from '../components/NickChatbot';
+
+export type WidgetPosition = 'bottom-right' | 'bottom-left';
+
+interface NickWidgetProps {
+  endpoint: string;
+  apiKey?: string;
+  greeting?: string;
+  position: WidgetPosition;
+}
+
+/**
+ * Floating launcher button that opens the chat in a panel above it
+ */
+export default function NickWidget({ endpoint, apiKey, greeting, position }: NickWidgetProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // Mounted on first open, then only hidden, so a closed panel keeps its conversation
+  const [hasOpened, setHasOpened] = useState(false);
+
+  const toggle = () => {
+    setHasOpened(true);
+    setIsOpen((open) => !open);
+  };
+
+  return (
+    <div className={`nick-widget nick-widget-${position}${isOpen ? ' nick-widget-open' : ''}`}>
+      {hasOpened && (
+        <div className="nick-widget-panel" hidden={!isOpen}>
+          <NickChatbot
+            endpoint={endpoint}
+            apiKey={apiKey}
+            greeting={greeting}
+            onClose={() => setIsOpen(false)}
+          />
+        </div>
+      )}
+      <button
+        className="nick-widget-launcher"
+        onClick={toggle}
+        aria-label={isOpen ? 'Close chat' : 'Chat with Nick'}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? (
+          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+            <path
+              d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"
+              fill="currentColor"
+            />
+          </svg>
+        ) : (
+          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+            <path
+              d="M20 2H4c-1.1 0-2 .9-2 2v18l4-4h14c1.1 0 2-.9 2-2V4c0-1.1-.9-2-2-2zm0 14H5.17L4 17.17V4h16v12z"
+              fill="currentColor"
+            />
+          </svg>
+        )}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { createRoot } from 'react-dom/client';
+import NickWidget, { WidgetPosition } from './NickWidget';
+
+/** Colours overriding the default dark palette (see app/globals.css) */
+export interface WidgetTheme {
+  primary?: string;
+  secondary?: string;
+  background?: string;
+  surface?: string;
+  surfaceLight?: string;
+  text?: string;
+  textSecondary?: string;
+  textMuted?: string;
+  border?: string;
+}
+
+export interface NickInitOptions {
+  /** URL of the ask API; defaults to /api/ask on the server the script was loaded from */
+  endpoint?: string;
+  /** API key whose allowed origins include the embedding page */
+  apiKey?: string;
+  /** "dark" (default), "light" or individual colours */
+  theme?: 'dark' | 'light' | WidgetTheme;
+  greeting?: string;
+  position?: WidgetPosition;
+}
+
+export interface NickWidgetHandle {
+  /** Remove the widget from the page */
+  destroy(): void;
+}
+
+declare global {
+  interface Window {
+    Nick: { init(options?: NickInitOptions): NickWidgetHandle };
+  }
+}
+
+// Stylesheets inlined by scripts/build-widget.ts
+declare const __NICK_WIDGET_CSS__: string;
+
+const THEME_VARIABLES: Record<keyof WidgetTheme, string> = {
+  primary: '--primary',
+  secondary: '--secondary',
+  background: '--background',
+  surface: '--surface',
+  surfaceLight: '--surface-light',
+  text: '--text-primary',
+  textSecondary: '--text-secondary',
+  textMuted: '--text-muted',
+  border: '--border',
+};
+
+const LIGHT_THEME: WidgetTheme = {
+  background: '#f8fafc',
+  surface: '#ffffff',
+  surfaceLight: '#f1f5f9',
+  text: '#0f172a',
+  textSecondary: '#334155',
+  textMuted: '#64748b',
+  border: '#e2e8f0',
+};
+
+const POSITIONS: WidgetPosition[] = ['bottom-right', 'bottom-left'];
+
+// Only set while this script tag runs, so capture it before init is called
+const scriptSrc = (document.currentScript as HTMLScriptElement | null)?.src;
+
+let activeWidget: NickWidgetHandle | null = null;
+
+function resolveEndpoint(endpoint: string | undefined): string {
+  if (endpoint) return new URL(endpoint, window.location.href).toString();
+  if (!scriptSrc) {
+    throw new Error('Nick.init: could not tell where the widget was loaded from; pass `endpoint`.');
+  }
+  return new URL('/api/ask', scriptSrc).toString();
+}
+
+/**
+ * Set theme colours as custom properties on the host element; they inherit
+ * into the shadow root and override its :host defaults
+ */
+function applyTheme(host: HTMLElement, theme: NickInitOptions['theme']): void {
+  const colours = theme === 'light' ? LIGHT_THEME : theme === 'dark' || !theme ? {} : theme;
+  for (const [name, value] of Object.entries(colours) as Array<[keyof WidgetTheme, string | undefined]>) {
+    if (!THEME_VARIABLES[name]) {
+      throw new Error(`Nick.init: unknown theme colour "${name}".`);
+    }
+    if (value) host.style.setProperty(THEME_VARIABLES[name], value);
+  }
+  if (colours.primary || colours.secondary) {
+    host.style.setProperty('--gradient-1', 'linear-gradient(135deg, var(--primary) 0%, var(--secondary) 100%)');
+  }
+}
+
+/**
+ * Mount the chat launcher on the page. Calling init again replaces the
+ * previous widget.
+ */
+function init(options: NickInitOptions = {}): NickWidgetHandle {
+  const position = options.position || 'bottom-right';
+  if (!POSITIONS.includes(position)) {
+    throw new Error(`Nick.init: position must be one of ${POSITIONS.join(', ')}.`);
+  }
+  const endpoint = resolveEndpoint(options.endpoint);
+
+  // The shadow root keeps the page's CSS out of the widget and the widget's CSS out of the page
+  const host = document.createElement('div');
+  host.id = 'nick-widget';
+  applyTheme(host, options.theme);
+
+  activeWidget?.destroy();
+  const shadow = host.attachShadow({ mode: 'open' });
+  const style = document.createElement('style');
+  style.textContent = __NICK_WIDGET_CSS__;
+  const container = document.createElement('div');
+  shadow.append(style, container);
+  document.body.appendChild(host);
+
+  const root = createRoot(container);
+  root.render(
+    <NickWidget endpoint={endpoint} apiKey={options.apiKey} greeting={options.greeting} position={position} />
+  );
+
+  const widget: NickWidgetHandle = {
+    destroy() {
+      root.unmount();
+      host.remove();
+      if (activeWidget === widget) activeWidget = null;
+    },
+  };
+  activeWidget = widget;
+  return widget;
+}
+
+window.Nick = { init };